@@ -3,7 +3,7 @@
  */
 
 import { Command } from 'commander';
-import { CLI_NAME, CLI_DESCRIPTION } from './core/constants.js';
+import { CLI_NAME, CLI_DESCRIPTION, OFFLINE_ENV_VAR, VERBOSE_ENV_VAR } from './core/constants.js';
 import { startInteractiveMode } from './ui/repl.js';
 import { version } from './version.js';
 import { logger } from './utils/logger.js';
@@ -18,13 +18,17 @@ import { registerStatusCommand } from './commands/status.js';
 import { registerProvidersCommand } from './commands/providers.js';
 import { registerSearchCommand } from './commands/search.js';
 import { registerAddCommand } from './commands/add.js';
+import { registerInstallCommand } from './commands/install.js';
 import { registerListCommand } from './commands/list.js';
 import { registerUninstallCommand } from './commands/uninstall.js';
 import { registerSyncCommand } from './commands/sync.js';
+import { registerAdoptCommand } from './commands/adopt.js';
 import { registerUpdateCommand } from './commands/update.js';
+import { registerRollbackCommand } from './commands/rollback.js';
 import { registerDoctorCommand } from './commands/doctor.js';
 import { registerCleanCommand } from './commands/clean.js';
 import { registerPurgeCommand } from './commands/purge.js';
+import { registerLoginCommand } from './commands/login.js';
 
 export function createCLI(): Command {
   const program = new Command();
@@ -35,8 +39,16 @@ export function createCLI(): Command {
     .version(version, '-v, --version', 'Show CLI version')
     .option('--verbose', 'Enable verbose output')
     .option('--no-color', 'Disable colored output')
-    .hook('preAction', (_thisCommand, _actionCommand) => {
-      // Global pre-action hook for logging, etc.
+    .option('--offline', 'Serve registry data from the local cache only')
+    .hook('preAction', (thisCommand, _actionCommand) => {
+      // Global flags are exposed through env so services pick them up without threading
+      const globalOptions = thisCommand.opts<{ offline?: boolean; verbose?: boolean }>();
+      if (globalOptions.offline === true) {
+        process.env[OFFLINE_ENV_VAR] = '1';
+      }
+      if (globalOptions.verbose === true) {
+        process.env[VERBOSE_ENV_VAR] = '1';
+      }
     });
 
   // Enter interactive mode when no command is provided
@@ -54,13 +66,17 @@ export function createCLI(): Command {
   registerProvidersCommand(program);
   registerSearchCommand(program);
   registerAddCommand(program);
+  registerInstallCommand(program);
   registerListCommand(program);
   registerUninstallCommand(program);
   registerSyncCommand(program);
+  registerAdoptCommand(program);
   registerUpdateCommand(program);
+  registerRollbackCommand(program);
   registerDoctorCommand(program);
   registerCleanCommand(program);
   registerPurgeCommand(program);
+  registerLoginCommand(program);
 
   // TODO: Register more commands as they are implemented
   // These commands will work both via CLI (synapsync init)
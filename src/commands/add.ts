@@ -1,24 +1,87 @@
 /**
  * Add Command
  *
- * Add cognitives from registry, local path, or GitHub
+ * Add cognitives from registry, local path, GitHub, any git remote, or an archive URL
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import type { Command } from 'commander';
 import pc from 'picocolors';
-import { RegistryClient, CognitiveNotFoundError, RegistryError } from '../services/registry/client.js';
+import {
+  CognitiveNotFoundError,
+  RegistryError,
+  RegistryOfflineError,
+  RegistryAuthError,
+  VersionNotFoundError,
+  createRegistryClient,
+  parseRegistrySpecifier,
+} from '../services/registry/client.js';
 import { ConfigManager } from '../services/config/manager.js';
+import { ManifestManager } from '../services/manifest/manager.js';
+import {
+  LockfileManager,
+  FrozenLockfileError,
+  computeIntegrity,
+  computeContentHash,
+  describeMismatch,
+} from '../services/lockfile/index.js';
+import type { LockedCognitive } from '../services/lockfile/index.js';
+import {
+  ArchiveError,
+  DownloadError,
+  IntegrityError,
+  fetchFromGitHub,
+  fetchFromRegistry,
+  fetchFromUrl,
+  getArchiveName,
+  getBaseDir,
+  getCognitiveDir,
+  getPayloadFiles,
+  isArchiveUrl,
+  readCognitiveDir,
+  writeBase,
+  writeCognitive,
+} from '../services/installer/index.js';
+import type { CognitivePayload, RegistryPayload } from '../services/installer/index.js';
+import {
+  DependencyConflictError,
+  DependencyCycleError,
+  parseDependencies,
+  resolveDependencies,
+} from '../services/dependencies/index.js';
+import type { ResolvedDependency } from '../services/dependencies/index.js';
+import {
+  GitHubError,
+  createGitHubClient,
+  formatGitHubSource,
+  getGitHubWebUrl,
+  parseGitHubSource,
+} from '../services/github/index.js';
+import type { GitHubSource } from '../services/github/index.js';
+import {
+  GitError,
+  createGitClient,
+  formatGitSource,
+  getGitSourceName,
+  parseGitSource,
+} from '../services/git/index.js';
+import type { GitSource } from '../services/git/index.js';
 import { SyncEngine } from '../services/sync/engine.js';
+import { Transaction, TransactionPendingError, describeRollback } from '../services/transaction/index.js';
 import { regenerateAgentsMd } from '../services/agents-md/generator.js';
 import {
-  COGNITIVE_TYPES,
-  COGNITIVE_FILE_NAMES,
+  AGENTS_MD_FILE_NAME,
+  DEFAULT_REGISTRY_NAME,
+  LOCK_FILE_NAME,
+  MANIFEST_FILE_NAME,
 } from '../core/constants.js';
-import type { CognitiveType, Category } from '../core/constants.js';
-import type { InstalledCognitive, CognitiveManifest } from '../types/index.js';
+import type { CognitiveType, CognitiveSource } from '../core/constants.js';
+import type { CognitiveManifest, InstalledCognitive, RegistryCollectionEntry } from '../types/index.js';
 import { logger } from '../utils/logger.js';
+import { satisfies } from '../utils/semver.js';
+import { findLinkConflict, parseCognitiveName } from '../utils/names.js';
 
 // ============================================
 // Types
@@ -28,14 +91,31 @@ interface AddCommandOptions {
   type?: string;
   category?: string;
   force?: boolean;
+  frozenLockfile?: boolean; // fail instead of changing synapsync.lock
+  integrity?: string; // expected sha256-<base64> of an archive URL
+  skipDeps?: boolean; // install without the cognitive's dependencies
+  global?: boolean; // install into the user-level store
+}
+
+/**
+ * Where a payload installed through the local path really came from
+ */
+interface InstallOrigin {
+  source: CognitiveSource;
+  label: string; // shown as Source: in the summary
+  name?: string; // fallback when the frontmatter has no name
+  resolved: string; // synapsync.lock resolved value
+  details: Pick<InstalledCognitive, 'sourceUrl' | 'registry' | 'ref' | 'commit' | 'collection'>;
 }
 
 interface InstallSource {
-  type: 'registry' | 'local' | 'github';
+  type: 'registry' | 'local' | 'github' | 'git' | 'url';
   name: string;
+  version?: string; // registry only: exact version or semver range
   path?: string;
+  github?: GitHubSource;
+  git?: GitSource;
   url?: string;
-  branch?: string;
 }
 
 // ============================================
@@ -51,32 +131,56 @@ export async function executeAddCommand(
 ): Promise<void> {
   logger.line();
 
-  // Check if project is initialized
-  const configManager = ConfigManager.findConfig();
+  // Check if project is initialized (the global store needs no project)
+  const configManager = options.global === true ? ConfigManager.findGlobalConfig() : ConfigManager.findConfig();
   if (configManager === null) {
     logger.error('No SynapSync project found.');
-    logger.hint('Run synapsync init to initialize a project first.');
+    logger.hint('Run synapsync init to initialize a project first, or use --global.');
     return;
   }
+  if (configManager.isGlobal() && !configManager.exists()) {
+    configManager.save();
+  }
 
   // Parse the source
   const parsedSource = parseSource(source);
   logger.log(`  ${pc.dim(`Installing from ${parsedSource.type}...`)}`);
 
   let success = false;
+  let transaction: Transaction | null = null;
 
   try {
+    if (options.integrity !== undefined && parsedSource.type !== 'url') {
+      throw new Error('--integrity only applies to archive URLs (.tar.gz, .tgz, .tar, .zip)');
+    }
+
+    // A frozen lockfile must describe the installed cognitives before anything changes
+    if (options.frozenLockfile === true) {
+      new LockfileManager(configManager.getLockfileDir()).assertInSync(
+        new ManifestManager(configManager.getSynapSyncDir()).getCognitives()
+      );
+    }
+
+    // Every change below is journaled and rolled back if anything fails
+    transaction = Transaction.begin(configManager.getSynapSyncDir(), 'add');
+
     switch (parsedSource.type) {
       case 'registry':
-        success = await installFromRegistry(parsedSource.name, options, configManager);
+        success = await installFromRegistry(parsedSource, options, configManager, transaction);
         break;
       case 'local':
         if (parsedSource.path !== undefined) {
-          success = installFromLocal(parsedSource.path, options, configManager);
+          success = await installFromLocal(parsedSource.path, options, configManager, transaction);
         }
         break;
       case 'github':
-        success = installFromGitHub(parsedSource, options, configManager);
+        success = await installFromGitHub(parsedSource, options, configManager, transaction);
+        break;
+      case 'git':
+        success = await installFromGit(parsedSource, options, configManager, transaction);
+        break;
+      case 'url':
+        success = await installFromUrl(parsedSource, options, configManager, transaction);
         break;
     }
 
@@ -86,8 +190,11 @@ export async function executeAddCommand(
       const synapSyncDir = configManager.getSynapSyncDir();
       const projectRoot = configManager.getProjectRoot();
       const config = configManager.getConfig();
-      const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config);
+      const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config, transaction);
       const result = syncEngine.sync({ force: options.force ?? false });
+      if (!result.success) {
+        throw new Error(`Sync failed: ${result.errors.map((e) => e.message).join(', ')}`);
+      }
 
       if (result.providerResults && result.providerResults.length > 0) {
         for (const pr of result.providerResults) {
@@ -98,26 +205,82 @@ export async function executeAddCommand(
           } else if (skipped > 0) {
             logger.log(`  ${pc.green('✓')} Synced to ${pr.provider} (already up to date)`);
           }
+          if (pr.unsupported.length > 0) {
+            const types = [...new Set(pr.unsupported.map((u) => `${u.type}s`))].join(', ');
+            logger.log(`  ${pc.yellow('!')} Not synced to ${pr.provider}: ${types} not supported`);
+          }
+          for (const target of pr.unmanaged) {
+            const relative = path.relative(process.cwd(), target);
+            logger.log(`  ${pc.yellow('!')} Not synced to ${pr.provider}: ${relative} was not created by SynapSync`);
+          }
         }
       }
 
-      // Regenerate AGENTS.md
-      regenerateAgentsMd(projectRoot, synapSyncDir);
+      // Regenerate AGENTS.md (projects only)
+      if (!configManager.isGlobal()) {
+        transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+        regenerateAgentsMd(projectRoot, synapSyncDir);
+      }
 
       logger.line();
     }
+
+    transaction.commit();
   } catch (error) {
+    const rollback = transaction?.rollback();
     logger.line();
-    if (error instanceof CognitiveNotFoundError) {
+    if (error instanceof TransactionPendingError) {
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+    } else if (error instanceof CognitiveNotFoundError) {
       logger.error(`Cognitive '${error.cognitiveName}' not found in registry.`);
       logger.hint('Run synapsync search to find available cognitives.');
+    } else if (error instanceof FrozenLockfileError) {
+      logger.error(`Frozen lockfile: ${error.message}`);
+      for (const mismatch of error.mismatches) {
+        logger.log(`    ${pc.dim('-')} ${describeMismatch(mismatch)}`);
+      }
+      logger.hint(`Run without --frozen-lockfile to update ${LOCK_FILE_NAME}.`);
+      process.exitCode = 1;
+    } else if (error instanceof VersionNotFoundError) {
+      logger.error(error.message);
+      if (error.available.length > 0) {
+        logger.hint(`Available versions: ${error.available.join(', ')}`);
+      }
+    } else if (error instanceof RegistryOfflineError) {
+      logger.error(error.message);
+      logger.hint('Only cognitives fetched previously can be added while offline.');
+    } else if (error instanceof RegistryAuthError) {
+      logger.error(error.message);
+      logger.hint(`Run synapsync login ${error.registryName ?? '<registry>'} to authenticate.`);
     } else if (error instanceof RegistryError) {
       logger.error(`Registry error: ${error.message}`);
+    } else if (error instanceof GitHubError) {
+      logger.error(`GitHub error: ${error.message}`);
+    } else if (error instanceof GitError) {
+      logger.error(`Git error: ${error.message}`);
+    } else if (error instanceof DependencyCycleError || error instanceof DependencyConflictError) {
+      logger.error(error.message);
+      logger.hint('Nothing was installed. Use --skip-deps to install without dependencies.');
+    } else if (error instanceof DownloadError) {
+      logger.error(`Download error: ${error.message}`);
+    } else if (error instanceof IntegrityError) {
+      logger.error(`Integrity check failed: ${error.message}`);
+    } else if (error instanceof ArchiveError) {
+      logger.error(`Invalid archive: ${error.message}`);
     } else if (error instanceof Error) {
       logger.error(`Installation failed: ${error.message}`);
     } else {
       logger.error('Installation failed with unknown error');
     }
+
+    if (rollback !== undefined && (rollback.restored.length > 0 || rollback.removed.length > 0)) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    }
   }
 }
 
@@ -135,39 +298,38 @@ function parseSource(source: string): InstallSource {
     };
   }
 
-  // GitHub shorthand: github:user/repo or github:user/repo#branch
-  if (source.startsWith('github:')) {
-    const rest = source.slice(7);
-    const [repoPath, branch] = rest.split('#');
-    const parts = repoPath?.split('/') ?? [];
-
-    return {
-      type: 'github',
-      name: parts[parts.length - 1] ?? repoPath ?? source,
-      url: `https://github.com/${repoPath}`,
-      branch: branch ?? 'main',
-    };
+  // Archive URL: https://host/path/my-skill.tgz (or .tar.gz, .tar, .zip)
+  if (isArchiveUrl(source)) {
+    return { type: 'url', name: getArchiveName(source), url: source };
   }
 
-  // GitHub URL: https://github.com/user/repo
-  if (source.startsWith('https://github.com/')) {
-    const urlPath = source.replace('https://github.com/', '');
-    const [repoPath, branch] = urlPath.split('#');
-    const parts = repoPath?.split('/') ?? [];
+  // GitHub: github:owner/repo[/path][#ref] or https://github.com/owner/repo[/tree/ref/path]
+  if (source.startsWith('github:') || source.startsWith('https://github.com/')) {
+    const github = parseGitHubSource(source);
+    if (github === null) {
+      return { type: 'github', name: source };
+    }
 
     return {
       type: 'github',
-      name: parts[parts.length - 1] ?? repoPath ?? source,
-      url: `https://github.com/${repoPath}`,
-      branch: branch ?? 'main',
+      name: path.posix.basename(github.path ?? github.repo),
+      github,
     };
   }
 
-  // Default: registry name
-  return {
-    type: 'registry',
-    name: source,
-  };
+  // Any git remote: git+ssh://, git+https://, git+file:// with optional #ref[:subdir]
+  if (source.startsWith('git+')) {
+    const git = parseGitSource(source);
+    return git === null ? { type: 'git', name: source } : { type: 'git', name: getGitSourceName(git), git };
+  }
+
+  // Default: registry name, optionally with @version or @range
+  const { name, version } = parseRegistrySpecifier(source);
+  const parsed: InstallSource = { type: 'registry', name };
+  if (version !== undefined) {
+    parsed.version = version;
+  }
+  return parsed;
 }
 
 // ============================================
@@ -175,304 +337,476 @@ function parseSource(source: string): InstallSource {
 // ============================================
 
 async function installFromRegistry(
-  name: string,
+  source: InstallSource,
   options: AddCommandOptions,
-  configManager: ConfigManager
+  configManager: ConfigManager,
+  transaction: Transaction
 ): Promise<boolean> {
-  const client = new RegistryClient();
-
-  // Download cognitive
-  const downloaded = await client.download(name);
-  const manifest = downloaded.manifest;
-
-  // Determine category
-  const category = options.category ?? manifest.category;
-
-  // Check if already installed
-  const targetDir = getTargetDir(configManager, manifest.type, category, manifest.name);
-
-  if (fs.existsSync(targetDir) && options.force !== true) {
-    logger.line();
-    logger.error(`Cognitive '${manifest.name}' is already installed.`);
-    logger.hint('Use --force to overwrite.');
-    return false;
+  const client = createRegistryClient(configManager.getSynapSyncDir(), configManager.getConfig());
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+
+  // A name that is only a collection installs all of its members
+  if ((await client.findByName(source.name)) === null) {
+    const collection = await client.findCollection(source.name);
+    if (collection !== null) {
+      if (source.version !== undefined) {
+        throw new Error(`'${source.name}' is a collection; its members are installed at the versions it lists`);
+      }
+      return installCollection(collection, options, configManager, transaction);
+    }
   }
 
-  // Download assets if any (check for assets folder)
-  const assets = await downloadAssets(client, name, manifest);
+  // A frozen lockfile pins the version when none is requested
+  const version =
+    source.version ?? (options.frozenLockfile === true ? lockfile.getCognitive(source.name)?.version : undefined);
+
+  // Download cognitive and assets at the requested version (latest by default)
+  const payload = await fetchFromRegistry(client, source.name, {
+    ...(version !== undefined && { version }),
+  });
+  const category = options.category ?? payload.manifest.category;
+
+  return installPayload(
+    { ...payload, manifest: { ...payload.manifest, category } },
+    options,
+    configManager,
+    transaction,
+    getRegistryOrigin(payload)
+  );
+}
 
-  // Save files
-  saveCognitive(targetDir, manifest, downloaded.content, assets);
+/**
+ * Where a registry payload came from
+ */
+function getRegistryOrigin(payload: RegistryPayload): InstallOrigin {
+  return {
+    source: 'registry',
+    label: payload.registry,
+    resolved: payload.resolved,
+    details: {
+      // The public registry keeps pointing at its repository
+      sourceUrl:
+        payload.registry === DEFAULT_REGISTRY_NAME
+          ? 'https://github.com/SynapSync/synapse-registry'
+          : payload.registryUrl,
+      registry: payload.registry,
+    },
+  };
+}
 
-  // Update manifest.json
-  updateProjectManifest(configManager, manifest, 'registry');
+/**
+ * Install every member of a registry collection at the version range it lists
+ * Members already installed are kept as they are
+ */
+async function installCollection(
+  collection: RegistryCollectionEntry,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  transaction: Transaction
+): Promise<boolean> {
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const client = createRegistryClient(synapSyncDir, configManager.getConfig());
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+  const installed = new ManifestManager(synapSyncDir);
+  const members = parseDependencies(collection.cognitives);
 
-  // Success
   logger.line();
-  logger.log(`  ${pc.green('✓')} Installed ${pc.bold(manifest.name)} ${pc.dim(`v${manifest.version}`)}`);
-  logger.log(`    ${pc.dim('Type:')} ${manifest.type}`);
-  logger.log(`    ${pc.dim('Category:')} ${category}`);
-  logger.log(`    ${pc.dim('Location:')} ${path.relative(process.cwd(), targetDir)}`);
-
-  return true;
-}
+  logger.log(
+    `  ${pc.cyan('◆')} Collection ${pc.bold(collection.name)} ${pc.dim(`(${members.length} cognitives)`)}`
+  );
+  if (collection.description !== '') {
+    logger.log(`    ${pc.dim(collection.description)}`);
+  }
 
-async function downloadAssets(
-  client: RegistryClient,
-  name: string,
-  _manifest: CognitiveManifest
-): Promise<Map<string, string>> {
-  const assets = new Map<string, string>();
-
-  // Find the cognitive entry first
-  const entry = await client.findByName(name);
-  if (entry === null) return assets;
-
-  // Try to download common asset files
-  const assetFiles = [
-    'assets/SKILL-TEMPLATE-BASIC.md',
-    'assets/SKILL-TEMPLATE-ADVANCED.md',
-  ];
+  let count = 0;
+  for (const member of members) {
+    const existing = installed.getCognitive(member.name);
+    if (existing !== undefined && options.force !== true) {
+      const note = satisfies(existing.version, member.version)
+        ? 'already installed'
+        : pc.yellow(`already installed, collection asks for ${member.version}`);
+      logger.log(`    ${pc.dim('○')} ${member.name} ${pc.dim(`v${existing.version}`)} ${pc.dim(note)}`);
+      continue;
+    }
 
-  for (const assetPath of assetFiles) {
-    try {
-      const content = await client.downloadAsset(entry, assetPath);
-      assets.set(assetPath, content);
-    } catch {
-      // Asset doesn't exist, skip
+    // A frozen lockfile pins members to their locked versions
+    const locked = options.frozenLockfile === true ? lockfile.getCognitive(member.name) : undefined;
+    const payload = await fetchFromRegistry(client, member.name, {
+      version: locked?.version ?? member.version,
+      ...(collection.registry !== undefined && { registry: collection.registry }),
+    });
+    const origin = getRegistryOrigin(payload);
+    const memberOrigin = { ...origin, details: { ...origin.details, collection: collection.name } };
+    if (await installPayload(payload, options, configManager, transaction, memberOrigin)) {
+      count++;
     }
   }
 
-  return assets;
+  logger.line();
+  logger.log(`  ${pc.green('✓')} Installed ${count} of ${members.length} cognitives from ${pc.bold(collection.name)}`);
+  return count > 0;
 }
 
 // ============================================
 // Local Installation
 // ============================================
 
-function installFromLocal(
+async function installFromLocal(
   sourcePath: string,
   options: AddCommandOptions,
-  configManager: ConfigManager
-): boolean {
+  configManager: ConfigManager,
+  transaction: Transaction,
+  origin?: InstallOrigin
+): Promise<boolean> {
   const absolutePath = path.resolve(process.cwd(), sourcePath);
 
   if (!fs.existsSync(absolutePath)) {
     throw new Error(`Path not found: ${absolutePath}`);
   }
 
-  // Detect cognitive type and filename
-  const detected = detectCognitiveType(absolutePath);
+  // Detect the cognitive file and read the folder with all of its files
+  const payload = await readCognitiveDir(absolutePath, {
+    type: options.type as CognitiveType | undefined,
+    category: options.category,
+    name: origin?.name,
+  });
+
+  return installPayload(payload, options, configManager, transaction, origin ?? {
+    source: 'local',
+    label: 'local',
+    resolved: `file:${toPosixPath(path.relative(configManager.getProjectRoot(), absolutePath))}`,
+    details: {},
+  });
+}
 
-  if (detected === null && options.type === undefined) {
-    throw new Error(
-      'Could not detect cognitive type. Please specify with --type flag.'
-    );
+// ============================================
+// GitHub Installation
+// ============================================
+
+async function installFromGitHub(
+  source: InstallSource,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  transaction: Transaction
+): Promise<boolean> {
+  if (source.github === undefined) {
+    throw new Error(`Invalid GitHub source: ${source.name}. Use github:owner/repo[/path][#ref]`);
   }
 
-  const cognitiveType = (options.type as CognitiveType) ?? detected?.type ?? 'skill';
-  const fileName = detected?.fileName ?? COGNITIVE_FILE_NAMES[cognitiveType];
+  const client = createGitHubClient(configManager.getConfig());
 
-  // Read the cognitive file
-  const filePath = path.join(absolutePath, fileName);
+  const fetchOptions = {
+    type: options.type as CognitiveType | undefined,
+    category: options.category,
+  };
 
-  if (!fs.existsSync(filePath)) {
-    throw new Error(`Cognitive file not found: ${filePath}`);
+  // Download the archive at the ref and extract the cognitive folder
+  let github: GitHubSource = source.github;
+  let payload = await fetchFromGitHub(client, github, fetchOptions);
+
+  // A frozen lockfile pins the commit when no ref is requested; its entry is keyed by the manifest name
+  if (options.frozenLockfile === true && github.ref === undefined) {
+    const lockedCommit = new LockfileManager(configManager.getLockfileDir()).getCognitive(
+      payload.manifest.name
+    )?.commit;
+    if (lockedCommit !== undefined && lockedCommit !== payload.commit) {
+      github = { ...source.github, ref: lockedCommit };
+      payload = await fetchFromGitHub(client, github, fetchOptions);
+    }
   }
 
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const metadata = parseMetadata(content);
-  const name = (metadata['name'] as string) ?? path.basename(absolutePath);
-  const category = (options.category as Category) ?? (metadata['category'] as Category) ?? 'general';
-
-  // Create manifest from metadata - use original filename
-  const manifest: CognitiveManifest = {
-    name,
-    type: cognitiveType,
-    version: (metadata['version'] as string) ?? '1.0.0',
-    description: (metadata['description'] as string) ?? '',
-    author: (metadata['author'] as string) ?? 'local',
-    license: (metadata['license'] as string) ?? 'MIT',
-    category,
-    tags: (metadata['tags'] as string[]) ?? [],
-    providers: ((metadata['providers'] as string[]) ?? []) as CognitiveManifest['providers'],
-    file: fileName, // Use the original filename
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  };
+  return installPayload(payload, options, configManager, transaction, {
+    source: 'github',
+    label: `${source.github.owner}/${source.github.repo} ${pc.dim(`@ ${payload.commit.slice(0, 7)}`)}`,
+    resolved: formatGitHubSource(github, payload.commit),
+    details: {
+      sourceUrl: getGitHubWebUrl(source.github),
+      ...(source.github.ref !== undefined && { ref: source.github.ref }),
+      commit: payload.commit,
+    },
+  });
+}
+
+// ============================================
+// Git Installation
+// ============================================
+
+async function installFromGit(
+  source: InstallSource,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  transaction: Transaction
+): Promise<boolean> {
+  if (source.git === undefined) {
+    throw new Error(`Invalid git source: ${source.name}. Use git+<url>[#ref][:subdir]`);
+  }
+  const git = source.git;
+
+  // A frozen lockfile pins the commit when no ref is requested
+  const lockedCommit =
+    options.frozenLockfile === true && git.ref === undefined
+      ? new LockfileManager(configManager.getLockfileDir()).getCognitive(source.name)?.commit
+      : undefined;
+
+  // Shallow-fetch the ref into a temp dir, then install the folder like a local path
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-git-'));
+  try {
+    const commit = await createGitClient().checkout(git, tempDir, lockedCommit);
+    const cognitiveDir = path.join(tempDir, ...(git.subdir?.split('/') ?? []));
+    if (!fs.existsSync(cognitiveDir)) {
+      throw new GitError(`Path '${git.subdir ?? ''}' not found in ${git.remote}`);
+    }
+
+    return await installFromLocal(cognitiveDir, options, configManager, transaction, {
+      source: 'git',
+      label: `${git.remote} ${pc.dim(`@ ${commit.slice(0, 7)}`)}`,
+      name: source.name,
+      resolved: formatGitSource(git, commit),
+      details: {
+        sourceUrl: formatGitSource(git),
+        ...(git.ref !== undefined && { ref: git.ref }),
+        commit,
+      },
+    });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// ============================================
+// URL Installation
+// ============================================
+
+async function installFromUrl(
+  source: InstallSource,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  transaction: Transaction
+): Promise<boolean> {
+  if (source.url === undefined) {
+    throw new Error(`Invalid archive URL: ${source.name}`);
+  }
+
+  // Download, check the integrity, then extract safely into a temp dir
+  const payload = await fetchFromUrl(source.url, {
+    type: options.type as CognitiveType | undefined,
+    category: options.category,
+    integrity: options.integrity,
+  });
+
+  return installPayload(payload, options, configManager, transaction, {
+    source: 'url',
+    label: `${source.url} ${pc.dim(`(${payload.integrity.slice(0, 19)}…)`)}`,
+    resolved: source.url,
+    details: { sourceUrl: source.url },
+  });
+}
+
+// ============================================
+// Payload Installation
+// ============================================
+
+/**
+ * Write a fetched payload and the dependencies it needs, then record them
+ * Dependencies are resolved first so a cycle or conflict writes nothing
+ */
+async function installPayload(
+  payload: CognitivePayload,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  transaction: Transaction,
+  origin: InstallOrigin
+): Promise<boolean> {
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const { manifest } = payload;
+  const { name, type: cognitiveType, category } = manifest;
 
   // Check if already installed
-  const targetDir = getTargetDir(configManager, cognitiveType, category, name);
+  const targetDir = getCognitiveDir(synapSyncDir, cognitiveType, category, name);
 
   if (fs.existsSync(targetDir) && options.force !== true) {
     logger.line();
+    const previously = markAsExplicit(synapSyncDir, name, transaction);
+    if (previously !== null) {
+      logger.log(`  ${pc.green('✓')} ${pc.bold(name)} was installed ${previously}, now added explicitly`);
+      return false;
+    }
     logger.error(`Cognitive '${name}' is already installed.`);
     logger.hint('Use --force to overwrite.');
     return false;
   }
 
-  // Copy all files from source
-  const assets = new Map<string, string>();
-  const assetsDir = path.join(absolutePath, 'assets');
-  if (fs.existsSync(assetsDir)) {
-    const assetFiles = fs.readdirSync(assetsDir);
-    for (const file of assetFiles) {
-      const assetContent = fs.readFileSync(path.join(assetsDir, file), 'utf-8');
-      assets.set(`assets/${file}`, assetContent);
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+  const dependencies =
+    options.skipDeps === true ? [] : await resolvePayloadDependencies(manifest, options, configManager, lockfile);
+
+  // Dependencies first, then the cognitive itself
+  const installs = [
+    ...dependencies.map((dependency) => ({
+      payload: dependency.payload,
+      origin: getRegistryOrigin(dependency.payload),
+      dependency: true,
+    })),
+    { payload, origin, dependency: false },
+  ];
+
+  // A name and its provider link belong to one cognitive, whatever its type or category
+  const installed = new ManifestManager(synapSyncDir);
+  for (const { payload: p } of installs) {
+    const existing = installed.getCognitive(p.manifest.name);
+    if (existing !== undefined && (existing.type !== p.manifest.type || existing.category !== p.manifest.category)) {
+      throw new Error(
+        `'${p.manifest.name}' is already installed as a ${existing.type} in ${existing.category}; ` +
+          `uninstall it first or use a scoped name (@scope/${parseCognitiveName(p.manifest.name).name})`
+      );
+    }
+    const conflict =
+      existing === undefined ? findLinkConflict(p.manifest.name, installed.getCognitives().map((c) => c.name)) : undefined;
+    if (conflict !== undefined) {
+      throw new Error(`'${p.manifest.name}' would share its provider link with '${conflict}'; uninstall it first`);
     }
   }
 
-  // Save files
-  saveCognitive(targetDir, manifest, content, assets);
+  // Lock entries, checked before anything is written
+  const lockEntries = installs.map(({ payload: p, origin: o }) => getLockEntry(p, o));
+  if (options.frozenLockfile === true) {
+    for (const entry of lockEntries) {
+      lockfile.assertUnchanged(entry);
+    }
+  }
 
-  // Update manifest.json
-  updateProjectManifest(configManager, manifest, 'local');
+  // Stage each folder and its base and swap them in, then save manifest.json and synapsync.lock
+  transaction.track(path.join(synapSyncDir, MANIFEST_FILE_NAME));
+  transaction.track(path.join(configManager.getLockfileDir(), LOCK_FILE_NAME));
+  installs.forEach((install, i) => {
+    const { manifest: m } = install.payload;
+    transaction.stage(getCognitiveDir(synapSyncDir, m.type, m.category, m.name), (dir) =>
+      writeCognitive(dir, install.payload)
+    );
+    // Pristine copy for three-way merges on update
+    transaction.stage(getBaseDir(synapSyncDir, m.type, m.category, m.name), (dir) =>
+      writeBase(dir, install.payload)
+    );
+    updateProjectManifest(configManager, install.payload, install.origin.source, {
+      ...install.origin.details,
+      ...(install.dependency && { dependency: true }),
+    });
+    const entry = lockEntries[i];
+    if (entry !== undefined) {
+      lockfile.setCognitive(entry);
+    }
+  });
+  lockfile.save();
 
   // Success
   logger.line();
   logger.log(`  ${pc.green('✓')} Installed ${pc.bold(name)} ${pc.dim(`v${manifest.version}`)}`);
   logger.log(`    ${pc.dim('Type:')} ${cognitiveType}`);
   logger.log(`    ${pc.dim('Category:')} ${category}`);
-  logger.log(`    ${pc.dim('Source:')} local`);
-  logger.log(`    ${pc.dim('Location:')} ${path.relative(process.cwd(), targetDir)}`);
+  logger.log(`    ${pc.dim(origin.source === 'registry' ? 'Registry:' : 'Source:')} ${origin.label}`);
+  logger.log(
+    `    ${pc.dim('Location:')} ${configManager.isGlobal() ? targetDir : path.relative(process.cwd(), targetDir)}`
+  );
+
+  if (dependencies.length > 0) {
+    logger.log(`    ${pc.dim('Dependencies:')}`);
+    for (const dependency of dependencies) {
+      logger.log(
+        `      ${pc.green('+')} ${dependency.name} ${pc.dim(`v${dependency.payload.manifest.version} (required by ${dependency.requiredBy})`)}`
+      );
+    }
+  }
+  if (options.skipDeps === true && (manifest.dependencies ?? []).length > 0) {
+    const names = (manifest.dependencies ?? []).map((d) => `${d.name}@${d.version}`);
+    logger.log(`    ${pc.yellow('!')} ${pc.dim(`Skipped dependencies: ${names.join(', ')}`)}`);
+  }
 
   return true;
 }
 
 /**
- * Detect cognitive type from directory contents
- * Checks for legacy fixed filenames first, then by extension
+ * Resolve the registry dependencies of a cognitive that are not installed yet
  */
-function detectCognitiveType(dirPath: string): { type: CognitiveType; fileName: string } | null {
-  // First check for legacy fixed filenames
-  for (const type of COGNITIVE_TYPES) {
-    const fileName = COGNITIVE_FILE_NAMES[type];
-    if (fs.existsSync(path.join(dirPath, fileName))) {
-      return { type, fileName };
-    }
-  }
-
-  // If not found, check for files by extension
-  if (!fs.existsSync(dirPath)) return null;
-
-  const files = fs.readdirSync(dirPath);
-
-  // Check for workflow first (yaml extension)
-  for (const file of files) {
-    if (file.endsWith('.yaml') && !file.startsWith('.')) {
-      return { type: 'workflow', fileName: file };
-    }
-  }
-
-  // Check for markdown files (could be skill, agent, prompt, or tool)
-  // We need to parse frontmatter to determine the type
-  for (const file of files) {
-    if (file.endsWith('.md') && !file.startsWith('.')) {
-      const content = fs.readFileSync(path.join(dirPath, file), 'utf-8');
-      const metadata = parseMetadata(content);
-      const detectedType = (metadata['type'] as CognitiveType) ?? 'skill'; // Default to skill
-      if (COGNITIVE_TYPES.includes(detectedType)) {
-        return { type: detectedType, fileName: file };
-      }
-    }
+async function resolvePayloadDependencies(
+  manifest: CognitiveManifest,
+  options: AddCommandOptions,
+  configManager: ConfigManager,
+  lockfile: LockfileManager
+): Promise<ResolvedDependency<RegistryPayload>[]> {
+  if ((manifest.dependencies ?? []).length === 0) {
+    return [];
   }
 
-  return null;
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const client = createRegistryClient(synapSyncDir, configManager.getConfig());
+  const installed = new Map(
+    new ManifestManager(synapSyncDir).getCognitives().map((c) => [c.name, c.version])
+  );
+
+  return resolveDependencies(manifest, {
+    installed,
+    fetch: (dependency) => {
+      // A frozen lockfile pins dependencies to their locked versions
+      const locked = options.frozenLockfile === true ? lockfile.getCognitive(dependency.name) : undefined;
+      return fetchFromRegistry(client, dependency.name, { version: locked?.version ?? dependency.version });
+    },
+  });
 }
 
-function parseMetadata(content: string): Record<string, unknown> {
-  // Parse YAML frontmatter
-  const match = content.match(/^---\n([\s\S]*?)\n---/);
-  if (match?.[1] === undefined) {
-    return {};
+/**
+ * Clear the dependency flag or collection of an installed cognitive
+ * Returns how it was installed, or null when it was already added explicitly
+ */
+function markAsExplicit(synapSyncDir: string, name: string, transaction: Transaction): string | null {
+  const manifest = new ManifestManager(synapSyncDir);
+  const entry = manifest.getCognitive(name);
+  if (entry === undefined || (entry.dependency !== true && entry.collection === undefined)) {
+    return null;
   }
 
-  try {
-    // Simple YAML parsing (key: value)
-    const result: Record<string, unknown> = {};
-    const lines = match[1].split('\n');
-
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex > 0) {
-        const key = line.slice(0, colonIndex).trim();
-        let value: unknown = line.slice(colonIndex + 1).trim();
-
-        // Remove quotes
-        if (typeof value === 'string') {
-          if ((value.startsWith('"') && value.endsWith('"')) ||
-              (value.startsWith("'") && value.endsWith("'"))) {
-            value = value.slice(1, -1);
-          }
-        }
-
-        result[key] = value;
-      }
-    }
-
-    return result;
-  } catch {
-    return {};
-  }
+  const previously =
+    entry.dependency === true ? 'as a dependency' : `with the ${entry.collection} collection`;
+  const explicit = { ...entry };
+  delete explicit.dependency;
+  delete explicit.collection;
+  manifest.addCognitive(explicit);
+  transaction.track(path.join(synapSyncDir, MANIFEST_FILE_NAME));
+  manifest.save();
+  return previously;
 }
 
-// ============================================
-// GitHub Installation
-// ============================================
-
-function installFromGitHub(
-  _source: InstallSource,
-  _options: AddCommandOptions,
-  _configManager: ConfigManager
-): boolean {
-  // For now, we'll use raw GitHub URLs similar to registry
-  // This is a simplified implementation
-  logger.line();
-  logger.error('GitHub installation is not yet fully implemented.');
-  logger.hint('For now, clone the repo locally and use: synapsync add ./path/to/cognitive');
-  return false;
+function getLockEntry(payload: CognitivePayload, origin: InstallOrigin): LockedCognitive {
+  const { manifest } = payload;
+  return {
+    name: manifest.name,
+    type: manifest.type,
+    category: manifest.category,
+    version: manifest.version,
+    source: origin.source,
+    resolved: origin.resolved,
+    ...(origin.details.registry !== undefined && { registry: origin.details.registry }),
+    ...(origin.details.ref !== undefined && { ref: origin.details.ref }),
+    ...(origin.details.commit !== undefined && { commit: origin.details.commit }),
+    integrity: computeIntegrity(getPayloadFiles(payload)),
+  };
 }
 
 // ============================================
 // File Operations
 // ============================================
 
-function getTargetDir(
-  configManager: ConfigManager,
-  type: CognitiveType,
-  category: Category,
-  name: string
-): string {
-  const synapSyncDir = configManager.getSynapSyncDir();
-  return path.join(synapSyncDir, `${type}s`, category, name);
-}
-
-function saveCognitive(
-  targetDir: string,
-  manifest: CognitiveManifest,
-  content: string,
-  assets: Map<string, string>
-): void {
-  // Create directory structure
-  fs.mkdirSync(targetDir, { recursive: true });
-
-  // Save main file
-  const mainFilePath = path.join(targetDir, manifest.file);
-  fs.writeFileSync(mainFilePath, content, 'utf-8');
-
-  // Save assets
-  for (const [assetPath, assetContent] of assets) {
-    const fullPath = path.join(targetDir, assetPath);
-    const assetDir = path.dirname(fullPath);
-    fs.mkdirSync(assetDir, { recursive: true });
-    fs.writeFileSync(fullPath, assetContent, 'utf-8');
-  }
+function toPosixPath(p: string): string {
+  return p.split(path.sep).join('/');
 }
 
 function updateProjectManifest(
   configManager: ConfigManager,
-  manifest: CognitiveManifest,
-  source: 'registry' | 'local' | 'github'
+  payload: CognitivePayload,
+  source: CognitiveSource,
+  details: Pick<
+    InstalledCognitive,
+    'sourceUrl' | 'registry' | 'ref' | 'commit' | 'dependency' | 'collection'
+  > = {}
 ): void {
   const synapSyncDir = configManager.getSynapSyncDir();
   const manifestPath = path.join(synapSyncDir, 'manifest.json');
@@ -498,18 +832,17 @@ function updateProjectManifest(
   }
 
   // Add or update cognitive entry
-  const mappedSource = source === 'github' ? 'git' as const : source;
+  const { manifest } = payload;
   const entry: InstalledCognitive = {
     name: manifest.name,
     type: manifest.type,
     category: manifest.category,
     version: manifest.version,
     installedAt: new Date(),
-    source: mappedSource,
+    source,
+    ...details,
+    hash: computeContentHash(payload.content),
   };
-  if (source === 'registry') {
-    entry.sourceUrl = 'https://github.com/SynapSync/synapse-registry';
-  }
   projectManifest.cognitives[manifest.name] = entry;
 
   projectManifest.lastUpdated = new Date().toISOString();
@@ -528,10 +861,14 @@ function updateProjectManifest(
 export function registerAddCommand(program: Command): void {
   program
     .command('add <source>')
-    .description('Add a cognitive from registry, local path, or GitHub')
+    .description('Add a cognitive from registry (name[@version]), local path, GitHub, git+<url>, or archive URL')
     .option('-t, --type <type>', 'Cognitive type (skill, agent, prompt, workflow, tool)')
     .option('-c, --category <category>', 'Category (overrides default)')
     .option('-f, --force', 'Overwrite if already installed')
+    .option('--frozen-lockfile', `Fail instead of updating ${LOCK_FILE_NAME}`)
+    .option('--integrity <sri>', 'Expected sha256-<base64> of an archive URL')
+    .option('--skip-deps', 'Install without dependencies')
+    .option('-g, --global', 'Install into the user-level store (~/.synapsync)')
     .action(async (source: string, options: AddCommandOptions) => {
       await executeAddCommand(source, options);
     });
@@ -0,0 +1,235 @@
+/**
+ * Adopt Command
+ *
+ * Import a hand-written file from a provider folder as a local cognitive: it moves into
+ * .synapsync/ and sync links it back in its place
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+import { ConfigManager } from '../services/config/manager.js';
+import { getProviderPaths } from '../services/config/schema.js';
+import { ManifestManager } from '../services/manifest/manager.js';
+import { getCognitiveDir } from '../services/installer/installer.js';
+import { readGeneratedMarker } from '../services/transformer/transformer.js';
+import { SyncEngine } from '../services/sync/engine.js';
+import {
+  Transaction,
+  TransactionPendingError,
+  describeRollback,
+} from '../services/transaction/index.js';
+import { regenerateAgentsMd } from '../services/agents-md/generator.js';
+import {
+  AGENTS_MD_FILE_NAME,
+  COGNITIVE_FILE_EXTENSIONS,
+  COGNITIVE_TYPES,
+  SUPPORTED_PROVIDERS,
+} from '../core/constants.js';
+import type { CognitiveType } from '../core/constants.js';
+import type { ProjectConfig } from '../services/config/schema.js';
+import type { ScannedCognitive } from '../services/scanner/types.js';
+import { findLinkConflict, fromLinkName, isValidCategory, isValidCognitiveName } from '../utils/names.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================
+// Types
+// ============================================
+
+interface AdoptCommandOptions {
+  type?: string;
+  category?: string;
+}
+
+// ============================================
+// Main Function
+// ============================================
+
+/**
+ * Execute the adopt command
+ */
+export function executeAdoptCommand(target: string, options: AdoptCommandOptions = {}): void {
+  logger.line();
+
+  // Check if project is initialized
+  const configManager = ConfigManager.findConfig();
+  if (configManager === null) {
+    logger.error('No SynapSync project found.');
+    logger.hint('Run synapsync init to initialize a project first.');
+    return;
+  }
+
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const projectRoot = configManager.getProjectRoot();
+  const config = configManager.getConfig();
+  const sourcePath = path.resolve(process.cwd(), target);
+
+  const stats = fs.lstatSync(sourcePath, { throwIfNoEntry: false });
+  if (stats === undefined) {
+    logger.error(`Path not found: ${target}`);
+    return;
+  }
+  if (stats.isSymbolicLink() || (stats.isFile() && isGenerated(sourcePath))) {
+    logger.error(`${target} was created by SynapSync; there is nothing to adopt.`);
+    return;
+  }
+
+  // The provider folder tells the type, unless one is given
+  if (options.type !== undefined && !COGNITIVE_TYPES.includes(options.type as CognitiveType)) {
+    logger.error(`Invalid type: ${options.type}`);
+    logger.hint(`Valid types: ${COGNITIVE_TYPES.join(', ')}`);
+    return;
+  }
+  const type =
+    (options.type as CognitiveType | undefined) ?? detectType(sourcePath, projectRoot, config);
+  if (type === null) {
+    logger.error(`${target} is not in a provider folder, so its type is unknown.`);
+    logger.hint('Use --type to set it.');
+    return;
+  }
+
+  const extension = COGNITIVE_FILE_EXTENSIONS[type];
+  if (stats.isFile() && !sourcePath.endsWith(extension)) {
+    logger.error(`Only ${extension} files can be adopted as ${type}s.`);
+    return;
+  }
+
+  const fileName = path.basename(sourcePath);
+  const name = fromLinkName(stats.isFile() ? fileName.slice(0, -extension.length) : fileName);
+  if (!isValidCognitiveName(name)) {
+    logger.error(`Invalid cognitive name: ${name}`);
+    return;
+  }
+  const manifest = new ManifestManager(synapSyncDir);
+  if (manifest.getCognitive(name) !== undefined) {
+    logger.error(`A cognitive named '${name}' is already installed.`);
+    logger.hint(`Rename ${target} first, or run synapsync sync --backup to move it aside.`);
+    return;
+  }
+  const conflict = findLinkConflict(name, manifest.getCognitives().map((c) => c.name));
+  if (conflict !== undefined) {
+    logger.error(`'${name}' would share its provider link with '${conflict}'.`);
+    logger.hint(`Rename ${target} first.`);
+    return;
+  }
+
+  const category = options.category ?? 'general';
+  if (!isValidCategory(category)) {
+    logger.error(`Invalid category: ${category}`);
+    return;
+  }
+  const cognitiveDir = getCognitiveDir(synapSyncDir, type, category, name);
+  if (fs.existsSync(cognitiveDir)) {
+    logger.error(`${path.relative(process.cwd(), cognitiveDir)} already exists.`);
+    return;
+  }
+
+  let transaction: Transaction | null = null;
+
+  try {
+    // Every change below is journaled and rolled back if anything fails
+    transaction = Transaction.begin(synapSyncDir, 'adopt');
+
+    // Move the file (or folder) into .synapsync/
+    transaction.track(cognitiveDir);
+    transaction.track(sourcePath);
+    if (stats.isDirectory()) {
+      fs.cpSync(sourcePath, cognitiveDir, { recursive: true });
+    } else {
+      fs.mkdirSync(cognitiveDir, { recursive: true });
+      fs.copyFileSync(sourcePath, path.join(cognitiveDir, fileName));
+    }
+    fs.rmSync(sourcePath, { recursive: true });
+
+    // Sync adds it to the manifest and links it back
+    const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config, transaction);
+    const syncResult = syncEngine.sync();
+    if (!syncResult.success) {
+      throw new Error(`Sync failed: ${syncResult.errors.map((e) => e.message).join(', ')}`);
+    }
+    const adopted = syncResult.actions
+      .map((action) => action.cognitive)
+      .find(
+        (c): c is ScannedCognitive =>
+          typeof c !== 'string' && 'path' in c && c.path === cognitiveDir
+      );
+    if (adopted === undefined) {
+      throw new Error(`${target} could not be read as a ${type}, or its name is taken`);
+    }
+
+    // Regenerate AGENTS.md
+    transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+    regenerateAgentsMd(projectRoot, synapSyncDir);
+
+    transaction.commit();
+
+    logger.log(`  ${pc.green('✓')} Adopted ${pc.bold(adopted.name)} ${pc.dim(`(${type})`)}`);
+    logger.log(`    ${pc.dim('Location:')} ${path.relative(process.cwd(), cognitiveDir)}`);
+    logger.line();
+    logger.hint('It is now a local cognitive; edit it in .synapsync/ from now on.');
+  } catch (error) {
+    const rollback = transaction?.rollback();
+    if (error instanceof TransactionPendingError) {
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+    } else {
+      logger.error(`Adopt failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else if (rollback !== undefined) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
+    logger.line();
+  }
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Type of the provider folder a path is in, e.g. .claude/agents/reviewer.md → agent
+ */
+function detectType(
+  sourcePath: string,
+  projectRoot: string,
+  config: ProjectConfig
+): CognitiveType | null {
+  const dir = path.dirname(sourcePath);
+  for (const provider of SUPPORTED_PROVIDERS) {
+    const paths = getProviderPaths(provider, config);
+    const type = COGNITIVE_TYPES.find((t) => path.resolve(projectRoot, paths[t]) === dir);
+    if (type !== undefined) return type;
+  }
+  return null;
+}
+
+function isGenerated(filePath: string): boolean {
+  try {
+    return readGeneratedMarker(fs.readFileSync(filePath, 'utf-8')) !== null;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// Command Registration
+// ============================================
+
+/**
+ * Register adopt command with Commander
+ */
+export function registerAdoptCommand(program: Command): void {
+  program
+    .command('adopt <path>')
+    .description('Import a file from a provider folder as a local cognitive')
+    .option('-t, --type <type>', 'Cognitive type (defaults to the provider folder it is in)')
+    .option('-c, --category <category>', 'Category to store it in', 'general')
+    .action((target: string, options: AdoptCommandOptions) => {
+      executeAdoptCommand(target, options);
+    });
+}
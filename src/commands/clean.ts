@@ -19,6 +19,7 @@ interface CleanCommandOptions {
   cache?: boolean;
   orphans?: boolean;
   temp?: boolean;
+  history?: boolean;
   all?: boolean;
   dryRun?: boolean;
   json?: boolean;
@@ -69,6 +70,7 @@ export function executeCleanCommand(options: CleanCommandOptions = {}): void {
     cache: options.cache ?? false,
     orphans: options.orphans ?? false,
     temp: options.temp ?? false,
+    history: options.history ?? false,
     all: options.all ?? false,
     dryRun: options.dryRun ?? false,
   });
@@ -134,6 +136,15 @@ function displayResults(result: CleanResult, _options: CleanCommandOptions): voi
     logger.line();
   }
 
+  if (byType.history.length > 0) {
+    logger.log(`  ${pc.cyan('Rollback history:')}`);
+    for (const item of byType.history) {
+      const size = formatBytes(item.size);
+      logger.log(`    ${pc.dim('-')} ${getRelativePath(item.path)} ${pc.dim(`(${size})`)}`);
+    }
+    logger.line();
+  }
+
   // Errors
   if (result.errors.length > 0) {
     logger.log(`  ${pc.red('Errors:')}`);
@@ -149,6 +160,7 @@ function groupByType(items: CleanedItem[]): Record<CleanedItem['type'], CleanedI
     cache: [],
     orphan: [],
     temp: [],
+    history: [],
   };
 
   for (const item of items) {
@@ -190,6 +202,7 @@ export function registerCleanCommand(program: Command): void {
     .option('-c, --cache', 'Clean registry cache')
     .option('-o, --orphans', 'Clean orphaned symlinks')
     .option('-t, --temp', 'Clean temp files')
+    .option('--history', 'Clean previous versions kept for rollback')
     .option('-a, --all', 'Clean everything')
     .option('-n, --dry-run', 'Preview what would be cleaned')
     .option('--json', 'Output as JSON')
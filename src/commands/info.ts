@@ -183,6 +183,16 @@ function showAddInfo(): void {
       format: 'synapsync add https://github.com/user/repo',
       description: 'Full GitHub URL',
     },
+    {
+      source: 'Git',
+      format: 'synapsync add git+https://host/repo.git#tag:path',
+      description: 'Any git remote (ssh, https, file)',
+    },
+    {
+      source: 'Archive URL',
+      format: 'synapsync add https://host/my-skill.tgz',
+      description: '.tar.gz, .tgz, .tar or .zip download',
+    },
   ];
 
   for (const src of sources) {
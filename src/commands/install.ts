@@ -0,0 +1,459 @@
+/**
+ * Install Command
+ *
+ * Restore every cognitive recorded in manifest.json (or synapsync.lock)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+import {
+  RegistryClient,
+  RegistryOfflineError,
+  RegistryAuthError,
+  createRegistryClient,
+} from '../services/registry/client.js';
+import {
+  GitHubClient,
+  createGitHubClient,
+  formatGitHubSource,
+  parseGitHubSource,
+} from '../services/github/index.js';
+import { GitClient, createGitClient, formatGitSource, parseGitSource } from '../services/git/index.js';
+import type { GitSource } from '../services/git/index.js';
+import { ConfigManager } from '../services/config/manager.js';
+import { ManifestManager } from '../services/manifest/manager.js';
+import type { ManifestCognitive } from '../services/manifest/types.js';
+import {
+  LockfileManager,
+  FrozenLockfileError,
+  computeIntegrity,
+  computeContentHash,
+  describeMismatch,
+} from '../services/lockfile/index.js';
+import type { LockedCognitive } from '../services/lockfile/index.js';
+import {
+  fetchFromGitHub,
+  fetchFromRegistry,
+  fetchFromUrl,
+  getBaseDir,
+  getCognitiveDir,
+  getPayloadFiles,
+  readCognitiveDir,
+  verifyPayload,
+  writeBase,
+  writeCognitive,
+} from '../services/installer/index.js';
+import type { CognitivePayload } from '../services/installer/index.js';
+import { SyncEngine } from '../services/sync/engine.js';
+import { Transaction, TransactionPendingError, describeRollback } from '../services/transaction/index.js';
+import { regenerateAgentsMd } from '../services/agents-md/generator.js';
+import { AGENTS_MD_FILE_NAME, LOCK_FILE_NAME, MANIFEST_FILE_NAME } from '../core/constants.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================
+// Types
+// ============================================
+
+interface InstallCommandOptions {
+  force?: boolean; // re-download cognitives that are already present
+  frozenLockfile?: boolean; // fail instead of changing synapsync.lock
+}
+
+// ============================================
+// Main Function
+// ============================================
+
+/**
+ * Execute the install command
+ */
+export async function executeInstallCommand(options: InstallCommandOptions = {}): Promise<void> {
+  logger.line();
+
+  // Check if project is initialized
+  const configManager = ConfigManager.findConfig();
+  if (configManager === null) {
+    logger.error('No SynapSync project found.');
+    logger.hint('Run synapsync init to initialize a project first.');
+    return;
+  }
+
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const projectRoot = configManager.getProjectRoot();
+  const config = configManager.getConfig();
+  const manifest = new ManifestManager(synapSyncDir);
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+
+  // Without a manifest (fresh clone) the lockfile is used as-is
+  if (options.frozenLockfile === true && manifest.getCognitiveCount() > 0) {
+    try {
+      lockfile.assertInSync(manifest.getCognitives());
+    } catch (error) {
+      if (!(error instanceof FrozenLockfileError)) throw error;
+      logger.error(`Frozen lockfile: ${error.message}`);
+      for (const mismatch of error.mismatches) {
+        logger.log(`    ${pc.dim('-')} ${describeMismatch(mismatch)}`);
+      }
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  // manifest.json is the source of truth; a lockfile alone is enough on a fresh clone
+  let cognitives = manifest.getCognitives();
+  if (cognitives.length === 0) {
+    cognitives = lockfile.getCognitives().map(toManifestCognitive);
+  }
+
+  if (cognitives.length === 0) {
+    logger.log(`  ${pc.dim('No cognitives to install.')}`);
+    logger.hint('Run synapsync add <name> to add a cognitive.');
+    logger.line();
+    return;
+  }
+
+  logger.bold('  Installing Cognitives');
+  logger.line();
+
+  const registryClient = createRegistryClient(synapSyncDir, config);
+  const githubClient = createGitHubClient(config);
+  const gitClient = createGitClient();
+  const restored: string[] = [];
+  const skipped: string[] = [];
+  const failed: Array<{ name: string; error: string }> = [];
+  let present = 0;
+  let lockChanged = false;
+  let transaction: Transaction | null = null;
+
+  try {
+    // Every change below is journaled and rolled back if anything fails
+    transaction = Transaction.begin(synapSyncDir, 'install');
+
+    for (const cognitive of cognitives) {
+      let targetDir: string;
+      let locked: LockedCognitive | undefined;
+      let fetched: { payload: CognitivePayload; entry: LockedCognitive };
+
+      // A cognitive that cannot be fetched is reported and the others are still restored
+      try {
+        targetDir = getCognitiveDir(synapSyncDir, cognitive.type, cognitive.category, cognitive.name);
+
+        if (options.force !== true && isInstalled(targetDir)) {
+          present++;
+          if (!manifest.hasCognitive(cognitive.name)) {
+            manifest.addCognitive(cognitive);
+          }
+          continue;
+        }
+
+        // Local paths are outside the project's control and cannot be fetched again
+        if (cognitive.source === 'local') {
+          skipped.push(cognitive.name);
+          logger.log(`  ${pc.yellow('!')} ${cognitive.name} ${pc.dim('(local) must be added again from its path')}`);
+          continue;
+        }
+
+        locked = lockfile.getCognitive(cognitive.name);
+        fetched =
+          cognitive.source === 'github'
+            ? await fetchGitHubCognitive(githubClient, cognitive, locked)
+            : cognitive.source === 'git'
+              ? await fetchGitCognitive(gitClient, cognitive, locked)
+              : cognitive.source === 'url'
+                ? await fetchUrlCognitive(cognitive, locked)
+                : await fetchRegistryCognitive(registryClient, cognitive, locked);
+
+        // Nothing is written unless the content matches what was recorded
+        // The manifest hash follows local edits, so the lockfile integrity wins when there is one
+        verifyPayload(
+          cognitive.name,
+          fetched.payload,
+          locked?.integrity !== undefined ? { integrity: locked.integrity } : { hash: cognitive.hash }
+        );
+      } catch (error) {
+        const message = getErrorMessage(error);
+        failed.push({ name: cognitive.name, error: message });
+        logger.log(`  ${pc.red('✗')} ${cognitive.name}: ${message}`);
+        continue;
+      }
+
+      // Stage the folder and its base and swap them in
+      const { payload, entry } = fetched;
+      transaction.stage(targetDir, (dir) => writeCognitive(dir, payload));
+      transaction.stage(getBaseDir(synapSyncDir, cognitive.type, cognitive.category, cognitive.name), (dir) =>
+        writeBase(dir, payload)
+      );
+
+      const hash = computeContentHash(payload.content);
+      if (manifest.hasCognitive(cognitive.name)) {
+        manifest.updateCognitive(cognitive.name, { hash });
+      } else {
+        manifest.addCognitive({ ...cognitive, hash });
+      }
+
+      if (locked === undefined) {
+        lockfile.setCognitive(entry);
+        lockChanged = true;
+      }
+
+      restored.push(cognitive.name);
+      logger.log(`  ${pc.green('✓')} ${cognitive.name} ${pc.dim(`v${payload.manifest.version}`)}`);
+    }
+
+    // Save manifest and lockfile
+    transaction.track(path.join(synapSyncDir, MANIFEST_FILE_NAME));
+    manifest.save();
+    if (lockChanged) {
+      transaction.track(path.join(configManager.getLockfileDir(), LOCK_FILE_NAME));
+      lockfile.save();
+    }
+
+    // Sync providers and regenerate AGENTS.md
+    logger.line();
+    logger.log(`  ${pc.dim('Syncing providers...')}`);
+    const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config, transaction);
+    const result = syncEngine.sync();
+    if (!result.success) {
+      throw new Error(`Sync failed: ${result.errors.map((e) => e.message).join(', ')}`);
+    }
+    transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+    regenerateAgentsMd(projectRoot, synapSyncDir);
+
+    transaction.commit();
+  } catch (error) {
+    const rollback = transaction?.rollback();
+    logger.line();
+    if (error instanceof TransactionPendingError) {
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+    } else {
+      logger.error(`Install failed: ${getErrorMessage(error)}`);
+    }
+
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else if (rollback !== undefined) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
+    logger.line();
+    process.exitCode = 1;
+    return;
+  }
+
+  // Summary
+  logger.line();
+  logger.log(`  ${pc.green('✓')} Installed ${restored.length} cognitive(s), ${present} already present`);
+  if (skipped.length > 0) {
+    logger.log(`  ${pc.yellow('!')} Skipped ${skipped.length} cognitive(s) added from a local path`);
+  }
+  if (failed.length > 0) {
+    logger.log(`  ${pc.red('✗')} Failed to install ${failed.length} cognitive(s)`);
+    process.exitCode = 1;
+  }
+  logger.line();
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Fetch a registry cognitive at its locked (or recorded) version
+ */
+async function fetchRegistryCognitive(
+  client: RegistryClient,
+  cognitive: ManifestCognitive,
+  locked: LockedCognitive | undefined
+): Promise<{ payload: CognitivePayload; entry: LockedCognitive }> {
+  const registry = cognitive.registry ?? locked?.registry;
+  const payload = await fetchFromRegistry(client, cognitive.name, {
+    version: locked?.version ?? cognitive.version,
+    ...(registry !== undefined && { registry }),
+  });
+
+  const entry: LockedCognitive = {
+    name: cognitive.name,
+    type: cognitive.type,
+    category: cognitive.category,
+    version: payload.manifest.version,
+    source: 'registry',
+    resolved: payload.resolved,
+    registry: payload.registry,
+    integrity: computeIntegrity(getPayloadFiles(payload)),
+  };
+  return { payload, entry };
+}
+
+/**
+ * Fetch a GitHub cognitive at its locked (or recorded) commit
+ */
+async function fetchGitHubCognitive(
+  client: GitHubClient,
+  cognitive: ManifestCognitive,
+  locked: LockedCognitive | undefined
+): Promise<{ payload: CognitivePayload; entry: LockedCognitive }> {
+  const source =
+    parseGitHubSource(locked?.resolved ?? '') ?? parseGitHubSource(cognitive.sourceUrl ?? '');
+  if (source === null) {
+    throw new Error('No GitHub source recorded, add it again with synapsync add github:owner/repo');
+  }
+
+  const ref = locked?.ref ?? cognitive.ref;
+  const commit = locked?.commit ?? cognitive.commit;
+  const payload = await fetchFromGitHub(
+    client,
+    { ...source, ...(commit !== undefined && { ref: commit }) },
+    { type: cognitive.type, category: cognitive.category, name: cognitive.name }
+  );
+
+  const entry: LockedCognitive = {
+    name: cognitive.name,
+    type: cognitive.type,
+    category: cognitive.category,
+    version: payload.manifest.version,
+    source: 'github',
+    resolved: formatGitHubSource(source, payload.commit),
+    ...(ref !== undefined && { ref }),
+    commit: payload.commit,
+    integrity: computeIntegrity(getPayloadFiles(payload)),
+  };
+  return { payload, entry };
+}
+
+/**
+ * Check out a git cognitive at its locked (or recorded) commit
+ */
+async function fetchGitCognitive(
+  client: GitClient,
+  cognitive: ManifestCognitive,
+  locked: LockedCognitive | undefined
+): Promise<{ payload: CognitivePayload; entry: LockedCognitive }> {
+  const source = parseGitSource(locked?.resolved ?? '') ?? parseGitSource(cognitive.sourceUrl ?? '');
+  if (source === null) {
+    throw new Error('No git remote recorded, add it again with synapsync add git+<url>');
+  }
+
+  const ref = locked?.ref ?? cognitive.ref;
+  const remote: GitSource = {
+    remote: source.remote,
+    ...(source.subdir !== undefined && { subdir: source.subdir }),
+    ...(ref !== undefined && { ref }),
+  };
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-git-'));
+  try {
+    const commit = await client.checkout(remote, tempDir, locked?.commit ?? cognitive.commit);
+    const payload = await readCognitiveDir(path.join(tempDir, ...(remote.subdir?.split('/') ?? [])), {
+      type: cognitive.type,
+      category: cognitive.category,
+      name: cognitive.name,
+    });
+
+    const entry: LockedCognitive = {
+      name: cognitive.name,
+      type: cognitive.type,
+      category: cognitive.category,
+      version: payload.manifest.version,
+      source: 'git',
+      resolved: formatGitSource(remote, commit),
+      ...(ref !== undefined && { ref }),
+      commit,
+      integrity: computeIntegrity(getPayloadFiles(payload)),
+    };
+    return { payload, entry };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Download a cognitive archive from its recorded URL
+ */
+async function fetchUrlCognitive(
+  cognitive: ManifestCognitive,
+  locked: LockedCognitive | undefined
+): Promise<{ payload: CognitivePayload; entry: LockedCognitive }> {
+  const url = locked?.resolved ?? cognitive.sourceUrl;
+  if (url === undefined) {
+    throw new Error('No archive URL recorded, add it again with synapsync add <url>');
+  }
+
+  const payload = await fetchFromUrl(url, {
+    type: cognitive.type,
+    category: cognitive.category,
+    name: cognitive.name,
+  });
+
+  const entry: LockedCognitive = {
+    name: cognitive.name,
+    type: cognitive.type,
+    category: cognitive.category,
+    version: payload.manifest.version,
+    source: 'url',
+    resolved: url,
+    integrity: computeIntegrity(getPayloadFiles(payload)),
+  };
+  return { payload, entry };
+}
+
+/**
+ * Check if a cognitive folder exists and holds any files
+ */
+function isInstalled(targetDir: string): boolean {
+  return fs.existsSync(targetDir) && fs.readdirSync(targetDir).some((f) => !f.startsWith('.'));
+}
+
+function toManifestCognitive(locked: LockedCognitive): ManifestCognitive {
+  const cognitive: ManifestCognitive = {
+    name: locked.name,
+    type: locked.type,
+    category: locked.category,
+    version: locked.version,
+    installedAt: new Date().toISOString(),
+    source: locked.source,
+  };
+  if (locked.registry !== undefined) {
+    cognitive.registry = locked.registry;
+  }
+  if (locked.ref !== undefined) {
+    cognitive.ref = locked.ref;
+  }
+  if (locked.commit !== undefined) {
+    cognitive.commit = locked.commit;
+  }
+  return cognitive;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof RegistryOfflineError) {
+    return `${error.message} (run without --offline)`;
+  }
+  if (error instanceof RegistryAuthError) {
+    return `${error.message} (run synapsync login ${error.registryName ?? '<registry>'})`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unknown error';
+}
+
+// ============================================
+// Command Registration
+// ============================================
+
+/**
+ * Register install command with Commander
+ */
+export function registerInstallCommand(program: Command): void {
+  program
+    .command('install')
+    .description('Install all cognitives recorded in manifest.json and the lockfile')
+    .option('-f, --force', 'Re-download cognitives that are already present')
+    .option('--frozen-lockfile', `Fail if ${LOCK_FILE_NAME} is out of sync`)
+    .action(async (options: InstallCommandOptions) => {
+      await executeInstallCommand(options);
+    });
+}
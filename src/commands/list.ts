@@ -9,7 +9,7 @@ import * as path from 'path';
 import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
-import { RegistryClient } from '../services/registry/client.js';
+import { createRegistryClient } from '../services/registry/client.js';
 import { COGNITIVE_TYPES, CATEGORIES } from '../core/constants.js';
 import type { CognitiveType, Category } from '../core/constants.js';
 import type { InstalledCognitive, RegistryCognitiveEntry } from '../types/index.js';
@@ -24,6 +24,7 @@ interface ListCommandOptions {
   category?: string;
   json?: boolean;
   remote?: boolean;
+  global?: boolean;
 }
 
 interface ProjectManifest {
@@ -49,11 +50,11 @@ export async function executeListCommand(options: ListCommandOptions): Promise<v
     return;
   }
 
-  // Check if project is initialized
-  const configManager = ConfigManager.findConfig();
+  // Check if project is initialized (the global store needs no project)
+  const configManager = options.global === true ? ConfigManager.findGlobalConfig() : ConfigManager.findConfig();
   if (configManager === null) {
     logger.error('No SynapSync project found.');
-    logger.hint('Run synapsync init to initialize a project first.');
+    logger.hint('Run synapsync init to initialize a project first, or use --global.');
     return;
   }
 
@@ -75,7 +76,7 @@ export async function executeListCommand(options: ListCommandOptions): Promise<v
   }
 
   // Display results
-  displayCognitives(manifest, validatedOptions);
+  displayCognitives(manifest, validatedOptions, configManager.isGlobal());
 }
 
 // ============================================
@@ -83,9 +84,10 @@ export async function executeListCommand(options: ListCommandOptions): Promise<v
 // ============================================
 
 async function listRemoteCognitives(options: ListCommandOptions): Promise<void> {
-  const client = new RegistryClient();
+  const configManager = ConfigManager.findConfig();
+  const client = createRegistryClient(configManager?.getSynapSyncDir(), configManager?.getConfig());
 
-  logger.log(`  ${pc.dim('Fetching registry...')}`);
+  logger.log(`  ${pc.dim(client.isOffline() ? 'Reading cached registry...' : 'Fetching registry...')}`);
 
   try {
     const cognitives = await client.list();
@@ -166,6 +168,9 @@ function displayRemoteCognitives(cognitives: RegistryCognitiveEntry[]): void {
       if (cognitive.author) {
         details.push(pc.dim(`by ${cognitive.author}`));
       }
+      if (cognitive.registry !== undefined) {
+        details.push(pc.dim(`from ${cognitive.registry}`));
+      }
       logger.log(`      ${details.join(' · ')}`);
 
       // Tags
@@ -268,19 +273,21 @@ function filterCognitives(
 // Display Functions
 // ============================================
 
-function displayCognitives(manifest: ProjectManifest, options: ValidatedOptions): void {
+function displayCognitives(manifest: ProjectManifest, options: ValidatedOptions, global: boolean): void {
   const cognitives = Object.values(manifest.cognitives);
   const filtered = filterCognitives(cognitives, options);
 
   // Header
-  logger.bold('  Installed Cognitives');
+  logger.bold(global ? '  Installed Cognitives (global)' : '  Installed Cognitives');
   logger.line();
 
   if (filtered.length === 0) {
     if (cognitives.length === 0) {
       logger.log(`  ${pc.dim('No cognitives installed yet.')}`);
       logger.line();
-      logger.hint('Run synapsync search to find cognitives to add.');
+      logger.hint(
+        global ? 'Run synapsync add <name> --global to add one.' : 'Run synapsync search to find cognitives to add.'
+      );
     } else {
       logger.log(`  ${pc.dim('No cognitives match the specified filters.')}`);
       logger.line();
@@ -289,8 +296,19 @@ function displayCognitives(manifest: ProjectManifest, options: ValidatedOptions)
     return;
   }
 
-  // Group by type
-  const grouped = groupByType(filtered);
+  // Collection members are listed under their collection, the rest grouped by type
+  const collections = groupByCollection(filtered);
+
+  for (const [collection, items] of Object.entries(collections)) {
+    logger.log(`  ${pc.cyan('◇')} ${pc.bold(collection)} ${pc.dim('collection')} (${items.length})`);
+    logger.line();
+
+    for (const cognitive of items) {
+      displayCognitive(cognitive);
+    }
+  }
+
+  const grouped = groupByType(filtered.filter((c) => c.collection === undefined));
 
   for (const [type, items] of Object.entries(grouped)) {
     const typeIcon = getCognitiveIcon(type as CognitiveType);
@@ -307,7 +325,7 @@ function displayCognitives(manifest: ProjectManifest, options: ValidatedOptions)
   logger.line();
   logger.log(`  ${pc.dim(`Total: ${filtered.length} cognitive${filtered.length === 1 ? '' : 's'}`)}`);
   logger.line();
-  logger.hint('Run synapsync uninstall <name> to remove a cognitive.');
+  logger.hint(`Run synapsync uninstall <name>${global ? ' --global' : ''} to remove a cognitive or collection.`);
 }
 
 function groupByType(cognitives: InstalledCognitive[]): Record<string, InstalledCognitive[]> {
@@ -321,6 +339,19 @@ function groupByType(cognitives: InstalledCognitive[]): Record<string, Installed
   return grouped;
 }
 
+function groupByCollection(cognitives: InstalledCognitive[]): Record<string, InstalledCognitive[]> {
+  const grouped: Record<string, InstalledCognitive[]> = {};
+
+  for (const cognitive of cognitives) {
+    if (cognitive.collection !== undefined) {
+      grouped[cognitive.collection] ??= [];
+      (grouped[cognitive.collection] as InstalledCognitive[]).push(cognitive);
+    }
+  }
+
+  return grouped;
+}
+
 function displayCognitive(cognitive: InstalledCognitive): void {
   // Name and version
   logger.log(`    ${pc.white(cognitive.name)} ${pc.dim(`v${cognitive.version}`)}`);
@@ -328,7 +359,10 @@ function displayCognitive(cognitive: InstalledCognitive): void {
   // Details
   const details: string[] = [];
   details.push(pc.dim(cognitive.category));
-  details.push(pc.dim(`from ${cognitive.source}`));
+  details.push(pc.dim(`from ${cognitive.registry ?? cognitive.source}`));
+  if (cognitive.dependency === true) {
+    details.push(pc.dim('dependency'));
+  }
 
   if (cognitive.installedAt !== undefined) {
     const date = new Date(cognitive.installedAt);
@@ -384,6 +418,7 @@ export function registerListCommand(program: Command): void {
     .option('-t, --type <type>', 'Filter by type (skill, agent, prompt, workflow, tool)')
     .option('-c, --category <category>', 'Filter by category')
     .option('-r, --remote', 'List all cognitives available in the registry')
+    .option('-g, --global', 'List cognitives in the user-level store')
     .option('--json', 'Output as JSON')
     .action(async (options: ListCommandOptions) => {
       await executeListCommand(options);
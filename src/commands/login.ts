@@ -0,0 +1,184 @@
+/**
+ * Login Command
+ *
+ * Store and remove credentials for authenticated registries
+ */
+
+import * as p from '@clack/prompts';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+import { ConfigManager } from '../services/config/manager.js';
+import type { RegistryConfig } from '../services/config/schema.js';
+import { getConfiguredRegistries } from '../services/registry/client.js';
+import {
+  CredentialStore,
+  describeCredential,
+  type RegistryCredential,
+} from '../services/registry/credentials.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================
+// Types
+// ============================================
+
+interface LoginCommandOptions {
+  token?: string;
+  tokenEnv?: string;
+  username?: string;
+  password?: string;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Execute the login command
+ */
+export async function executeLoginCommand(
+  registryName: string,
+  options: LoginCommandOptions = {}
+): Promise<void> {
+  logger.line();
+
+  const registry = resolveRegistry(registryName);
+  if (registry === null) {
+    return;
+  }
+
+  const credential = await getCredential(registry, options);
+  if (credential === null) {
+    return;
+  }
+
+  const store = new CredentialStore();
+  store.set(registry.url, credential);
+
+  logger.log(`  ${pc.green('✓')} Logged in to ${pc.bold(registry.name)} ${pc.dim(`(${registry.url})`)}`);
+  logger.log(`    ${pc.dim('Auth:')} ${describeCredential(credential)}`);
+  logger.log(`    ${pc.dim('Stored in:')} ${store.getFilePath()}`);
+  logger.line();
+}
+
+/**
+ * Execute the logout command
+ */
+export function executeLogoutCommand(registryName: string): void {
+  logger.line();
+
+  const registry = resolveRegistry(registryName);
+  if (registry === null) {
+    return;
+  }
+
+  const store = new CredentialStore();
+  if (store.remove(registry.url)) {
+    logger.log(`  ${pc.green('✓')} Logged out of ${pc.bold(registry.name)}`);
+  } else {
+    logger.log(`  ${pc.dim(`No credentials stored for ${registry.name}`)}`);
+  }
+  logger.line();
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Resolve a registry by configured name or URL
+ */
+function resolveRegistry(nameOrUrl: string): RegistryConfig | null {
+  if (/^https?:\/\//.test(nameOrUrl)) {
+    return { name: nameOrUrl, url: nameOrUrl.replace(/\/+$/, '') };
+  }
+
+  const configManager = ConfigManager.findConfig();
+  const registries = getConfiguredRegistries(configManager?.getConfig());
+  const registry = registries.find((r) => r.name === nameOrUrl);
+
+  if (registry === undefined) {
+    logger.error(`Unknown registry: ${nameOrUrl}`);
+    logger.hint(`Configured registries: ${registries.map((r) => r.name).join(', ')}`);
+    return null;
+  }
+
+  return { ...registry, url: registry.url.replace(/\/+$/, '') };
+}
+
+/**
+ * Build a credential from options, prompting for secrets when interactive
+ */
+async function getCredential(
+  registry: RegistryConfig,
+  options: LoginCommandOptions
+): Promise<RegistryCredential | null> {
+  if (options.tokenEnv !== undefined) {
+    return { type: 'env', env: options.tokenEnv };
+  }
+
+  if (options.token !== undefined) {
+    return { type: 'bearer', token: options.token };
+  }
+
+  if (options.username !== undefined && options.password !== undefined) {
+    return { type: 'basic', username: options.username, password: options.password };
+  }
+
+  // Anything missing is prompted for, which needs a terminal
+  if (!process.stdin.isTTY) {
+    logger.error(options.username !== undefined ? 'No password provided.' : 'No credentials provided.');
+    logger.hint('Use --token, --token-env, or --username with --password.');
+    return null;
+  }
+
+  if (options.username !== undefined) {
+    const password = await promptSecret(`Password for ${options.username}`);
+    return password !== null ? { type: 'basic', username: options.username, password } : null;
+  }
+
+  const token = await promptSecret(`Token for ${registry.name}`);
+  return token !== null ? { type: 'bearer', token } : null;
+}
+
+async function promptSecret(message: string): Promise<string | null> {
+  const value = await p.password({
+    message,
+    validate: (input) => (input.trim() === '' ? 'Value is required' : undefined),
+  });
+
+  if (p.isCancel(value)) {
+    p.cancel('Login cancelled.');
+    return null;
+  }
+
+  return value;
+}
+
+// ============================================
+// Command Registration
+// ============================================
+
+/**
+ * Register login and logout commands with Commander
+ */
+export function registerLoginCommand(program: Command): void {
+  program
+    .command('login')
+    .description('Store credentials for an authenticated registry')
+    .argument('<registry>', 'Registry name from synapsync.config.yaml, or its URL')
+    .option('--token <token>', 'Bearer token')
+    .option('--token-env <var>', 'Read a bearer token from this environment variable')
+    .option('-u, --username <username>', 'Username for basic auth')
+    .option('-p, --password <password>', 'Password for basic auth (prompted if omitted)')
+    .action(async (registry: string, options: LoginCommandOptions) => {
+      await executeLoginCommand(registry, options);
+    });
+
+  program
+    .command('logout')
+    .description('Remove stored credentials for a registry')
+    .argument('<registry>', 'Registry name from synapsync.config.yaml, or its URL')
+    .action((registry: string) => {
+      executeLogoutCommand(registry);
+    });
+}
@@ -9,7 +9,14 @@ import * as path from 'path';
 import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
-import { SUPPORTED_PROVIDERS, PROVIDER_PATHS } from '../core/constants.js';
+import { getProviderPaths } from '../services/config/schema.js';
+import { getTransformedDir, getTransformer } from '../services/transformer/transformer.js';
+import {
+  SUPPORTED_PROVIDERS,
+  PROVIDER_PATHS,
+  PROVIDER_CAPABILITIES,
+  COGNITIVE_TYPES,
+} from '../core/constants.js';
 import type { SupportedProvider } from '../core/constants.js';
 import { logger } from '../utils/logger.js';
 
@@ -59,6 +66,17 @@ export function executeProvidersCommand(args: string): void {
     case 'path':
       setProviderPath(configManager, parts[1], parts[2]);
       break;
+    case 'info':
+      if (parts[1] === undefined || parts[1] === '') {
+        showCapabilities();
+      } else if (SUPPORTED_PROVIDERS.includes(parts[1].toLowerCase() as SupportedProvider)) {
+        showProviderInfo(configManager, parts[1].toLowerCase() as SupportedProvider);
+      } else {
+        logger.line();
+        logger.error(`Unknown provider: ${parts[1]}`);
+        logger.hint(`Available: ${SUPPORTED_PROVIDERS.join(', ')}`);
+      }
+      break;
     default:
       // Check if it's a provider name (shortcut for info)
       if (SUPPORTED_PROVIDERS.includes(subcommand as SupportedProvider)) {
@@ -66,7 +84,7 @@ export function executeProvidersCommand(args: string): void {
       } else {
         logger.line();
         logger.error(`Unknown subcommand: ${subcommand}`);
-        logger.hint('Usage: /providers [list|enable|disable|path]');
+        logger.hint('Usage: /providers [list|enable|disable|path|info]');
       }
   }
 }
@@ -156,7 +174,7 @@ function enableProvider(configManager: ConfigManager, providerName: string | und
 
   logger.line();
   logger.success(`Provider '${pc.cyan(provider)}' enabled`);
-  logger.log(`  ${pc.dim('Path:')} ${defaultPaths.skill.split('/')[0]}/`);
+  logger.log(`  ${pc.dim('Path:')} ${path.posix.dirname(getProviderPaths(provider as SupportedProvider, configManager.getConfig()).skill)}/`);
   logger.line();
   logger.hint('Run /sync to synchronize cognitives to this provider.');
 }
@@ -244,6 +262,7 @@ function setProviderPath(
   logger.success(`Updated paths for '${pc.cyan(provider)}'`);
   logger.log(`  ${pc.dim('Base path:')} ${pc.cyan(normalizedPath)}`);
   logger.line();
+  logger.hint('Run /sync to move existing links to the new path.');
 }
 
 /**
@@ -254,7 +273,7 @@ function showProviderInfo(configManager: ConfigManager, provider: SupportedProvi
   const projectRoot = configManager.getProjectRoot();
   const providerConfig = config.sync?.providers?.[provider];
   const enabled = providerConfig?.enabled ?? false;
-  const paths = providerConfig?.paths ?? PROVIDER_PATHS[provider];
+  const paths = getProviderPaths(provider, config);
 
   logger.line();
   logger.bold(`  ${getProviderDisplayName(provider)}`);
@@ -266,12 +285,31 @@ function showProviderInfo(configManager: ConfigManager, provider: SupportedProvi
   logger.log(`  ${pc.dim('Status:')}  ${statusIcon} ${statusText}`);
   logger.line();
 
+  // Capabilities
+  const capabilities = PROVIDER_CAPABILITIES[provider];
+  const transformer = capabilities.format === 'native' ? getTransformer(provider) : null;
+  const formatText =
+    transformer !== null
+      ? `native ${pc.dim(`(rendered into ${getTransformedDir(transformer, paths)}/)`)}`
+      : 'link';
+  logger.log(`  ${pc.dim('Format:')}  ${formatText}`);
+  logger.log(
+    `  ${pc.dim('Shared:')}  ${capabilities.shared ? `yes ${pc.dim('(only files SynapSync created are touched)')}` : 'no'}`
+  );
+  logger.line();
+
   // Paths
   logger.log(`  ${pc.dim('Paths:')}`);
-  const cognitiveTypes = ['skill', 'agent', 'prompt', 'workflow', 'tool'] as const;
-  for (const type of cognitiveTypes) {
-    const typePath = paths[type] ?? '';
-    const fullPath = path.join(projectRoot, typePath);
+  for (const type of COGNITIVE_TYPES) {
+    if (!capabilities.types.includes(type)) {
+      logger.log(`    ${pc.dim(type.padEnd(10))} ${pc.dim('not supported')}`);
+      continue;
+    }
+    const typePath =
+      transformer?.types.includes(type) === true
+        ? getTransformedDir(transformer, paths)
+        : (paths[type] ?? '');
+    const fullPath = path.resolve(projectRoot, typePath);
     const exists = fs.existsSync(fullPath);
     const existsIcon = exists ? pc.green('✓') : pc.dim('✗');
     logger.log(`    ${pc.dim(type.padEnd(10))} ${pc.cyan(typePath)} ${existsIcon}`);
@@ -280,6 +318,37 @@ function showProviderInfo(configManager: ConfigManager, provider: SupportedProvi
   logger.line();
 }
 
+/**
+ * Show which cognitive types each provider supports, and how they are synced
+ */
+function showCapabilities(): void {
+  logger.line();
+  logger.bold('  Provider Capabilities');
+  logger.line();
+
+  // Table header
+  const typeColumns = COGNITIVE_TYPES.map((type) => pc.dim(type.padEnd(9))).join(' ');
+  logger.log(
+    `  ${pc.dim('Provider'.padEnd(10))} ${typeColumns} ${pc.dim('Format'.padEnd(7))} ${pc.dim('Shared')}`
+  );
+  logger.log(`  ${pc.dim('─'.repeat(74))}`);
+
+  // Provider rows
+  for (const provider of SUPPORTED_PROVIDERS) {
+    const capabilities = PROVIDER_CAPABILITIES[provider];
+    const typeCells = COGNITIVE_TYPES.map((type) =>
+      capabilities.types.includes(type) ? pc.green('✓'.padEnd(9)) : pc.dim('✗'.padEnd(9))
+    ).join(' ');
+    logger.log(
+      `  ${pc.white(provider.padEnd(10))} ${typeCells} ${capabilities.format.padEnd(7)} ${capabilities.shared ? 'yes' : 'no'}`
+    );
+  }
+
+  logger.line();
+  logger.hint('Cognitives of unsupported types are not synced to the provider.');
+  logger.hint('Use /providers info <name> to see where a provider syncs each type.');
+}
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -292,8 +361,8 @@ function getProvidersInfo(configManager: ConfigManager): ProviderInfo[] {
   for (const provider of SUPPORTED_PROVIDERS) {
     const providerConfig = config.sync?.providers?.[provider];
     const enabled = providerConfig?.enabled ?? false;
-    const basePath = providerConfig?.paths?.skill?.split('/')[0] ?? `.${provider}`;
-    const fullPath = path.join(projectRoot, basePath);
+    const basePath = path.posix.dirname(getProviderPaths(provider, config).skill);
+    const fullPath = path.resolve(projectRoot, basePath);
     const exists = fs.existsSync(fullPath);
 
     providers.push({
@@ -363,6 +432,14 @@ export function registerProvidersCommand(program: Command): void {
       executeProvidersCommand(`path ${provider} ${newPath}`);
     });
 
+  // Info
+  providersCmd
+    .command('info [provider]')
+    .description('Show the cognitive types, paths and format of the providers')
+    .action((provider?: string) => {
+      executeProvidersCommand(`info ${provider ?? ''}`);
+    });
+
   // Default action
   providersCmd.action(() => {
     executeProvidersCommand('list');
@@ -9,7 +9,16 @@ import * as path from 'path';
 import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
-import { SUPPORTED_PROVIDERS, PROVIDER_PATHS, COGNITIVE_TYPES, AGENTS_MD_FILE_NAME } from '../core/constants.js';
+import { getProviderPaths } from '../services/config/schema.js';
+import type { ProjectConfig } from '../services/config/schema.js';
+import { getTransformedDir, getTransformer, listGeneratedFiles } from '../services/transformer/index.js';
+import {
+  SUPPORTED_PROVIDERS,
+  PROVIDER_PATHS,
+  COGNITIVE_TYPES,
+  AGENTS_MD_FILE_NAME,
+  LOCK_FILE_NAME,
+} from '../core/constants.js';
 import { logger } from '../utils/logger.js';
 
 // ============================================
@@ -38,13 +47,14 @@ export function executePurgeCommand(options: PurgeCommandOptions): void {
 
   const projectRoot = configManager.getProjectRoot();
   const synapSyncDir = configManager.getSynapSyncDir();
+  const config = configManager.getConfig();
 
   // Show what will be removed unless --force
   if (options.force !== true) {
     logger.log(`  ${pc.yellow('!')} This will completely remove SynapSync from your project:`);
     logger.line();
 
-    const itemsToRemove = collectItemsToRemove(projectRoot, synapSyncDir);
+    const itemsToRemove = collectItemsToRemove(projectRoot, synapSyncDir, config);
 
     for (const item of itemsToRemove) {
       logger.log(`    ${pc.red('✗')} ${item}`);
@@ -59,8 +69,8 @@ export function executePurgeCommand(options: PurgeCommandOptions): void {
   let removedCount = 0;
 
   try {
-    // 1. Remove only symlinks pointing to .synapsync
-    removedCount += removeProviderSymlinks(projectRoot, synapSyncDir);
+    // 1. Remove only symlinks pointing to .synapsync and rendered files
+    removedCount += removeProviderSymlinks(projectRoot, synapSyncDir, config);
 
     // 2. Remove .synapsync directory
     if (fs.existsSync(synapSyncDir)) {
@@ -77,7 +87,15 @@ export function executePurgeCommand(options: PurgeCommandOptions): void {
       removedCount++;
     }
 
-    // 4. Remove AGENTS.md
+    // 4. Remove synapsync.lock
+    const lockPath = path.join(projectRoot, LOCK_FILE_NAME);
+    if (fs.existsSync(lockPath)) {
+      fs.unlinkSync(lockPath);
+      logger.log(`  ${pc.red('✗')} Removed ${LOCK_FILE_NAME}`);
+      removedCount++;
+    }
+
+    // 5. Remove AGENTS.md
     const agentsMdPath = path.join(projectRoot, AGENTS_MD_FILE_NAME);
     if (fs.existsSync(agentsMdPath)) {
       fs.unlinkSync(agentsMdPath);
@@ -85,7 +103,7 @@ export function executePurgeCommand(options: PurgeCommandOptions): void {
       removedCount++;
     }
 
-    // 5. Clean .gitignore entries
+    // 6. Clean .gitignore entries
     if (cleanGitignore(projectRoot)) {
       logger.log(`  ${pc.red('✗')} Cleaned SynapSync entries from .gitignore`);
       removedCount++;
@@ -113,13 +131,13 @@ export function executePurgeCommand(options: PurgeCommandOptions): void {
 // Collection (for preview)
 // ============================================
 
-function collectItemsToRemove(projectRoot: string, synapSyncDir: string): string[] {
+function collectItemsToRemove(projectRoot: string, synapSyncDir: string, config: ProjectConfig): string[] {
   const items: string[] = [];
 
   // Symlinks pointing to .synapsync
-  const symlinks = findSynapSyncSymlinks(projectRoot, synapSyncDir);
+  const symlinks = findSynapSyncSymlinks(projectRoot, synapSyncDir, config);
   for (const link of symlinks) {
-    items.push(`${path.relative(projectRoot, link)} (symlink)`);
+    items.push(`${path.relative(projectRoot, link)} (provider link)`);
   }
 
   // .synapsync directory
@@ -133,6 +151,11 @@ function collectItemsToRemove(projectRoot: string, synapSyncDir: string): string
     items.push('synapsync.config.yaml');
   }
 
+  // Lockfile
+  if (fs.existsSync(path.join(projectRoot, LOCK_FILE_NAME))) {
+    items.push(LOCK_FILE_NAME);
+  }
+
   // AGENTS.md
   const agentsMdPath = path.join(projectRoot, AGENTS_MD_FILE_NAME);
   if (fs.existsSync(agentsMdPath)) {
@@ -156,32 +179,48 @@ function collectItemsToRemove(projectRoot: string, synapSyncDir: string): string
 // ============================================
 
 /**
- * Find all symlinks under provider directories that point to .synapsync/
+ * Find all symlinks under provider directories that point to .synapsync/,
+ * and the files sync rendered in providers' native formats
+ * Both the default and the configured provider paths are searched
  */
-function findSynapSyncSymlinks(projectRoot: string, synapSyncDir: string): string[] {
+function findSynapSyncSymlinks(projectRoot: string, synapSyncDir: string, config: ProjectConfig): string[] {
   const symlinks: string[] = [];
   const resolvedSynapSync = path.resolve(synapSyncDir);
 
+  const typePaths = new Set<string>();
+  const transformedDirs = new Set<string>();
   for (const provider of SUPPORTED_PROVIDERS) {
-    const providerPaths = PROVIDER_PATHS[provider];
-    for (const type of COGNITIVE_TYPES) {
-      const typePath = path.join(projectRoot, providerPaths[type]);
-      if (!fs.existsSync(typePath)) continue;
-
-      try {
-        const entries = fs.readdirSync(typePath, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(typePath, entry.name);
-          if (entry.isSymbolicLink()) {
-            const target = path.resolve(typePath, fs.readlinkSync(fullPath));
-            if (target.startsWith(resolvedSynapSync)) {
-              symlinks.push(fullPath);
-            }
+    const transformer = getTransformer(provider);
+    for (const providerPaths of [PROVIDER_PATHS[provider], getProviderPaths(provider, config)]) {
+      for (const type of COGNITIVE_TYPES) {
+        typePaths.add(path.resolve(projectRoot, providerPaths[type]));
+      }
+      if (transformer !== null) {
+        transformedDirs.add(path.resolve(projectRoot, getTransformedDir(transformer, providerPaths)));
+      }
+    }
+  }
+
+  for (const dir of transformedDirs) {
+    symlinks.push(...listGeneratedFiles(dir).map((file) => file.path));
+  }
+
+  for (const typePath of typePaths) {
+    if (!fs.existsSync(typePath)) continue;
+
+    try {
+      const entries = fs.readdirSync(typePath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(typePath, entry.name);
+        if (entry.isSymbolicLink()) {
+          const target = path.resolve(typePath, fs.readlinkSync(fullPath));
+          if (target.startsWith(resolvedSynapSync)) {
+            symlinks.push(fullPath);
           }
         }
-      } catch {
-        // Cannot read directory, skip
       }
+    } catch {
+      // Cannot read directory, skip
     }
   }
 
@@ -189,14 +228,14 @@ function findSynapSyncSymlinks(projectRoot: string, synapSyncDir: string): strin
 }
 
 /**
- * Remove only symlinks that point to .synapsync/
+ * Remove only symlinks that point to .synapsync/ and the files sync rendered
  */
-function removeProviderSymlinks(projectRoot: string, synapSyncDir: string): number {
-  const symlinks = findSynapSyncSymlinks(projectRoot, synapSyncDir);
+function removeProviderSymlinks(projectRoot: string, synapSyncDir: string, config: ProjectConfig): number {
+  const symlinks = findSynapSyncSymlinks(projectRoot, synapSyncDir, config);
 
   for (const link of symlinks) {
     fs.unlinkSync(link);
-    logger.log(`  ${pc.red('✗')} Removed symlink ${path.relative(projectRoot, link)}`);
+    logger.log(`  ${pc.red('✗')} Removed ${path.relative(projectRoot, link)}`);
   }
 
   return symlinks.length;
@@ -0,0 +1,204 @@
+/**
+ * Rollback Command
+ *
+ * Restore a previous version of an updated cognitive from .synapsync/.history/
+ */
+
+import * as path from 'path';
+import type { Command } from 'commander';
+import pc from 'picocolors';
+import { ConfigManager } from '../services/config/manager.js';
+import { ManifestManager } from '../services/manifest/manager.js';
+import { LockfileManager } from '../services/lockfile/index.js';
+import { HistoryManager, getHistoryLimit } from '../services/history/index.js';
+import type { HistorySnapshot } from '../services/history/index.js';
+import { SyncEngine } from '../services/sync/engine.js';
+import {
+  Transaction,
+  TransactionPendingError,
+  describeRollback,
+} from '../services/transaction/index.js';
+import { regenerateAgentsMd } from '../services/agents-md/generator.js';
+import { AGENTS_MD_FILE_NAME, LOCK_FILE_NAME, MANIFEST_FILE_NAME } from '../core/constants.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================
+// Types
+// ============================================
+
+interface RollbackCommandOptions {
+  to?: string;
+  list?: boolean;
+  global?: boolean;
+}
+
+// ============================================
+// Main Function
+// ============================================
+
+/**
+ * Execute the rollback command
+ */
+export function executeRollbackCommand(name: string, options: RollbackCommandOptions = {}): void {
+  logger.line();
+
+  // Check if project is initialized (the global store needs no project)
+  const configManager =
+    options.global === true ? ConfigManager.findGlobalConfig() : ConfigManager.findConfig();
+  if (configManager === null) {
+    logger.error('No SynapSync project found.');
+    logger.hint('Run synapsync init to initialize a project first, or use --global.');
+    return;
+  }
+
+  const synapSyncDir = configManager.getSynapSyncDir();
+  const projectRoot = configManager.getProjectRoot();
+  const manifest = new ManifestManager(synapSyncDir);
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+
+  const installed = manifest.getCognitive(name);
+  if (installed === undefined) {
+    logger.error(`Cognitive '${name}' is not installed.`);
+    logger.hint(
+      `Run synapsync list${options.global === true ? ' --global' : ''} to see installed cognitives.`
+    );
+    return;
+  }
+
+  const snapshots = new HistoryManager(synapSyncDir).list(installed);
+  if (options.list === true) {
+    displayHistory(name, installed.version, snapshots);
+    return;
+  }
+
+  if (snapshots.length === 0) {
+    logger.error(`No previous versions of '${name}' are kept.`);
+    logger.hint(
+      'Previous versions are kept when update replaces them (storage.history in the config).'
+    );
+    return;
+  }
+
+  const snapshot =
+    options.to === undefined ? snapshots[0] : snapshots.find((s) => s.version === options.to);
+  if (snapshot === undefined) {
+    logger.error(`Version ${options.to ?? ''} of '${name}' is not kept.`);
+    logger.log(`  ${pc.dim('Available:')} ${snapshots.map((s) => s.version).join(', ')}`);
+    return;
+  }
+
+  let transaction: Transaction | null = null;
+
+  try {
+    // Every change below is journaled and rolled back if anything fails
+    transaction = Transaction.begin(synapSyncDir, 'rollback');
+    const history = new HistoryManager(synapSyncDir, transaction);
+
+    // Keep the current version too, so the rollback can be undone with another one
+    if (snapshot.version !== installed.version) {
+      const limit = Math.max(getHistoryLimit(configManager.getConfig()), snapshots.length);
+      history.save(installed, lockfile.getCognitive(name), limit + 1);
+    }
+    history.restore(snapshot);
+
+    // Manifest and lockfile entries of the restored version
+    const entry = { ...installed, version: snapshot.version };
+    delete entry.hash;
+    delete entry.conflicted;
+    manifest.addCognitive({
+      ...entry,
+      ...(snapshot.cognitive.hash !== undefined && { hash: snapshot.cognitive.hash }),
+      ...(snapshot.cognitive.conflicted === true && { conflicted: true }),
+    });
+    transaction.track(path.join(synapSyncDir, MANIFEST_FILE_NAME));
+    manifest.save();
+
+    if (snapshot.lock !== undefined) {
+      lockfile.setCognitive(snapshot.lock);
+      transaction.track(path.join(configManager.getLockfileDir(), LOCK_FILE_NAME));
+      lockfile.save();
+    }
+
+    // Re-sync providers
+    const syncEngine = new SyncEngine(
+      synapSyncDir,
+      projectRoot,
+      configManager.getConfig(),
+      transaction
+    );
+    const syncResult = syncEngine.sync();
+    if (!syncResult.success) {
+      throw new Error(`Sync failed: ${syncResult.errors.map((e) => e.message).join(', ')}`);
+    }
+
+    // Regenerate AGENTS.md (projects only)
+    if (!configManager.isGlobal()) {
+      transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+      regenerateAgentsMd(projectRoot, synapSyncDir);
+    }
+
+    transaction.commit();
+
+    logger.log(
+      `  ${pc.green('✓')} Rolled back ${pc.bold(name)}: ${installed.version} → ${pc.bold(snapshot.version)}`
+    );
+    logger.line();
+  } catch (error) {
+    const rollback = transaction?.rollback();
+    if (error instanceof TransactionPendingError) {
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+    } else {
+      logger.error(`Rollback failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else if (rollback !== undefined) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
+    logger.line();
+  }
+}
+
+// ============================================
+// Display Functions
+// ============================================
+
+function displayHistory(name: string, currentVersion: string, snapshots: HistorySnapshot[]): void {
+  logger.bold(`  ${name} ${pc.dim(`(installed: v${currentVersion})`)}`);
+  logger.line();
+
+  if (snapshots.length === 0) {
+    logger.log(`  ${pc.dim('No previous versions kept.')}`);
+    logger.line();
+    return;
+  }
+
+  for (const snapshot of snapshots) {
+    const savedAt = new Date(snapshot.savedAt).toLocaleString();
+    logger.log(`  ${pc.cyan(`v${snapshot.version}`.padEnd(12))} ${pc.dim(`replaced ${savedAt}`)}`);
+  }
+  logger.line();
+  logger.hint(`Run synapsync rollback ${name} --to <version> to restore one.`);
+}
+
+// ============================================
+// Command Registration
+// ============================================
+
+/**
+ * Register rollback command with Commander
+ */
+export function registerRollbackCommand(program: Command): void {
+  program
+    .command('rollback <name>')
+    .description('Restore a previous version of an updated cognitive')
+    .option('--to <version>', 'Version to restore (defaults to the one before the last update)')
+    .option('-l, --list', 'List the previous versions kept')
+    .option('-g, --global', 'Roll back a cognitive in the user-level store')
+    .action((name: string, options: RollbackCommandOptions) => {
+      executeRollbackCommand(name, options);
+    });
+}
@@ -6,7 +6,8 @@
 
 import type { Command } from 'commander';
 import pc from 'picocolors';
-import { RegistryClient, RegistryError } from '../services/registry/client.js';
+import { createRegistryClient, RegistryError, RegistryAuthError } from '../services/registry/client.js';
+import { ConfigManager } from '../services/config/manager.js';
 import type { SearchOptions } from '../services/registry/client.js';
 import { COGNITIVE_TYPES, CATEGORIES } from '../core/constants.js';
 import type { CognitiveType, Category } from '../core/constants.js';
@@ -51,13 +52,19 @@ export async function executeSearchCommand(
   logger.log(`  ${pc.dim(searchingText)}`);
 
   try {
-    const client = new RegistryClient();
+    const configManager = ConfigManager.findConfig();
+    const client = createRegistryClient(configManager?.getSynapSyncDir(), configManager?.getConfig());
 
-    // Check connectivity
+    // Check connectivity (a cached index is enough to keep searching)
     const isReachable = await client.ping();
-    if (!isReachable) {
+    if (!isReachable && !client.hasCachedIndex()) {
       logger.line();
-      logger.error('Unable to reach the registry. Check your internet connection.');
+      if (client.isOffline()) {
+        logger.error('No cached registry index available for offline use.');
+        logger.hint('Run synapsync search once while online to populate the cache.');
+      } else {
+        logger.error('Unable to reach the registry. Check your internet connection.');
+      }
       return;
     }
 
@@ -82,7 +89,10 @@ export async function executeSearchCommand(
     displaySearchResults(result.cognitives, query, result.total);
   } catch (error) {
     logger.line();
-    if (error instanceof RegistryError) {
+    if (error instanceof RegistryAuthError) {
+      logger.error(`Registry error: ${error.message}`);
+      logger.hint(`Run synapsync login ${error.registryName ?? '<registry>'} to authenticate.`);
+    } else if (error instanceof RegistryError) {
       logger.error(`Registry error: ${error.message}`);
     } else if (error instanceof Error) {
       logger.error(`Search failed: ${error.message}`);
@@ -202,6 +212,9 @@ function displayCognitive(cognitive: RegistryCognitiveEntry): void {
   if (cognitive.downloads > 0) {
     meta.push(pc.dim(`${cognitive.downloads} downloads`));
   }
+  if (cognitive.registry !== undefined) {
+    meta.push(pc.dim(`from ${cognitive.registry}`));
+  }
   logger.log(`    ${meta.join(' · ')}`);
 
   // Tags
@@ -9,7 +9,12 @@ import * as path from 'path';
 import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
+import { SymlinkManager } from '../services/symlink/manager.js';
+import { ManifestManager } from '../services/manifest/manager.js';
+import { getCognitiveDir } from '../services/installer/installer.js';
+import { hasConflictMarkers } from '../services/merge/index.js';
 import {
+  COGNITIVE_FILE_EXTENSIONS,
   COGNITIVE_TYPES,
   SUPPORTED_PROVIDERS,
 } from '../core/constants.js';
@@ -28,6 +33,7 @@ interface ProjectStatus {
   storagePath?: string;
   cognitives: Record<CognitiveType, number>;
   providers: ProviderStatus[];
+  conflicts: string[]; // cognitives an update left with conflict markers
   lastSync?: string;
 }
 
@@ -70,6 +76,7 @@ function getProjectStatus(): ProjectStatus {
       initialized: false,
       cognitives: createEmptyCognitiveCount(),
       providers: [],
+      conflicts: [],
     };
   }
 
@@ -81,7 +88,7 @@ function getProjectStatus(): ProjectStatus {
   const cognitives = countCognitives(storagePath);
 
   // Get provider status
-  const providers = getProviderStatuses(config, projectRoot);
+  const providers = getProviderStatuses(config, projectRoot, storagePath);
 
   // Get last sync from manifest
   const lastSync = getLastSyncTime(storagePath);
@@ -94,6 +101,7 @@ function getProjectStatus(): ProjectStatus {
     storagePath,
     cognitives,
     providers,
+    conflicts: getConflicts(storagePath),
   };
   if (lastSync !== undefined) {
     status.lastSync = lastSync;
@@ -133,32 +141,22 @@ function countCognitives(storagePath: string): Record<CognitiveType, number> {
 
 function getProviderStatuses(
   config: ReturnType<ConfigManager['getConfig']>,
-  projectRoot: string
+  projectRoot: string,
+  storagePath: string
 ): ProviderStatus[] {
   const statuses: ProviderStatus[] = [];
+  const symlink = new SymlinkManager(projectRoot, storagePath, config);
 
   for (const provider of SUPPORTED_PROVIDERS) {
     const providerConfig = config.sync?.providers?.[provider];
     const enabled = providerConfig?.enabled ?? false;
 
-    // Check if provider directory exists and has cognitives
-    const providerPath = path.join(projectRoot, `.${provider}`);
+    // Count the links and rendered files in the provider's folders, wherever the config puts them
     let cognitivesCount = 0;
-
-    if (fs.existsSync(providerPath)) {
-      try {
-        // Count all items in provider subdirectories
-        const subdirs = ['skills', 'agents', 'prompts', 'workflows', 'tools'];
-        for (const subdir of subdirs) {
-          const subdirPath = path.join(providerPath, subdir);
-          if (fs.existsSync(subdirPath)) {
-            const entries = fs.readdirSync(subdirPath);
-            cognitivesCount += entries.filter((e) => !e.startsWith('.')).length;
-          }
-        }
-      } catch {
-        // Ignore errors
-      }
+    try {
+      cognitivesCount = symlink.getExistingLinks(provider).length;
+    } catch {
+      // Folder unreadable
     }
 
     statuses.push({
@@ -172,6 +170,31 @@ function getProviderStatuses(
   return statuses;
 }
 
+/**
+ * Cognitives flagged as conflicted by update whose main file still has conflict markers
+ * Main files keep their original name, so every file with the type's extension is checked
+ */
+function getConflicts(storagePath: string): string[] {
+  const conflicts: string[] = [];
+
+  for (const cognitive of new ManifestManager(storagePath).getCognitives()) {
+    if (cognitive.conflicted !== true) continue;
+    try {
+      const cognitiveDir = getCognitiveDir(storagePath, cognitive.type, cognitive.category, cognitive.name);
+      const files = fs
+        .readdirSync(cognitiveDir)
+        .filter((file) => file.endsWith(COGNITIVE_FILE_EXTENSIONS[cognitive.type]));
+      if (files.some((file) => hasConflictMarkers(fs.readFileSync(path.join(cognitiveDir, file), 'utf-8')))) {
+        conflicts.push(cognitive.name);
+      }
+    } catch {
+      // Removed since the update, or an invalid manifest entry
+    }
+  }
+
+  return conflicts;
+}
+
 function getLastSyncTime(storagePath: string): string | undefined {
   const manifestPath = path.join(storagePath, 'manifest.json');
 
@@ -247,6 +270,17 @@ function showProjectStatus(status: ProjectStatus): void {
   }
   logger.line();
 
+  // Conflicts left by update
+  if (status.conflicts.length > 0) {
+    logger.bold('  Conflicts');
+    for (const name of status.conflicts) {
+      logger.log(`  ${pc.yellow('!')} ${pc.white(name)} ${pc.dim('(unresolved conflict markers)')}`);
+    }
+    logger.line();
+    logger.hint('Edit the files to keep the lines you want and remove the conflict markers.');
+    logger.line();
+  }
+
   // Last sync
   if (status.lastSync !== undefined) {
     const syncDate = new Date(status.lastSync);
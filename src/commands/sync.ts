@@ -9,11 +9,15 @@
 import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
+import * as path from 'path';
 import { SyncEngine } from '../services/sync/engine.js';
+import { Transaction, TransactionPendingError, describeRollback } from '../services/transaction/index.js';
+import type { RollbackResult } from '../services/transaction/index.js';
 import { regenerateAgentsMd } from '../services/agents-md/generator.js';
 import type { SyncResult, SyncAction, SyncOptions } from '../services/sync/types.js';
 import type { ProviderSyncResult } from '../services/symlink/types.js';
-import { COGNITIVE_TYPES, CATEGORIES, SUPPORTED_PROVIDERS } from '../core/constants.js';
+import type { NameCollision } from '../services/scanner/types.js';
+import { AGENTS_MD_FILE_NAME, COGNITIVE_TYPES, CATEGORIES, SUPPORTED_PROVIDERS } from '../core/constants.js';
 import type { CognitiveType, Category, SupportedProvider } from '../core/constants.js';
 import { logger } from '../utils/logger.js';
 
@@ -28,6 +32,8 @@ interface SyncCommandOptions {
   provider?: string;
   copy?: boolean;
   force?: boolean;
+  backup?: boolean;
+  pull?: boolean;
   json?: boolean;
   verbose?: boolean;
 }
@@ -60,7 +66,20 @@ export function executeSyncCommand(options: SyncCommandOptions): void {
   const synapSyncDir = configManager.getSynapSyncDir();
   const projectRoot = configManager.getProjectRoot();
   const config = configManager.getConfig();
-  const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config);
+
+  // Every change is journaled and rolled back if the sync fails
+  let transaction: Transaction | undefined;
+  if (options.dryRun !== true) {
+    try {
+      transaction = Transaction.begin(synapSyncDir, 'sync');
+    } catch (error) {
+      if (!(error instanceof TransactionPendingError)) throw error;
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+      return;
+    }
+  }
+  const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config, transaction);
 
   // Show header
   if (options.json !== true) {
@@ -80,23 +99,45 @@ export function executeSyncCommand(options: SyncCommandOptions): void {
   if (validatedOptions.provider !== undefined) syncOpts.provider = validatedOptions.provider;
   if (options.copy !== undefined) syncOpts.copy = options.copy;
   if (options.force !== undefined) syncOpts.force = options.force;
+  if (options.backup !== undefined) syncOpts.backup = options.backup;
+  if (options.pull !== undefined) syncOpts.pull = options.pull;
   if (options.verbose !== undefined) syncOpts.verbose = options.verbose;
-  const result = syncEngine.sync(
-    syncOpts,
-    options.json !== true
-      ? (status) => {
-          if (options.verbose === true) {
-            logger.log(`  ${pc.dim(status.message)}`);
+  let result: SyncResult;
+  let rollback: RollbackResult | undefined;
+  try {
+    result = syncEngine.sync(
+      syncOpts,
+      options.json !== true
+        ? (status) => {
+            if (options.verbose === true) {
+              logger.log(`  ${pc.dim(status.message)}`);
+            }
           }
-        }
-      : undefined
-  );
-
-  // Regenerate AGENTS.md after sync (unless dry run)
-  if (options.dryRun !== true) {
-    const synapSyncDir = configManager.getSynapSyncDir();
-    const projectRoot = configManager.getProjectRoot();
-    regenerateAgentsMd(projectRoot, synapSyncDir);
+        : undefined
+    );
+
+    // Regenerate AGENTS.md after sync (unless dry run), or undo everything on failure
+    if (transaction !== undefined) {
+      if (result.success) {
+        transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+        regenerateAgentsMd(projectRoot, synapSyncDir);
+        transaction.commit();
+      } else {
+        rollback = transaction.rollback();
+      }
+    }
+  } catch (error) {
+    rollback = transaction?.rollback();
+    logger.error(`Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else if (rollback !== undefined) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
+    logger.line();
+    return;
   }
 
   // Output results
@@ -106,6 +147,14 @@ export function executeSyncCommand(options: SyncCommandOptions): void {
   }
 
   displayResults(result, options);
+
+  if (rollback !== undefined) {
+    logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    if (rollback.errors.length > 0) {
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    }
+    logger.line();
+  }
 }
 
 // ============================================
@@ -159,15 +208,32 @@ function validateOptions(options: SyncCommandOptions): ValidatedSyncOptions | nu
 // ============================================
 
 function displayResults(result: SyncResult, options: SyncCommandOptions): void {
+  if (result.collisions.length > 0) {
+    displayCollisions(result.collisions);
+  }
+
   const hasManifestChanges = result.added > 0 || result.removed > 0 || result.updated > 0;
   const hasProviderResults = result.providerResults !== undefined && result.providerResults.length > 0;
 
   // Check if there are any provider changes
   const hasProviderChanges = hasProviderResults && result.providerResults?.some(
-    (pr) => pr.created.length > 0 || pr.removed.length > 0
+    (pr) =>
+      pr.created.length > 0 ||
+      pr.removed.length > 0 ||
+      pr.migrated.length > 0 ||
+      pr.backedUp.length > 0 ||
+      pr.unmanaged.length > 0 ||
+      pr.drifted.length > 0
   );
-
-  if (!hasManifestChanges && hasProviderChanges !== true) {
+  const pulled = result.pulled ?? [];
+  const pullConflicts = result.pullConflicts ?? [];
+
+  if (
+    !hasManifestChanges &&
+    hasProviderChanges !== true &&
+    pulled.length === 0 &&
+    pullConflicts.length === 0
+  ) {
     logger.log(`  ${pc.green('✓')} Everything is in sync`);
     logger.line();
     logger.log(`  ${pc.dim(`${result.total} cognitives in manifest`)}`);
@@ -181,6 +247,27 @@ function displayResults(result: SyncResult, options: SyncCommandOptions): void {
     return;
   }
 
+  // Display edits pulled back from provider copies
+  if (pulled.length > 0) {
+    logger.bold(options.dryRun === true ? '  Edits to pull back:' : '  Edits pulled back:');
+    logger.line();
+    for (const name of pulled) {
+      logger.log(`    ${pc.cyan('←')} ${name}`);
+    }
+    logger.line();
+  }
+  if (pullConflicts.length > 0) {
+    logger.bold(`  ${pc.yellow('Edited differently in several providers, not pulled:')}`);
+    logger.line();
+    for (const conflict of pullConflicts) {
+      logger.log(`    ${pc.yellow('!')} ${pc.bold(conflict.cognitive)}`);
+      for (const target of conflict.targets) {
+        logger.log(`      ${pc.dim(path.relative(process.cwd(), target))}`);
+      }
+    }
+    logger.line();
+  }
+
   // Display manifest actions
   if (result.actions.length > 0 && (options.verbose === true || options.dryRun === true)) {
     logger.bold('  Manifest Changes:');
@@ -239,6 +326,14 @@ function displayResults(result: SyncResult, options: SyncCommandOptions): void {
   }
 
   // Hints
+  if (result.providerResults?.some((pr) => pr.unmanaged.length > 0) === true) {
+    logger.hint('Run synapsync sync --backup to move them aside, or synapsync adopt <path> to import them.');
+  }
+  if (pullConflicts.length > 0) {
+    logger.hint('Keep one of the edits, revert the others, then run synapsync sync --pull again.');
+  } else if (result.providerResults?.some((pr) => pr.drifted.length > 0) === true) {
+    logger.hint('Run synapsync sync --pull to keep the edits, or synapsync sync --force to overwrite them.');
+  }
   if (options.dryRun === true) {
     logger.hint('Run synapsync sync without --dry-run to apply changes.');
   } else {
@@ -246,6 +341,21 @@ function displayResults(result: SyncResult, options: SyncCommandOptions): void {
   }
 }
 
+function displayCollisions(collisions: NameCollision[]): void {
+  logger.bold(`  ${pc.yellow('Name collisions:')}`);
+  logger.line();
+  for (const collision of collisions) {
+    logger.log(`    ${pc.yellow('!')} ${pc.bold(collision.name)} is used by ${collision.cognitives.length} cognitives`);
+    for (const cognitive of collision.cognitives) {
+      const note = cognitive === collision.kept ? 'kept, in manifest' : 'skipped';
+      logger.log(`      ${path.relative(process.cwd(), cognitive.path)} ${pc.dim(`(${note})`)}`);
+    }
+  }
+  logger.line();
+  logger.hint('Rename one of them or give it a scope (@scope/name).');
+  logger.line();
+}
+
 function displayActions(actions: SyncAction[], isDryRun: boolean): void {
   const verb = isDryRun ? 'Would' : 'Did';
 
@@ -270,10 +380,12 @@ function displayProviderResult(result: ProviderSyncResult, options: SyncCommandO
   const created = result.created.filter((c) => c.success).length;
   const skipped = result.skipped.length;
   const removed = result.removed.length;
+  const migrated = result.migrated.length;
+  const backedUp = result.backedUp.length;
   const errors = result.errors.length;
 
   const methodLabel = result.method === 'symlink' ? 'symlinks' : 'copies';
-  const hasChanges = created > 0 || removed > 0;
+  const hasChanges = created > 0 || removed > 0 || migrated > 0 || backedUp > 0;
 
   logger.log(`    ${pc.cyan(result.provider)}:`);
 
@@ -287,6 +399,12 @@ function displayProviderResult(result: ProviderSyncResult, options: SyncCommandO
     if (removed > 0) {
       logger.log(`      ${pc.red('-')} ${removed} orphaned removed`);
     }
+    if (migrated > 0) {
+      logger.log(`      ${pc.cyan('→')} ${migrated} moved from a previous path`);
+    }
+    if (backedUp > 0) {
+      logger.log(`      ${pc.cyan('→')} ${backedUp} not created by SynapSync, moved to .synapsync/.backups/`);
+    }
     if (errors > 0) {
       logger.log(`      ${pc.red('✗')} ${errors} errors`);
     }
@@ -294,6 +412,32 @@ function displayProviderResult(result: ProviderSyncResult, options: SyncCommandO
     logger.log(`      ${pc.green('✓')} ${skipped + created} ${methodLabel} synced`);
   }
 
+  if (result.drifted.length > 0) {
+    logger.log(`      ${pc.yellow('~')} ${result.drifted.length} edited in place, kept:`);
+    for (const target of result.drifted) {
+      logger.log(`        ${pc.dim(path.relative(process.cwd(), target))}`);
+    }
+  }
+
+  if (result.unmanaged.length > 0) {
+    logger.log(`      ${pc.yellow('!')} ${result.unmanaged.length} not created by SynapSync, left in place:`);
+    for (const target of result.unmanaged) {
+      logger.log(`        ${pc.dim(path.relative(process.cwd(), target))}`);
+    }
+  }
+
+  if (result.unsupported.length > 0) {
+    // Grouped by type: "workflow: ci, release"
+    const byType = new Map<string, string[]>();
+    for (const { name, type } of result.unsupported) {
+      byType.set(type, [...(byType.get(type) ?? []), name]);
+    }
+    const details = [...byType].map(([type, names]) => `${type}: ${names.join(', ')}`).join('; ');
+    logger.log(
+      `      ${pc.yellow('!')} ${result.unsupported.length} not supported, skipped ${pc.dim(`(${details})`)}`
+    );
+  }
+
   logger.line();
 }
 
@@ -330,7 +474,10 @@ export function executeSyncStatusCommand(options: { json?: boolean }): void {
     .filter(([, cfg]) => (cfg as { enabled?: boolean }).enabled === true)
     .map(([name]) => name as SupportedProvider);
 
-  const providerStatuses: Record<string, { valid: number; broken: number; orphaned: number }> = {};
+  const providerStatuses: Record<
+    string,
+    { valid: number; broken: number; orphaned: number; drifted: number }
+  > = {};
   for (const provider of enabledProviders) {
     providerStatuses[provider] = syncEngine.getProviderStatus(provider);
   }
@@ -368,6 +515,10 @@ export function executeSyncStatusCommand(options: { json?: boolean }): void {
     }
   }
 
+  if (status.collisions > 0) {
+    logger.log(`  ${pc.yellow('!')} ${status.collisions} name collision(s), run synapsync sync to see them`);
+  }
+
   // Provider status
   if (enabledProviders.length > 0) {
     logger.line();
@@ -378,8 +529,8 @@ export function executeSyncStatusCommand(options: { json?: boolean }): void {
       const pStatus = providerStatuses[provider];
       if (pStatus === undefined) continue;
 
-      const total = pStatus.valid + pStatus.broken + pStatus.orphaned;
-      const hasIssues = pStatus.broken > 0 || pStatus.orphaned > 0;
+      const total = pStatus.valid + pStatus.broken + pStatus.orphaned + pStatus.drifted;
+      const hasIssues = pStatus.broken > 0 || pStatus.orphaned > 0 || pStatus.drifted > 0;
 
       logger.log(`    ${pc.cyan(provider)}:`);
       if (hasIssues) {
@@ -390,6 +541,9 @@ export function executeSyncStatusCommand(options: { json?: boolean }): void {
         if (pStatus.orphaned > 0) {
           logger.log(`      ${pc.yellow('?')} ${pStatus.orphaned} orphaned`);
         }
+        if (pStatus.drifted > 0) {
+          logger.log(`      ${pc.yellow('~')} ${pStatus.drifted} edited in place`);
+        }
       } else if (total > 0) {
         logger.log(`      ${pc.green('✓')} ${total} symlinks valid`);
       } else {
@@ -403,6 +557,9 @@ export function executeSyncStatusCommand(options: { json?: boolean }): void {
   if (!status.inSync || Object.values(providerStatuses).some((s) => s.broken > 0 || s.orphaned > 0)) {
     logger.hint('Run synapsync sync to synchronize.');
   }
+  if (Object.values(providerStatuses).some((s) => s.drifted > 0)) {
+    logger.hint('Run synapsync sync --pull to bring edits made in provider folders back.');
+  }
 }
 
 // ============================================
@@ -422,6 +579,8 @@ export function registerSyncCommand(program: Command): void {
     .option('-p, --provider <provider>', 'Sync only to specific provider (claude, cursor, etc.)')
     .option('--copy', 'Use file copy instead of symlinks')
     .option('-f, --force', 'Force sync even if already synced')
+    .option('--backup', 'Move provider files SynapSync did not create to .synapsync/.backups/')
+    .option('--pull', 'Bring edits made to copies in provider folders back into .synapsync/ first')
     .option('-v, --verbose', 'Show detailed output')
     .option('--json', 'Output as JSON')
     .action((options: SyncCommandOptions) => {
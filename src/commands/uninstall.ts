@@ -10,6 +10,11 @@ import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
 import { regenerateAgentsMd } from '../services/agents-md/generator.js';
+import { LockfileManager } from '../services/lockfile/manager.js';
+import { getBaseDir, getCognitiveDir } from '../services/installer/installer.js';
+import { HistoryManager } from '../services/history/index.js';
+import { Transaction, TransactionPendingError, describeRollback } from '../services/transaction/index.js';
+import { AGENTS_MD_FILE_NAME, LOCK_FILE_NAME, MANIFEST_FILE_NAME } from '../core/constants.js';
 import type { InstalledCognitive } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
@@ -20,6 +25,8 @@ import { logger } from '../utils/logger.js';
 interface UninstallCommandOptions {
   force?: boolean;
   keepFiles?: boolean;
+  frozenLockfile?: boolean;
+  global?: boolean;
 }
 
 interface ProjectManifest {
@@ -42,68 +49,146 @@ export function executeUninstallCommand(
 ): void {
   logger.line();
 
-  // Check if project is initialized
-  const configManager = ConfigManager.findConfig();
+  // Check if project is initialized (the global store needs no project)
+  const configManager = options.global === true ? ConfigManager.findGlobalConfig() : ConfigManager.findConfig();
   if (configManager === null) {
     logger.error('No SynapSync project found.');
-    logger.hint('Run synapsync init to initialize a project first.');
+    logger.hint('Run synapsync init to initialize a project first, or use --global.');
     return;
   }
 
-  // Read manifest
+  // Read manifest: the name is a cognitive or a collection of installed members
   const manifest = readManifest(configManager);
-  const cognitive = manifest.cognitives[name];
+  const cognitives = getTargets(manifest, name);
 
-  if (cognitive === undefined) {
+  if (cognitives.length === 0) {
     logger.error(`Cognitive '${name}' is not installed.`);
-    logger.hint('Run synapsync list to see installed cognitives.');
+    logger.hint(`Run synapsync list${options.global === true ? ' --global' : ''} to see installed cognitives.`);
+    return;
+  }
+
+  // Uninstalling always changes the lockfile
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+  if (options.frozenLockfile === true && cognitives.some((c) => lockfile.getCognitive(c.name) !== undefined)) {
+    logger.error(`Frozen lockfile: uninstalling '${name}' would change ${LOCK_FILE_NAME}.`);
+    logger.hint(`Run without --frozen-lockfile to update ${LOCK_FILE_NAME}.`);
+    process.exitCode = 1;
     return;
   }
 
+  const isCollection = manifest.cognitives[name] === undefined;
+
   // Confirm uninstall (unless --force)
   if (options.force !== true) {
-    logger.log(`  ${pc.yellow('!')} About to uninstall ${pc.bold(name)}`);
-    logger.log(`    ${pc.dim('Type:')} ${cognitive.type}`);
-    logger.log(`    ${pc.dim('Category:')} ${cognitive.category}`);
-    logger.log(`    ${pc.dim('Version:')} ${cognitive.version}`);
+    if (isCollection) {
+      logger.log(
+        `  ${pc.yellow('!')} About to uninstall the ${pc.bold(name)} collection (${cognitives.length} cognitives)`
+      );
+      for (const cognitive of cognitives) {
+        logger.log(`    ${pc.dim('-')} ${cognitive.name} ${pc.dim(`v${cognitive.version} · ${cognitive.type}`)}`);
+      }
+    } else {
+      const [cognitive] = cognitives as [InstalledCognitive];
+      logger.log(`  ${pc.yellow('!')} About to uninstall ${pc.bold(name)}`);
+      logger.log(`    ${pc.dim('Type:')} ${cognitive.type}`);
+      logger.log(`    ${pc.dim('Category:')} ${cognitive.category}`);
+      logger.log(`    ${pc.dim('Version:')} ${cognitive.version}`);
+    }
     logger.line();
     logger.hint('Use --force to skip confirmation and uninstall directly.');
-    logger.log(`  ${pc.dim('To confirm, run:')} synapsync uninstall ${name} --force`);
+    logger.log(
+      `  ${pc.dim('To confirm, run:')} synapsync uninstall ${name}${options.global === true ? ' --global' : ''} --force`
+    );
     return;
   }
 
+  let transaction: Transaction | null = null;
+
   try {
-    // Remove files (unless --keep-files)
-    if (options.keepFiles !== true) {
-      const cognitiveDir = getCognitiveDir(configManager, cognitive);
-      if (fs.existsSync(cognitiveDir)) {
-        fs.rmSync(cognitiveDir, { recursive: true, force: true });
-        logger.log(`  ${pc.dim('Removed files from')} ${path.relative(process.cwd(), cognitiveDir)}`);
+    // Every change below is journaled and rolled back if anything fails
+    transaction = Transaction.begin(configManager.getSynapSyncDir(), 'uninstall');
+
+    const history = new HistoryManager(configManager.getSynapSyncDir(), transaction);
+    let lockChanged = false;
+    for (const cognitive of cognitives) {
+      // Remove files (unless --keep-files)
+      if (options.keepFiles !== true) {
+        const cognitiveDir = getCognitiveDir(
+          configManager.getSynapSyncDir(),
+          cognitive.type,
+          cognitive.category,
+          cognitive.name
+        );
+        if (fs.existsSync(cognitiveDir)) {
+          transaction.track(cognitiveDir);
+          fs.rmSync(cognitiveDir, { recursive: true, force: true });
+          removeEmptyScopeDir(cognitiveDir);
+          const location = configManager.isGlobal() ? cognitiveDir : path.relative(process.cwd(), cognitiveDir);
+          logger.log(`  ${pc.dim('Removed files from')} ${location}`);
+        }
+      }
+
+      // Pristine copy kept for three-way merges on update
+      const baseDir = getBaseDir(configManager.getSynapSyncDir(), cognitive.type, cognitive.category, cognitive.name);
+      if (fs.existsSync(baseDir)) {
+        transaction.track(baseDir);
+        fs.rmSync(baseDir, { recursive: true, force: true });
+        removeEmptyScopeDir(baseDir);
       }
+      history.removeAll(cognitive);
+
+      delete manifest.cognitives[cognitive.name];
+      lockChanged = lockfile.removeCognitive(cognitive.name) || lockChanged;
     }
 
     // Update manifest
-    delete manifest.cognitives[name];
     manifest.lastUpdated = new Date().toISOString();
+    transaction.track(path.join(configManager.getSynapSyncDir(), MANIFEST_FILE_NAME));
     saveManifest(configManager, manifest);
 
-    // Regenerate AGENTS.md
-    regenerateAgentsMd(configManager.getProjectRoot(), configManager.getSynapSyncDir());
+    // Update lockfile
+    if (lockChanged) {
+      transaction.track(path.join(configManager.getLockfileDir(), LOCK_FILE_NAME));
+      lockfile.save();
+    }
+
+    // Regenerate AGENTS.md (projects only)
+    if (!configManager.isGlobal()) {
+      transaction.track(path.join(configManager.getProjectRoot(), AGENTS_MD_FILE_NAME));
+      regenerateAgentsMd(configManager.getProjectRoot(), configManager.getSynapSyncDir());
+    }
+
+    transaction.commit();
 
     // Success
     logger.line();
-    logger.log(`  ${pc.green('✓')} Uninstalled ${pc.bold(name)}`);
+    logger.log(
+      isCollection
+        ? `  ${pc.green('✓')} Uninstalled the ${pc.bold(name)} collection (${cognitives.length} cognitives)`
+        : `  ${pc.green('✓')} Uninstalled ${pc.bold(name)}`
+    );
     logger.line();
 
     // Check for provider symlinks that might need cleanup
     logger.hint('Note: Provider symlinks may need manual cleanup if sync was run.');
   } catch (error) {
+    const rollback = transaction?.rollback();
     logger.line();
-    if (error instanceof Error) {
+    if (error instanceof TransactionPendingError) {
+      logger.error(error.message);
+      logger.hint('Run synapsync doctor --fix to roll it back.');
+    } else if (error instanceof Error) {
       logger.error(`Uninstall failed: ${error.message}`);
     } else {
       logger.error('Uninstall failed with unknown error');
     }
+
+    if (rollback !== undefined && rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else if (rollback !== undefined) {
+      logger.log(`  ${pc.dim(describeRollback(rollback))}`);
+    }
   }
 }
 
@@ -111,6 +196,17 @@ export function executeUninstallCommand(
 // Manifest Operations
 // ============================================
 
+/**
+ * The cognitive with this name, or the members of the collection with this name
+ */
+function getTargets(manifest: ProjectManifest, name: string): InstalledCognitive[] {
+  const cognitive = manifest.cognitives[name];
+  if (cognitive !== undefined) {
+    return [cognitive];
+  }
+  return Object.values(manifest.cognitives).filter((c) => c.collection === name);
+}
+
 function readManifest(configManager: ConfigManager): ProjectManifest {
   const synapSyncDir = configManager.getSynapSyncDir();
   const manifestPath = path.join(synapSyncDir, 'manifest.json');
@@ -143,9 +239,14 @@ function saveManifest(configManager: ConfigManager, manifest: ProjectManifest):
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
 }
 
-function getCognitiveDir(configManager: ConfigManager, cognitive: InstalledCognitive): string {
-  const synapSyncDir = configManager.getSynapSyncDir();
-  return path.join(synapSyncDir, `${cognitive.type}s`, cognitive.category, cognitive.name);
+/**
+ * Remove the scope folder (@acme) of a scoped cognitive once it is empty
+ */
+function removeEmptyScopeDir(cognitiveDir: string): void {
+  const scopeDir = path.dirname(cognitiveDir);
+  if (path.basename(scopeDir).startsWith('@') && fs.readdirSync(scopeDir).length === 0) {
+    fs.rmdirSync(scopeDir);
+  }
 }
 
 // ============================================
@@ -159,9 +260,11 @@ export function registerUninstallCommand(program: Command): void {
   program
     .command('uninstall <name>')
     .alias('rm')
-    .description('Uninstall a cognitive')
+    .description('Uninstall a cognitive or every cognitive of a collection')
     .option('-f, --force', 'Skip confirmation')
     .option('--keep-files', 'Remove from manifest but keep files')
+    .option('--frozen-lockfile', `Fail instead of updating ${LOCK_FILE_NAME}`)
+    .option('-g, --global', 'Uninstall from the user-level store')
     .action((name: string, options: UninstallCommandOptions) => {
       executeUninstallCommand(name, options);
     });
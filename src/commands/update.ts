@@ -10,13 +10,43 @@ import type { Command } from 'commander';
 import pc from 'picocolors';
 import { ConfigManager } from '../services/config/manager.js';
 import { ManifestManager } from '../services/manifest/manager.js';
+import {
+  LockfileManager,
+  FrozenLockfileError,
+  computeIntegrity,
+  computeContentHash,
+  describeMismatch,
+  readDirectoryFiles,
+} from '../services/lockfile/index.js';
 import { UpdateChecker } from '../services/maintenance/update-checker.js';
-import { RegistryClient } from '../services/registry/client.js';
+import { createRegistryClient } from '../services/registry/client.js';
+import type { RegistryClient } from '../services/registry/client.js';
+import {
+  detectCognitiveFile,
+  fetchFromRegistry,
+  getBaseDir,
+  getCognitiveDir,
+  getPayloadFiles,
+  readBase,
+  writeBase,
+  writeCognitive,
+} from '../services/installer/index.js';
+import type { PayloadFile } from '../services/installer/index.js';
+import { HistoryManager, getHistoryLimit } from '../services/history/index.js';
+import { createUnifiedDiff, hasConflictMarkers, mergeThreeWay } from '../services/merge/index.js';
+import type { MergeStrategy } from '../services/merge/index.js';
+import type { ManifestCognitive } from '../services/manifest/types.js';
 import { SyncEngine } from '../services/sync/engine.js';
+import { Transaction, TransactionPendingError, describeRollback } from '../services/transaction/index.js';
 import { regenerateAgentsMd } from '../services/agents-md/generator.js';
-import type { UpdateCheckResult } from '../services/maintenance/types.js';
-import { COGNITIVE_FILE_NAMES } from '../core/constants.js';
+import type { UpdateCheckResult, UpdateInfo } from '../services/maintenance/types.js';
+import {
+  AGENTS_MD_FILE_NAME,
+  LOCK_FILE_NAME,
+  MANIFEST_FILE_NAME,
+} from '../core/constants.js';
 import { logger } from '../utils/logger.js';
+import { selectChangelog } from '../utils/changelog.js';
 
 // ============================================
 // Types
@@ -24,9 +54,31 @@ import { logger } from '../utils/logger.js';
 
 interface UpdateCommandOptions {
   all?: boolean;
-  force?: boolean;
+  force?: boolean; // deprecated, kept so existing scripts still run
   dryRun?: boolean;
   json?: boolean;
+  frozenLockfile?: boolean;
+  global?: boolean;
+  theirs?: boolean;
+  ours?: boolean;
+  major?: boolean;
+}
+
+/**
+ * New content of an updated cognitive's main file, and how local edits were handled
+ */
+interface UpdateMerge {
+  content: string;
+  outcome: 'updated' | 'merged' | 'conflicted' | 'kept' | 'replaced';
+  conflicts: number;
+}
+
+/**
+ * New asset files of an updated cognitive, and which local edits were kept over upstream changes
+ */
+interface AssetMerge {
+  assets: Map<string, PayloadFile>;
+  kept: string[];
 }
 
 // ============================================
@@ -42,19 +94,47 @@ export async function executeUpdateCommand(
 ): Promise<void> {
   logger.line();
 
-  // Check if project is initialized
-  const configManager = ConfigManager.findConfig();
+  // Check if project is initialized (the global store needs no project)
+  const configManager = options.global === true ? ConfigManager.findGlobalConfig() : ConfigManager.findConfig();
   if (configManager === null) {
     logger.error('No SynapSync project found.');
-    logger.hint('Run synapsync init to initialize a project first.');
+    logger.hint('Run synapsync init to initialize a project first, or use --global.');
+    return;
+  }
+
+  if (options.force === true && options.json !== true) {
+    logger.warning('--force is deprecated and has no effect.');
+  }
+
+  if (options.theirs === true && options.ours === true) {
+    logger.error('Use either --theirs or --ours, not both.');
     return;
   }
+  const strategy: MergeStrategy = options.theirs === true ? 'theirs' : options.ours === true ? 'ours' : 'merge';
 
   const synapSyncDir = configManager.getSynapSyncDir();
   const projectRoot = configManager.getProjectRoot();
   const manifest = new ManifestManager(synapSyncDir);
-  const registry = new RegistryClient();
-  const checker = new UpdateChecker(registry);
+  const lockfile = new LockfileManager(configManager.getLockfileDir());
+  const registry = createRegistryClient(synapSyncDir, configManager.getConfig());
+  const checker = new UpdateChecker(registry, {
+    policies: configManager.getConfig().updates ?? {},
+    major: options.major === true,
+  });
+
+  if (options.frozenLockfile === true) {
+    try {
+      lockfile.assertInSync(manifest.getCognitives());
+    } catch (error) {
+      if (!(error instanceof FrozenLockfileError)) throw error;
+      logger.error(`Frozen lockfile: ${error.message}`);
+      for (const mismatch of error.mismatches) {
+        logger.log(`    ${pc.dim('-')} ${describeMismatch(mismatch)}`);
+      }
+      process.exitCode = 1;
+      return;
+    }
+  }
 
   // Header
   if (options.json !== true) {
@@ -97,10 +177,12 @@ export async function executeUpdateCommand(
     }
 
     const updateInfo = await checker.checkOne(cognitive);
+    const skipped = !updateInfo.hasUpdate && updateInfo.skipReason !== undefined;
     checkResult = {
       checked: 1,
       updatesAvailable: updateInfo.hasUpdate ? [updateInfo] : [],
-      upToDate: updateInfo.hasUpdate ? [] : [updateInfo],
+      upToDate: updateInfo.hasUpdate || skipped ? [] : [updateInfo],
+      skipped: skipped ? [updateInfo] : [],
       errors: [],
       checkTime: new Date().toISOString(),
     };
@@ -121,96 +203,351 @@ export async function executeUpdateCommand(
   // If no updates available, we're done
   if (checkResult.updatesAvailable.length === 0) {
     logger.line();
-    logger.log(`  ${pc.green('✓')} All cognitives are up to date`);
+    logger.log(
+      checkResult.skipped.length > 0
+        ? `  ${pc.dim('No updates to apply')}`
+        : `  ${pc.green('✓')} All cognitives are up to date`
+    );
     logger.line();
     return;
   }
 
-  // If dry run, don't actually update
+  // If dry run, show what would change instead
   if (options.dryRun === true) {
+    for (const update of checkResult.updatesAvailable) {
+      await displayPreview(update, installed, registry, synapSyncDir);
+    }
     logger.line();
     logger.hint('Run synapsync update without --dry-run to apply updates.');
     return;
   }
 
-  // Perform updates
+  // Updates always change the lockfile
+  if (options.frozenLockfile === true) {
+    logger.line();
+    logger.error(`Frozen lockfile: applying updates would change ${LOCK_FILE_NAME}.`);
+    logger.hint(`Run without --frozen-lockfile to update ${LOCK_FILE_NAME}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // Perform updates: all of them or none
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.begin(synapSyncDir, 'update');
+  } catch (error) {
+    if (!(error instanceof TransactionPendingError)) throw error;
+    logger.line();
+    logger.error(error.message);
+    logger.hint('Run synapsync doctor --fix to roll it back.');
+    return;
+  }
+
   logger.line();
   logger.bold('  Updating...');
   logger.line();
 
+  const history = new HistoryManager(synapSyncDir, transaction);
+  const historyLimit = getHistoryLimit(configManager.getConfig());
+
   const updated: string[] = [];
+  const conflicted: string[] = [];
   const failed: Array<{ name: string; error: string }> = [];
 
   for (const update of checkResult.updatesAvailable) {
     try {
       logger.log(`  ${pc.cyan('↓')} Updating ${update.name}...`);
 
-      // Download new version from registry
-      const downloaded = await registry.download(update.name);
-
       // Get target directory from manifest
       const manifestEntry = installed.find((c) => c.name === update.name);
       if (manifestEntry === undefined) continue;
 
-      const targetDir = path.join(
-        synapSyncDir,
-        `${update.type}s`,
-        update.category,
-        update.name
-      );
-
-      // Save the new version
-      const fileName = COGNITIVE_FILE_NAMES[update.type];
-      const filePath = path.join(targetDir, fileName);
+      // Download the new version and its assets from the registry it was installed from
+      const payload = await fetchFromRegistry(registry, update.name, {
+        version: update.latestVersion,
+        ...(manifestEntry.registry !== undefined && { registry: manifestEntry.registry }),
+      });
 
-      // Ensure directory exists
-      if (!fs.existsSync(targetDir)) {
-        fs.mkdirSync(targetDir, { recursive: true });
+      const targetDir = getCognitiveDir(synapSyncDir, update.type, update.category, update.name);
+      const baseDir = getBaseDir(synapSyncDir, update.type, update.category, update.name);
+
+      // Three-way merge local edits with the new version, against the version installed
+      // The installed main file may carry another name than the new version's
+      const fileName = payload.manifest.file;
+      const localFileName = (await detectCognitiveFile(targetDir))?.fileName ?? fileName;
+      const localFiles = readDirectoryFiles(targetDir);
+      const local = localFiles.get(localFileName)?.toString('utf-8') ?? null;
+      localFiles.delete(localFileName);
+
+      // Bases kept before assets were hold only the main file: download the installed version instead
+      let baseFiles: Map<string, Buffer> | null = null;
+      if (strategy !== 'theirs') {
+        baseFiles = readBase(baseDir);
+        if (!baseFiles.has(localFileName) || (baseFiles.size === 1 && localFiles.size > 0)) {
+          const downloaded = await downloadBase(registry, manifestEntry, localFileName);
+          baseFiles = downloaded ?? (baseFiles.size > 0 ? baseFiles : null);
+        }
       }
+      const base = baseFiles?.get(localFileName)?.toString('utf-8') ?? null;
+      baseFiles?.delete(localFileName);
 
-      // Write the updated content
-      fs.writeFileSync(filePath, downloaded.content, 'utf-8');
+      const merge = mergeUpdate(update.name, local, base, payload.content, strategy, payload.manifest.version);
+      const assets = mergeAssets(targetDir, localFiles, baseFiles, payload.assets, strategy);
 
-      // Update manifest entry
-      manifest.updateCognitive(update.name, {
-        version: update.latestVersion,
+      // Keep the installed version for rollback
+      history.save(manifestEntry, lockfile.getCognitive(update.name), historyLimit);
+
+      // Stage the new version like add does, so stale files go, and swap it in
+      transaction.stage(targetDir, (dir) =>
+        writeCognitive(dir, { ...payload, content: merge.content, assets: assets.assets })
+      );
+      transaction.stage(baseDir, (dir) => writeBase(dir, payload));
+
+      // Update manifest entry with the hash of what was written, flagging unresolved conflicts
+      const entry = { ...manifestEntry, version: update.latestVersion, hash: computeContentHash(merge.content) };
+      delete entry.conflicted;
+      manifest.addCognitive(merge.conflicts > 0 ? { ...entry, conflicted: true } : entry);
+
+      // Update lockfile entry; it records the upstream content, local edits aside
+      lockfile.setCognitive({
+        name: update.name,
+        type: update.type,
+        category: update.category,
+        version: payload.manifest.version,
+        source: 'registry',
+        resolved: payload.resolved,
+        registry: payload.registry,
+        integrity: computeIntegrity(getPayloadFiles(payload)),
       });
 
       updated.push(update.name);
-      logger.log(`    ${pc.green('✓')} Updated to v${update.latestVersion}`);
+      if (merge.outcome === 'conflicted') {
+        conflicted.push(update.name);
+        logger.log(
+          `    ${pc.yellow('!')} Updated to v${update.latestVersion} with ${merge.conflicts} conflict(s) in ${fileName}`
+        );
+      } else {
+        logger.log(`    ${pc.green('✓')} Updated to v${update.latestVersion}${describeOutcome(merge.outcome)}`);
+      }
+      if (assets.kept.length > 0) {
+        logger.log(`    ${pc.yellow('!')} Kept local edits to ${assets.kept.join(', ')} over the new version's`);
+      }
     } catch (error) {
       failed.push({
         name: update.name,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       logger.log(`    ${pc.red('✗')} Failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      break;
     }
   }
 
-  // Save manifest
-  manifest.save();
+  try {
+    if (failed.length > 0) {
+      throw new Error(`Failed to update ${failed.map((f) => f.name).join(', ')}`);
+    }
+
+    // Save manifest and lockfile
+    transaction.track(path.join(synapSyncDir, MANIFEST_FILE_NAME));
+    transaction.track(path.join(configManager.getLockfileDir(), LOCK_FILE_NAME));
+    manifest.save();
+    lockfile.save();
 
-  // Re-sync providers
-  logger.line();
-  logger.log(`  ${pc.dim('Syncing providers...')}`);
-  const config = configManager.getConfig();
-  const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config);
-  syncEngine.sync();
+    // Re-sync providers
+    logger.line();
+    logger.log(`  ${pc.dim('Syncing providers...')}`);
+    const config = configManager.getConfig();
+    const syncEngine = new SyncEngine(synapSyncDir, projectRoot, config, transaction);
+    const syncResult = syncEngine.sync();
+    if (!syncResult.success) {
+      throw new Error(`Sync failed: ${syncResult.errors.map((e) => e.message).join(', ')}`);
+    }
+
+    // Regenerate AGENTS.md (projects only)
+    if (!configManager.isGlobal()) {
+      transaction.track(path.join(projectRoot, AGENTS_MD_FILE_NAME));
+      regenerateAgentsMd(projectRoot, synapSyncDir);
+    }
 
-  // Regenerate AGENTS.md
-  regenerateAgentsMd(projectRoot, synapSyncDir);
+    transaction.commit();
+  } catch (error) {
+    const rollback = transaction.rollback();
+    logger.line();
+    logger.error(error instanceof Error ? error.message : 'Update failed with unknown error');
+    if (rollback.errors.length > 0) {
+      logger.error(describeRollback(rollback));
+      logger.hint('Run synapsync doctor --fix to finish the rollback.');
+    } else {
+      logger.log(`  ${pc.dim(`${describeRollback(rollback)}, no cognitives were updated`)}`);
+    }
+    logger.line();
+    return;
+  }
 
   // Summary
   logger.line();
   if (updated.length > 0) {
     logger.log(`  ${pc.green('✓')} Updated ${updated.length} cognitive(s)`);
   }
-  if (failed.length > 0) {
-    logger.log(`  ${pc.red('✗')} Failed to update ${failed.length} cognitive(s)`);
+  if (conflicted.length > 0) {
+    logger.log(`  ${pc.yellow('!')} Conflicts to resolve in ${conflicted.join(', ')}`);
+    logger.hint('Edit the files to resolve the conflict markers; synapsync status lists what is left.');
   }
   logger.line();
 }
 
+// ============================================
+// Merging Local Edits
+// ============================================
+
+/**
+ * Decide the new main file of a cognitive from its local, base and upstream versions
+ */
+function mergeUpdate(
+  name: string,
+  local: string | null,
+  base: string | null,
+  upstream: string,
+  strategy: MergeStrategy,
+  version: string
+): UpdateMerge {
+  // Not edited locally (or nothing left to merge): take upstream
+  if (local === null || local === upstream || (base !== null && local === base)) {
+    return { content: upstream, outcome: 'updated', conflicts: 0 };
+  }
+  if (strategy === 'theirs') {
+    return { content: upstream, outcome: 'replaced', conflicts: 0 };
+  }
+  if (strategy === 'ours') {
+    return { content: local, outcome: 'kept', conflicts: 0 };
+  }
+
+  if (hasConflictMarkers(local)) {
+    throw new Error(`'${name}' still has unresolved conflicts; resolve them or use --theirs or --ours`);
+  }
+
+  // Without a base every local line is an edit, so the whole file conflicts
+  const merged = mergeThreeWay(base ?? '', local, upstream, { ours: 'local', theirs: `registry v${version}` });
+  return {
+    content: merged.content,
+    outcome: merged.conflicts > 0 ? 'conflicted' : 'merged',
+    conflicts: merged.conflicts,
+  };
+}
+
+/**
+ * Decide the new assets of a cognitive from their local, base and upstream versions
+ * Files changed on one side take that side; files changed on both are merged when the text
+ * merges cleanly, and otherwise keep the local edit unless --theirs is given
+ */
+function mergeAssets(
+  targetDir: string,
+  local: Map<string, Buffer>,
+  base: Map<string, Buffer> | null,
+  upstream: Map<string, PayloadFile>,
+  strategy: MergeStrategy
+): AssetMerge {
+  if (strategy === 'theirs') {
+    return { assets: upstream, kept: [] };
+  }
+
+  const assets = new Map<string, PayloadFile>();
+  const kept: string[] = [];
+  const keepLocal = (relativePath: string, content: Buffer): void => {
+    const executable = (fs.statSync(path.join(targetDir, relativePath)).mode & 0o111) !== 0;
+    assets.set(relativePath, { content, ...(executable && { executable: true }) });
+  };
+
+  for (const relativePath of new Set([...local.keys(), ...upstream.keys()])) {
+    const mine = local.get(relativePath);
+    const theirs = upstream.get(relativePath);
+    const original = base?.get(relativePath);
+
+    // Deleted locally: stays deleted unless upstream changed it
+    if (mine === undefined) {
+      if (theirs !== undefined && (original === undefined || !theirs.content.equals(original))) {
+        assets.set(relativePath, theirs);
+      }
+      continue;
+    }
+
+    // Removed upstream: goes unless edited locally; files added locally stay
+    if (theirs === undefined) {
+      if (original === undefined || !mine.equals(original)) {
+        keepLocal(relativePath, mine);
+        if (original !== undefined) kept.push(relativePath);
+      }
+      continue;
+    }
+
+    // Not edited locally, or edited the same way: take upstream
+    if (mine.equals(theirs.content) || (original !== undefined && mine.equals(original))) {
+      assets.set(relativePath, theirs);
+      continue;
+    }
+
+    // Edited locally only: keep the edit
+    if (original !== undefined && theirs.content.equals(original)) {
+      keepLocal(relativePath, mine);
+      continue;
+    }
+
+    // Edited on both sides: merge text files, keep the local edit when that conflicts
+    if (strategy === 'merge' && original !== undefined && ![mine, theirs.content, original].some(isBinary)) {
+      const merged = mergeThreeWay(original.toString('utf-8'), mine.toString('utf-8'), theirs.content.toString('utf-8'));
+      if (merged.conflicts === 0) {
+        assets.set(relativePath, { ...theirs, content: Buffer.from(merged.content, 'utf-8') });
+        continue;
+      }
+    }
+    keepLocal(relativePath, mine);
+    kept.push(relativePath);
+  }
+
+  return { assets, kept };
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/**
+ * Download the installed version of a cognitive as the merge base, its main file under the local name
+ * For cognitives installed before bases kept every file; null when the registry no longer has it
+ */
+async function downloadBase(
+  registry: RegistryClient,
+  cognitive: ManifestCognitive,
+  mainFile: string
+): Promise<Map<string, Buffer> | null> {
+  try {
+    const payload = await fetchFromRegistry(registry, cognitive.name, {
+      version: cognitive.version,
+      ...(cognitive.registry !== undefined && { registry: cognitive.registry }),
+    });
+    const files = new Map<string, Buffer>([[mainFile, Buffer.from(payload.content, 'utf-8')]]);
+    for (const [relativePath, file] of payload.assets) {
+      files.set(relativePath, file.content);
+    }
+    return files;
+  } catch {
+    return null;
+  }
+}
+
+function describeOutcome(outcome: UpdateMerge['outcome']): string {
+  switch (outcome) {
+    case 'merged':
+      return ', local changes merged';
+    case 'kept':
+      return ', local file kept (--ours)';
+    case 'replaced':
+      return ', local changes replaced (--theirs)';
+    default:
+      return '';
+  }
+}
+
 // ============================================
 // Check for Outdated (list --outdated)
 // ============================================
@@ -231,7 +568,10 @@ export async function executeCheckOutdatedCommand(options: { json?: boolean }):
 
   const synapSyncDir = configManager.getSynapSyncDir();
   const manifest = new ManifestManager(synapSyncDir);
-  const checker = new UpdateChecker();
+  const config = configManager.getConfig();
+  const checker = new UpdateChecker(createRegistryClient(synapSyncDir, config), {
+    policies: config.updates ?? {},
+  });
 
   // Header
   if (options.json !== true) {
@@ -266,7 +606,7 @@ export async function executeCheckOutdatedCommand(options: { json?: boolean }):
   logger.line();
   if (checkResult.updatesAvailable.length > 0) {
     logger.hint('Run synapsync update --all to update all cognitives.');
-  } else {
+  } else if (checkResult.skipped.length === 0) {
     logger.log(`  ${pc.green('✓')} All cognitives are up to date`);
   }
   logger.line();
@@ -282,9 +622,27 @@ function displayCheckResults(result: UpdateCheckResult): void {
     logger.line();
 
     for (const update of result.updatesAvailable) {
+      const heldBack =
+        update.availableVersion !== undefined && update.skipReason !== undefined
+          ? pc.dim(` (${update.availableVersion} available: ${update.skipReason})`)
+          : '';
       logger.log(
         `    ${pc.yellow('↑')} ${pc.white(update.name)} ` +
-          `${pc.dim(update.currentVersion)} → ${pc.green(update.latestVersion)}`
+          `${pc.dim(update.currentVersion)} → ${pc.green(update.latestVersion)}${heldBack}`
+      );
+    }
+  }
+
+  if (result.skipped.length > 0) {
+    if (result.updatesAvailable.length > 0) logger.line();
+    logger.bold('  Skipped:');
+    logger.line();
+
+    for (const update of result.skipped) {
+      logger.log(
+        `    ${pc.dim('-')} ${pc.white(update.name)} ` +
+          `${pc.dim(`${update.currentVersion} → ${update.availableVersion ?? update.latestVersion}`)} ` +
+          `${pc.yellow(`(${update.skipReason ?? 'skipped'})`)}`
       );
     }
   }
@@ -303,6 +661,77 @@ function displayCheckResults(result: UpdateCheckResult): void {
   }
 }
 
+/**
+ * Show the changelog and the diff of the main file an update would bring in
+ */
+async function displayPreview(
+  update: UpdateInfo,
+  installed: ManifestCognitive[],
+  registry: RegistryClient,
+  synapSyncDir: string
+): Promise<void> {
+  logger.line();
+  logger.bold(`  ${update.name} ${pc.dim(`${update.currentVersion} → ${update.latestVersion}`)}`);
+
+  try {
+    const cognitive = installed.find((c) => c.name === update.name);
+    const options = {
+      version: update.latestVersion,
+      ...(cognitive?.registry !== undefined && { registry: cognitive.registry }),
+    };
+    const downloaded = await registry.download(update.name, options);
+    const changelog = selectChangelog(
+      await registry.getChangelog(update.name, options),
+      update.currentVersion,
+      update.latestVersion
+    );
+
+    // Changelog entries between the two versions
+    logger.line();
+    if (changelog.length === 0) {
+      logger.log(`  ${pc.dim('No changelog published for these versions')}`);
+    } else {
+      logger.log(`  ${pc.cyan('Changelog:')}`);
+      for (const entry of changelog) {
+        logger.log(`    ${pc.white(entry.version)}${entry.date !== undefined ? pc.dim(` (${entry.date})`) : ''}`);
+        for (const change of entry.changes) {
+          logger.log(`      ${pc.dim('-')} ${change}`);
+        }
+      }
+    }
+
+    // Diff against the installed file, local edits included
+    const fileName = downloaded.manifest.file;
+    const targetDir = getCognitiveDir(synapSyncDir, update.type, update.category, update.name);
+    const localFileName = (await detectCognitiveFile(targetDir))?.fileName ?? fileName;
+    const localPath = path.join(targetDir, localFileName);
+    const local = fs.existsSync(localPath) ? fs.readFileSync(localPath, 'utf-8') : '';
+    const diff = createUnifiedDiff(local, downloaded.content, {
+      from: `installed/${localFileName}`,
+      to: `v${update.latestVersion}/${fileName}`,
+    });
+
+    logger.line();
+    if (diff === '') {
+      logger.log(`  ${pc.dim(`No changes to ${fileName}`)}`);
+      return;
+    }
+    for (const line of diff.split('\n')) {
+      logger.log(`    ${colorizeDiffLine(line)}`);
+    }
+  } catch (error) {
+    logger.log(`  ${pc.red('✗')} Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function colorizeDiffLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return pc.bold(line);
+  if (line.startsWith('@@')) return pc.cyan(line);
+  if (line.startsWith('+')) return pc.green(line);
+  if (line.startsWith('-')) return pc.red(line);
+  return pc.dim(line);
+}
+
 // ============================================
 // Command Registration
 // ============================================
@@ -315,9 +744,14 @@ export function registerUpdateCommand(program: Command): void {
     .command('update [cognitive]')
     .description('Update installed cognitives to latest versions')
     .option('-a, --all', 'Update all cognitives')
-    .option('-f, --force', 'Force update even if already latest')
+    .option('-f, --force', 'Deprecated: has no effect')
     .option('-n, --dry-run', 'Preview updates without applying them')
     .option('--json', 'Output as JSON')
+    .option('--frozen-lockfile', `Fail instead of updating ${LOCK_FILE_NAME}`)
+    .option('-g, --global', 'Update cognitives in the user-level store')
+    .option('--theirs', 'Replace local edits with the new version')
+    .option('--ours', 'Keep locally edited files as they are')
+    .option('--major', 'Allow updates across major versions')
     .action(async (cognitive: string | undefined, options: UpdateCommandOptions) => {
       await executeUpdateCommand(cognitive, options);
     });
@@ -10,6 +10,10 @@
 export const COGNITIVE_TYPES = ['skill', 'agent', 'prompt', 'workflow', 'tool'] as const;
 export type CognitiveType = (typeof COGNITIVE_TYPES)[number];
 
+// Where an installed cognitive came from
+export const COGNITIVE_SOURCES = ['registry', 'local', 'github', 'git', 'url'] as const;
+export type CognitiveSource = (typeof COGNITIVE_SOURCES)[number];
+
 // File extensions per cognitive type (used for detection/scanning)
 export const COGNITIVE_FILE_EXTENSIONS: Record<CognitiveType, string> = {
   skill: '.md',
@@ -46,8 +50,16 @@ export const COGNITIVE_FILE_NAMES: Record<CognitiveType, string> = {
 export const DEFAULT_SYNAPSYNC_DIR = process.env['SYNAPSYNC_DIR'] ?? '.synapsync';
 export const MANIFEST_FILE_NAME = 'manifest.json';
 export const CONFIG_FILE_NAME = 'synapsync.config.yaml';
+export const GLOBAL_SYNAPSYNC_DIR = '.synapsync'; // user-level store, relative to the home directory
 export const LOCK_FILE_NAME = 'synapsync.lock';
 export const AGENTS_MD_FILE_NAME = 'AGENTS.md';
+export const CACHE_DIR_NAME = 'cache';
+export const TRANSACTION_DIR_NAME = '.transaction'; // journal and backups of an in-flight command
+export const BASE_DIR_NAME = '.base'; // pristine copies of installed cognitives, for three-way merges
+export const HISTORY_DIR_NAME = '.history'; // previous versions of updated cognitives, for rollback
+export const BACKUPS_DIR_NAME = '.backups'; // provider files sync moved aside with --backup
+export const LEDGER_FILE_NAME = 'managed-files.json'; // copies and rendered files sync wrote to providers
+export const DEFAULT_HISTORY_LIMIT = 3; // versions kept per cognitive
 
 // Legacy support (will be deprecated)
 export const DEFAULT_AGENTS_DIR = process.env['SYNAPSYNC_AGENTS_DIR'] ?? '.agents';
@@ -131,6 +143,26 @@ export const PROVIDER_PATHS: Record<SupportedProvider, Record<CognitiveType, str
   },
 };
 
+/**
+ * What a provider reads: the cognitive types it supports, how they reach it and
+ * whether its folder also holds files sync does not manage
+ */
+export interface ProviderCapabilities {
+  types: CognitiveType[]; // other types are not synced to the provider
+  format: 'link' | 'native'; // linked as they are, or rendered in the provider's own format
+  shared: boolean; // only symlinks into .synapsync and generated files are touched there
+}
+
+export const PROVIDER_CAPABILITIES: Record<SupportedProvider, ProviderCapabilities> = {
+  claude: { types: ['skill', 'agent', 'prompt'], format: 'link', shared: false },
+  openai: { types: ['skill', 'agent', 'prompt'], format: 'link', shared: false },
+  gemini: { types: ['skill', 'agent', 'prompt', 'tool'], format: 'native', shared: false },
+  cursor: { types: ['skill', 'agent', 'prompt', 'tool'], format: 'native', shared: false },
+  windsurf: { types: ['skill', 'agent', 'prompt', 'tool'], format: 'native', shared: false },
+  // .github also holds GitHub Actions (.github/workflows), templates and settings
+  copilot: { types: ['skill', 'agent', 'prompt', 'tool'], format: 'native', shared: true },
+};
+
 // ============================================
 // CLI Metadata
 // ============================================
@@ -144,8 +176,28 @@ export const CLI_DESCRIPTION =
 export const REGISTRY_BASE_URL =
   process.env['SYNAPSYNC_REGISTRY_URL'] ??
   'https://raw.githubusercontent.com/SynapSync/synapse-registry/main';
+export const DEFAULT_REGISTRY_NAME = 'synapsync';
 export const REGISTRY_INDEX_FILE = 'registry.json';
+export const REGISTRY_VERSIONS_FILE = 'versions.json';
 export const REGISTRY_MANIFEST_FILE = 'manifest.json';
+export const REGISTRY_CHANGELOG_FILE = 'CHANGELOG.md';
+export const REGISTRY_CACHE_SUBDIR = 'registry';
+
+// Set by the global --offline flag; serves registry data from cache only
+export const OFFLINE_ENV_VAR = 'SYNAPSYNC_OFFLINE';
+// Set by the global --verbose flag; enables debug output
+export const VERBOSE_ENV_VAR = 'SYNAPSYNC_VERBOSE';
+
+// Registry credentials live in the user's home, never in the project
+export const CREDENTIALS_FILE_NAME = 'credentials.json';
+export const CREDENTIALS_ENV_VAR = 'SYNAPSYNC_CREDENTIALS_FILE';
+
+// ============================================
+// GitHub Configuration
+// ============================================
+export const GITHUB_API_URL = process.env['SYNAPSYNC_GITHUB_API_URL'] ?? 'https://api.github.com';
+// Optional token for private repositories and higher rate limits
+export const GITHUB_TOKEN_ENV_VAR = 'GITHUB_TOKEN';
 
 // ============================================
 // ANSI Escape Codes
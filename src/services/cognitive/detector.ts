@@ -10,8 +10,9 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { COGNITIVE_TYPES, COGNITIVE_FILE_NAMES } from '../../core/constants.js';
+import { COGNITIVE_TYPES, COGNITIVE_FILE_NAMES, GITHUB_API_URL } from '../../core/constants.js';
 import type { CognitiveType } from '../../core/constants.js';
+import { parseRegistrySpecifier } from '../registry/client.js';
 import type {
   InstallSource,
   CognitiveDetectionResult,
@@ -29,11 +30,13 @@ import type {
  *
  * Supported formats:
  * - "code-reviewer" → registry
+ * - "code-reviewer@^1.2" → registry with version range
  * - "./local-path" or "/absolute/path" → local
  * - "github:owner/repo" → github
  * - "github:owner/repo/path/to/asset" → github with path
  * - "github:owner/repo#branch" → github with ref
  * - "https://github.com/owner/repo" → github (URL)
+ * - "git+https://host/repo.git#tag:subdir" → git (any remote)
  */
 export function parseInstallSource(source: string): InstallSource {
   const trimmed = source.trim();
@@ -46,6 +49,14 @@ export function parseInstallSource(source: string): InstallSource {
     };
   }
 
+  // Any git remote: git+ssh://, git+https://, git+file://
+  if (trimmed.startsWith('git+')) {
+    return {
+      type: 'git',
+      value: trimmed,
+    };
+  }
+
   // GitHub shorthand: github:owner/repo or github:owner/repo/path#ref
   if (trimmed.startsWith('github:')) {
     return parseGitHubSource(trimmed.slice(7));
@@ -64,11 +75,14 @@ export function parseInstallSource(source: string): InstallSource {
     };
   }
 
-  // Default: registry name
-  return {
+  // Default: registry name, optionally with @version or @range
+  const { name, version } = parseRegistrySpecifier(trimmed);
+  const result: InstallSource = {
     type: 'registry',
-    value: trimmed,
+    value: name,
   };
+  if (version !== undefined) result.version = version;
+  return result;
 }
 
 /**
@@ -231,7 +245,7 @@ export async function detectFromGitHub(source: InstallSource): Promise<FileDetec
     const basePath = source.path ?? '';
 
     // Build GitHub API URL for contents
-    const apiUrl = `https://api.github.com/repos/${source.owner}/${source.repo}/contents/${basePath}?ref=${ref}`;
+    const apiUrl = `${GITHUB_API_URL}/repos/${source.owner}/${source.repo}/contents/${basePath}?ref=${ref}`;
 
     const response = await fetch(apiUrl, {
       headers: {
@@ -318,6 +332,9 @@ export async function detectCognitiveType(
   options: InstallOptions = {}
 ): Promise<CognitiveDetectionResult> {
   const source = parseInstallSource(sourceString);
+  if (options.version !== undefined && source.type === 'registry') {
+    source.version = options.version;
+  }
 
   // Strategy 1: Check explicit flag
   const flagType = detectFromFlag(options);
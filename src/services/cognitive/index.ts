@@ -44,6 +44,7 @@ import { detectCognitiveType } from './detector.js';
 import { promptForCognitiveType, showDetectionResult } from './prompter.js';
 import type { InstallOptions, CognitiveType } from './types.js';
 import { logger } from '../../utils/logger.js';
+import { parseRegistrySpecifier } from '../registry/client.js';
 
 /**
  * Result of cognitive resolution
@@ -137,6 +138,6 @@ function extractCognitiveName(source: string): string {
     return pathParts[1]?.replace(/\.git$/, '') ?? '';
   }
 
-  // Registry name (possibly with version)
-  return trimmed.split('@')[0] ?? trimmed;
+  // Registry name (possibly scoped, possibly with version)
+  return parseRegistrySpecifier(trimmed).name;
 }
@@ -11,7 +11,7 @@ import type { CognitiveType, Category, SupportedProvider } from '../../core/cons
 /**
  * Types of installation sources
  */
-export type InstallSourceType = 'registry' | 'local' | 'github' | 'url';
+export type InstallSourceType = 'registry' | 'local' | 'github' | 'git' | 'url';
 
 /**
  * Parsed installation source
@@ -23,6 +23,7 @@ export interface InstallSource {
   repo?: string; // For GitHub: repo name
   path?: string; // For GitHub: path within repo
   ref?: string; // For GitHub: branch/tag/commit
+  version?: string; // For registry: exact version or semver range (name@^1.2)
 }
 
 // ============================================
@@ -95,7 +96,7 @@ export interface FileDetectionResult {
 export interface InstallOptions {
   type?: CognitiveType; // Explicit type from --type flag
   category?: Category; // Explicit category from --category flag
-  version?: string; // Specific version to install
+  version?: string; // Specific version or semver range to install
   global?: boolean; // Install globally
   force?: boolean; // Force reinstall
   skipDeps?: boolean; // Skip dependencies
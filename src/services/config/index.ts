@@ -10,12 +10,17 @@ export {
   type StorageConfig,
   type ProviderSyncConfig,
   type SyncConfig,
+  type RegistryConfig,
+  type GitHubConfig,
+  type UpdatePolicy,
   type ProjectConfig,
   type ValidationError,
   DEFAULT_CLI_CONFIG,
   DEFAULT_STORAGE_CONFIG,
   DEFAULT_SYNC_CONFIG,
+  UPDATE_POLICIES,
   createDefaultConfig,
+  getProviderPaths,
   validateConfig,
   getNestedValue,
   setNestedValue,
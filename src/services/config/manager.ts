@@ -5,9 +5,10 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { CONFIG_FILE_NAME, DEFAULT_SYNAPSYNC_DIR } from '../../core/constants.js';
+import { CONFIG_FILE_NAME, DEFAULT_SYNAPSYNC_DIR, GLOBAL_SYNAPSYNC_DIR } from '../../core/constants.js';
 import {
   type ProjectConfig,
   createDefaultConfig,
@@ -25,6 +26,7 @@ export class ConfigManager {
   private config: ProjectConfig | null = null;
   private configPath: string;
   private projectRoot: string;
+  private global = false;
 
   constructor(projectRoot?: string) {
     this.projectRoot = projectRoot ?? process.cwd();
@@ -54,6 +56,25 @@ export class ConfigManager {
     return null;
   }
 
+  /**
+   * Get the user-level config shared across projects
+   * Its store is ~/.synapsync and providers sync into the home directory (~/.claude/skills).
+   * The config is created in memory when missing and written on the first save.
+   */
+  static findGlobalConfig(homeDir?: string): ConfigManager {
+    const home = homeDir ?? os.homedir();
+    const manager = new ConfigManager(home);
+    manager.configPath = path.join(home, GLOBAL_SYNAPSYNC_DIR, CONFIG_FILE_NAME);
+    manager.global = true;
+
+    if (manager.exists()) {
+      manager.load();
+    } else {
+      manager.create('global', 'User-level cognitives shared across projects');
+    }
+    return manager;
+  }
+
   /**
    * Check if a project is initialized in the given directory
    */
@@ -110,6 +131,10 @@ export class ConfigManager {
       lineWidth: 100,
     });
 
+    if (this.global) {
+      fs.mkdirSync(path.dirname(this.configPath), { recursive: true });
+    }
+
     fs.writeFileSync(this.configPath, content, 'utf-8');
   }
 
@@ -138,10 +163,29 @@ export class ConfigManager {
     return this.projectRoot;
   }
 
+  /**
+   * Check if this is the user-level config
+   */
+  isGlobal(): boolean {
+    return this.global;
+  }
+
+  /**
+   * Get the directory holding synapsync.lock
+   * The global store keeps it next to its manifest instead of in the home directory
+   */
+  getLockfileDir(): string {
+    return this.global ? this.getSynapSyncDir() : this.projectRoot;
+  }
+
   /**
    * Get synapsync directory path
    */
   getSynapSyncDir(): string {
+    if (this.global) {
+      return path.dirname(this.configPath);
+    }
+
     const dir = this.config?.storage?.dir ?? DEFAULT_SYNAPSYNC_DIR;
     return path.isAbsolute(dir) ? dir : path.join(this.projectRoot, dir);
   }
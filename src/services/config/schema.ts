@@ -17,6 +17,7 @@ export interface CLIConfig {
 
 export interface StorageConfig {
   dir: string;
+  history?: number; // previous versions kept per cognitive for rollback (0 keeps none)
 }
 
 export interface ProviderSyncConfig {
@@ -29,6 +30,25 @@ export interface SyncConfig {
   providers: Partial<Record<SupportedProvider, ProviderSyncConfig>>;
 }
 
+export interface RegistryConfig {
+  name: string;
+  url: string;
+  priority?: number; // higher wins when a name exists in several registries
+  scopes?: string[]; // e.g. ['@acme'] - only serves cognitives in these scopes
+}
+
+/**
+ * How far update may take a cognitive
+ * pinned: never, hold: only when named, major/minor/patch: the largest version change allowed
+ */
+export type UpdatePolicy = 'pinned' | 'hold' | 'major' | 'minor' | 'patch';
+
+export const UPDATE_POLICIES: UpdatePolicy[] = ['pinned', 'hold', 'major', 'minor', 'patch'];
+
+export interface GitHubConfig {
+  apiUrl?: string; // GitHub API base URL, e.g. for GitHub Enterprise
+}
+
 export interface ProjectConfig {
   name: string;
   description?: string;
@@ -36,6 +56,9 @@ export interface ProjectConfig {
   cli: CLIConfig;
   storage: StorageConfig;
   sync: SyncConfig;
+  registries?: RegistryConfig[];
+  github?: GitHubConfig;
+  updates?: Record<string, UpdatePolicy>; // update policy per cognitive name
 }
 
 // ============================================
@@ -87,6 +110,17 @@ export function createDefaultConfig(name: string, description?: string): Project
   return config;
 }
 
+/**
+ * Folder a provider syncs each cognitive type to: custom paths from the config over the defaults
+ * Relative paths are relative to the project root
+ */
+export function getProviderPaths(
+  provider: SupportedProvider,
+  config?: ProjectConfig | null
+): Record<CognitiveType, string> {
+  return { ...PROVIDER_PATHS[provider], ...config?.sync?.providers?.[provider]?.paths };
+}
+
 // ============================================
 // Validation
 // ============================================
@@ -123,6 +157,18 @@ export function validateConfig(config: unknown): ValidationError[] {
     }
   }
 
+  // Storage config validation
+  if (cfg['storage'] !== undefined) {
+    if (typeof cfg['storage'] !== 'object' || cfg['storage'] === null) {
+      errors.push({ path: 'storage', message: 'storage must be an object' });
+    } else {
+      const history = (cfg['storage'] as Record<string, unknown>)['history'];
+      if (history !== undefined && (!Number.isInteger(history) || (history as number) < 0)) {
+        errors.push({ path: 'storage.history', message: 'history must be a whole number of versions' });
+      }
+    }
+  }
+
   // Sync config validation
   if (cfg['sync'] !== undefined) {
     if (typeof cfg['sync'] !== 'object' || cfg['sync'] === null) {
@@ -148,6 +194,20 @@ export function validateConfig(config: unknown): ValidationError[] {
             }
             if (typeof value !== 'object' || value === null) {
               errors.push({ path: `sync.providers.${key}`, message: 'Provider config must be an object' });
+              continue;
+            }
+            const paths = (value as Record<string, unknown>)['paths'];
+            if (paths !== undefined && (typeof paths !== 'object' || paths === null)) {
+              errors.push({ path: `sync.providers.${key}.paths`, message: 'paths must map cognitive types to folders' });
+            } else if (paths !== undefined) {
+              for (const [type, typePath] of Object.entries(paths as Record<string, unknown>)) {
+                if (typeof typePath !== 'string' || typePath.trim() === '') {
+                  errors.push({
+                    path: `sync.providers.${key}.paths.${type}`,
+                    message: 'Provider path must be a non-empty string',
+                  });
+                }
+              }
             }
           }
         }
@@ -155,6 +215,89 @@ export function validateConfig(config: unknown): ValidationError[] {
     }
   }
 
+  // Registries validation
+  if (cfg['registries'] !== undefined) {
+    if (!Array.isArray(cfg['registries'])) {
+      errors.push({ path: 'registries', message: 'registries must be a list' });
+    } else {
+      const names = new Set<string>();
+      (cfg['registries'] as unknown[]).forEach((value, i) => {
+        errors.push(...validateRegistry(value, `registries.${i}`, names));
+      });
+    }
+  }
+
+  // Update policies validation
+  if (cfg['updates'] !== undefined) {
+    if (typeof cfg['updates'] !== 'object' || cfg['updates'] === null || Array.isArray(cfg['updates'])) {
+      errors.push({ path: 'updates', message: 'updates must map cognitive names to policies' });
+    } else {
+      for (const [name, policy] of Object.entries(cfg['updates'] as Record<string, unknown>)) {
+        if (!UPDATE_POLICIES.includes(policy as UpdatePolicy)) {
+          errors.push({
+            path: `updates.${name}`,
+            message: `Unknown update policy: ${String(policy)}. Supported: ${UPDATE_POLICIES.join(', ')}`,
+          });
+        }
+      }
+    }
+  }
+
+  // GitHub config validation
+  if (cfg['github'] !== undefined) {
+    if (typeof cfg['github'] !== 'object' || cfg['github'] === null) {
+      errors.push({ path: 'github', message: 'github must be an object' });
+    } else {
+      const apiUrl = (cfg['github'] as Record<string, unknown>)['apiUrl'];
+      if (apiUrl !== undefined && (typeof apiUrl !== 'string' || !/^https?:\/\//.test(apiUrl))) {
+        errors.push({ path: 'github.apiUrl', message: 'apiUrl must be an http(s) URL' });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateRegistry(value: unknown, path: string, names: Set<string>): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof value !== 'object' || value === null) {
+    errors.push({ path, message: 'Registry config must be an object' });
+    return errors;
+  }
+
+  const registry = value as Record<string, unknown>;
+  const name = registry['name'];
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    errors.push({ path: `${path}.name`, message: 'Registry name is required' });
+  } else if (names.has(name)) {
+    errors.push({ path: `${path}.name`, message: `Duplicate registry name: ${name}` });
+  } else {
+    names.add(name);
+  }
+
+  if (typeof registry['url'] !== 'string' || !/^(https?|file):\/\//.test(registry['url'])) {
+    errors.push({ path: `${path}.url`, message: 'Registry url must be an http(s) or file URL' });
+  }
+
+  if (registry['priority'] !== undefined && typeof registry['priority'] !== 'number') {
+    errors.push({ path: `${path}.priority`, message: 'priority must be a number' });
+  }
+
+  if (registry['scopes'] !== undefined) {
+    const scopes = registry['scopes'];
+    if (
+      !Array.isArray(scopes) ||
+      !scopes.every((s) => typeof s === 'string' && /^@[a-z0-9][a-z0-9-._]*$/.test(s))
+    ) {
+      errors.push({
+        path: `${path}.scopes`,
+        message: 'scopes must be a list of scope names like @acme',
+      });
+    }
+  }
+
   return errors;
 }
 
@@ -0,0 +1,6 @@
+/**
+ * Dependencies service exports
+ */
+
+export * from './resolver.js';
+export * from './types.js';
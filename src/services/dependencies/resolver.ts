@@ -0,0 +1,139 @@
+/**
+ * Dependency Resolver
+ *
+ * Resolves the dependencies of a cognitive recursively before anything is
+ * installed, detecting cycles and version conflicts
+ */
+
+import type { CognitiveDependency, CognitiveManifest } from '../../types/index.js';
+import { parseRegistrySpecifier } from '../registry/client.js';
+import { isValidRange, satisfies } from '../../utils/semver.js';
+import type { ResolvedDependency, ResolveOptions } from './types.js';
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Resolve every dependency of a cognitive that is not installed yet
+ * Dependencies come before the cognitives that need them
+ */
+export async function resolveDependencies<T extends { manifest: CognitiveManifest }>(
+  root: CognitiveManifest,
+  options: ResolveOptions<T>
+): Promise<ResolvedDependency<T>[]> {
+  const resolved = new Map<string, ResolvedDependency<T>>();
+  const order: ResolvedDependency<T>[] = [];
+
+  const visit = async (manifest: CognitiveManifest, chain: string[]): Promise<void> => {
+    for (const dependency of manifest.dependencies ?? []) {
+      const { name, version: range } = dependency;
+
+      if (chain.includes(name)) {
+        throw new DependencyCycleError([...chain.slice(chain.indexOf(name)), name]);
+      }
+
+      // Already picked during this resolution
+      const existing = resolved.get(name);
+      if (existing !== undefined) {
+        if (!satisfies(existing.payload.manifest.version, range)) {
+          throw new DependencyConflictError(
+            name,
+            range,
+            manifest.name,
+            existing.payload.manifest.version,
+            existing.requiredBy
+          );
+        }
+        continue;
+      }
+
+      // Already installed in the project
+      const installedVersion = options.installed.get(name);
+      if (installedVersion !== undefined) {
+        if (!satisfies(installedVersion, range)) {
+          throw new DependencyConflictError(name, range, manifest.name, installedVersion);
+        }
+        continue;
+      }
+
+      const payload = await options.fetch(dependency);
+      const entry: ResolvedDependency<T> = { name, range, requiredBy: manifest.name, payload };
+      resolved.set(name, entry);
+
+      await visit(payload.manifest, [...chain, name]);
+      order.push(entry);
+    }
+  };
+
+  await visit(root, [root.name]);
+  return order;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Normalize declared dependencies
+ * Accepts name@range strings (frontmatter), {name, version} objects,
+ * or a name -> range map (registry manifests)
+ */
+export function parseDependencies(value: unknown): CognitiveDependency[] {
+  const dependencies: CognitiveDependency[] = [];
+
+  const add = (name: string, version: string | undefined): void => {
+    const range = version === undefined || version === '' || version === 'latest' ? '*' : version;
+    if (name === '' || !isValidRange(range)) {
+      throw new Error(`Invalid dependency: ${version !== undefined ? `${name}@${version}` : name}`);
+    }
+    dependencies.push({ name, version: range });
+  };
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (typeof item === 'string') {
+        const { name, version } = parseRegistrySpecifier(item.trim());
+        add(name, version);
+      } else if (typeof item === 'object' && item !== null && typeof (item as CognitiveDependency).name === 'string') {
+        const { name, version } = item as Partial<CognitiveDependency> & { name: string };
+        add(name, typeof version === 'string' ? version : undefined);
+      }
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [name, version] of Object.entries(value as Record<string, unknown>)) {
+      add(name, typeof version === 'string' ? version : undefined);
+    }
+  }
+
+  return dependencies;
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class DependencyCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Dependency cycle: ${cycle.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+export class DependencyConflictError extends Error {
+  constructor(
+    public dependencyName: string,
+    public range: string,
+    public requiredBy: string,
+    public version: string,
+    public conflictsWith?: string // cognitive that picked the version; installed when undefined
+  ) {
+    super(
+      `${requiredBy} requires ${dependencyName}@${range}, but ` +
+        (conflictsWith !== undefined
+          ? `${dependencyName}@${version} was resolved for ${conflictsWith}`
+          : `${dependencyName}@${version} is installed`)
+    );
+    this.name = 'DependencyConflictError';
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Dependency Types
+ */
+
+import type { CognitiveDependency, CognitiveManifest } from '../../types/index.js';
+
+/**
+ * A dependency that has to be installed, with the payload fetched for it
+ */
+export interface ResolvedDependency<T extends { manifest: CognitiveManifest }> {
+  name: string;
+  range: string; // range that was asked for
+  requiredBy: string; // cognitive that first asked for it
+  payload: T;
+}
+
+/**
+ * How the resolver fetches dependencies and sees what is installed
+ */
+export interface ResolveOptions<T extends { manifest: CognitiveManifest }> {
+  fetch: (dependency: CognitiveDependency) => Promise<T>;
+  installed: Map<string, string>; // installed cognitive name -> version
+}
@@ -0,0 +1,158 @@
+/**
+ * Git Client
+ *
+ * Shallow-fetches refs from any git remote using the system git
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { isOfflineMode } from '../registry/client.js';
+import { logger } from '../../utils/logger.js';
+import type { GitSource } from './types.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface GitClientOptions {
+  binary?: string; // git executable (default: git on PATH)
+  offline?: boolean; // only file:// remotes are allowed
+}
+
+// A locked commit is a full SHA, never a ref or an option
+const COMMIT_PATTERN = /^[0-9a-f]{40}$/i;
+
+// ============================================
+// GitClient Class
+// ============================================
+
+export class GitClient {
+  private binary: string;
+  private offline: boolean;
+
+  constructor(options: GitClientOptions = {}) {
+    this.binary = options.binary ?? 'git';
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Check out a source's ref (or an exact commit) into an empty folder
+   * Returns the full commit SHA that was checked out
+   */
+  async checkout(source: GitSource, destDir: string, commit?: string): Promise<string> {
+    if (this.offline && !source.remote.startsWith('file://')) {
+      throw new GitError(`Offline mode: cannot fetch from ${source.remote}`);
+    }
+    if (commit !== undefined && !COMMIT_PATTERN.test(commit)) {
+      throw new GitError(`Invalid commit: ${commit}`);
+    }
+
+    const ref = source.ref ?? 'HEAD';
+    await this.git(['init', '--quiet', destDir]);
+
+    if (commit === undefined) {
+      await this.git(['fetch', '--quiet', '--depth', '1', '--', source.remote, ref], destDir);
+      await this.git(['checkout', '--quiet', 'FETCH_HEAD', '--'], destDir);
+    } else {
+      try {
+        await this.git(['fetch', '--quiet', '--depth', '1', '--', source.remote, commit], destDir);
+      } catch {
+        // Some servers refuse to serve a commit directly; fetch the ref's history instead
+        await this.git(['fetch', '--quiet', '--', source.remote, ref], destDir);
+      }
+      await this.git(['checkout', '--quiet', commit, '--'], destDir);
+    }
+
+    return (await this.git(['rev-parse', 'HEAD'], destDir)).trim();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private git(args: string[], cwd?: string): Promise<string> {
+    logger.debug(`${this.binary} ${args.join(' ')}`);
+
+    const options = {
+      ...(cwd !== undefined && { cwd }),
+      // Never block on a credential prompt
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    };
+
+    return new Promise((resolve, reject) => {
+      execFile(this.binary, args, options, (error, stdout, stderr) => {
+        if (error === null) {
+          resolve(stdout);
+        } else if ((error as Error & { code?: unknown }).code === 'ENOENT') {
+          reject(new GitError('git is not installed or not on PATH'));
+        } else {
+          const detail = stderr.trim().split('\n')[0] ?? '';
+          reject(new GitError(`git ${args[0] ?? ''} failed${detail !== '' ? `: ${detail}` : ''}`));
+        }
+      });
+    });
+  }
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Parse git+<url>[#ref][:subdir]
+ * git+ssh://git@host/repo.git, git+https://host/repo.git#v1.0.0,
+ * git+file:///path/repo#branch:skills/review
+ * Returns null for anything else
+ */
+export function parseGitSource(spec: string): GitSource | null {
+  if (!spec.startsWith('git+')) return null;
+
+  const hashIndex = spec.indexOf('#');
+  const remote = hashIndex === -1 ? spec.slice(4) : spec.slice(4, hashIndex);
+  if (!/^(ssh|https?|git|file):\/\/./.test(remote)) return null;
+
+  const source: GitSource = { remote };
+  if (hashIndex !== -1) {
+    const fragment = spec.slice(hashIndex + 1);
+    const colonIndex = fragment.indexOf(':');
+    const ref = colonIndex === -1 ? fragment : fragment.slice(0, colonIndex);
+    const subdir = colonIndex === -1 ? '' : fragment.slice(colonIndex + 1).replace(/^\/+|\/+$/g, '');
+    if (ref !== '') source.ref = ref;
+    if (subdir !== '') source.subdir = subdir;
+  }
+  return source;
+}
+
+/**
+ * Format a source back into git+<url>[#ref][:subdir] form
+ */
+export function formatGitSource(source: GitSource, ref = source.ref): string {
+  const subdir = source.subdir !== undefined ? `:${source.subdir}` : '';
+  const fragment = `${ref ?? ''}${subdir}`;
+  return `git+${source.remote}${fragment !== '' ? `#${fragment}` : ''}`;
+}
+
+/**
+ * Default cognitive name for a source: its folder, or the repository name
+ */
+export function getGitSourceName(source: GitSource): string {
+  return path.posix.basename(source.subdir ?? source.remote.replace(/\/+$/, '').replace(/\.git$/, ''));
+}
+
+/**
+ * Create a git client honoring the global --offline flag
+ */
+export function createGitClient(): GitClient {
+  return new GitClient({ offline: isOfflineMode() });
+}
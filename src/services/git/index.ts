@@ -0,0 +1,6 @@
+/**
+ * Git service exports
+ */
+
+export * from './client.js';
+export * from './types.js';
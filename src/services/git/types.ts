@@ -0,0 +1,12 @@
+/**
+ * Git Types
+ */
+
+/**
+ * A cognitive folder in a git repository
+ */
+export interface GitSource {
+  remote: string; // URL handed to git (ssh://, https://, file://)
+  ref?: string; // branch, tag or commit (default: the remote's HEAD)
+  subdir?: string; // folder within the repo (default: repo root)
+}
@@ -0,0 +1,200 @@
+/**
+ * GitHub Client
+ *
+ * Resolves refs to commits and downloads repository archives
+ * through the GitHub REST API
+ */
+
+import { GITHUB_API_URL, GITHUB_TOKEN_ENV_VAR } from '../../core/constants.js';
+import { isOfflineMode } from '../registry/client.js';
+import { parseInstallSource } from '../cognitive/detector.js';
+import { redactHeaders } from '../registry/credentials.js';
+import { logger } from '../../utils/logger.js';
+import type { ProjectConfig } from '../config/schema.js';
+import type { GitHubSource } from './types.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface GitHubClientOptions {
+  apiUrl?: string;
+  token?: string;
+  offline?: boolean;
+}
+
+// ============================================
+// GitHubClient Class
+// ============================================
+
+export class GitHubClient {
+  private apiUrl: string;
+  private token: string | undefined;
+  private offline: boolean;
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? GITHUB_API_URL).replace(/\/+$/, '');
+    this.token = options.token;
+    this.offline = options.offline ?? false;
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a full commit SHA
+   */
+  async resolveCommit(source: GitHubSource): Promise<string> {
+    const ref = source.ref ?? 'HEAD';
+    const url = `${this.getRepoUrl(source)}/commits/${encodeURIComponent(ref)}`;
+    const response = await this.fetch(url, 'application/vnd.github.sha');
+
+    if (response.status === 404 || response.status === 422) {
+      throw new GitHubError(`Ref '${ref}' not found in ${source.owner}/${source.repo}`, url, response.status);
+    }
+    if (!response.ok) {
+      throw this.responseError(response, url, `resolve ${source.owner}/${source.repo}#${ref}`);
+    }
+
+    const sha = (await response.text()).trim();
+    if (!/^[0-9a-f]{40}$/.test(sha)) {
+      throw new GitHubError(`Unexpected commit response for ${source.owner}/${source.repo}#${ref}`, url);
+    }
+
+    return sha;
+  }
+
+  /**
+   * Download the tar.gz archive of a repository at a commit
+   */
+  async downloadArchive(source: GitHubSource, commit: string): Promise<Buffer> {
+    const url = `${this.getRepoUrl(source)}/tarball/${commit}`;
+    const response = await this.fetch(url, 'application/vnd.github+json');
+
+    if (!response.ok) {
+      throw this.responseError(response, url, `download ${source.owner}/${source.repo}@${commit.slice(0, 7)}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Get the API base URL
+   */
+  getApiUrl(): string {
+    return this.apiUrl;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private getRepoUrl(source: GitHubSource): string {
+    return `${this.apiUrl}/repos/${encodeURIComponent(source.owner)}/${encodeURIComponent(source.repo)}`;
+  }
+
+  private responseError(response: Response, url: string, action: string): GitHubError {
+    if (response.status === 401 || response.status === 403) {
+      return new GitHubError(
+        `Failed to ${action}: access denied (set ${GITHUB_TOKEN_ENV_VAR} for private repositories)`,
+        url,
+        response.status
+      );
+    }
+    return new GitHubError(`Failed to ${action}: ${response.status} ${response.statusText}`, url, response.status);
+  }
+
+  private async fetch(url: string, accept: string): Promise<Response> {
+    if (this.offline) {
+      throw new GitHubError('Offline mode: GitHub sources need network access', url);
+    }
+
+    const headers: Record<string, string> = {
+      Accept: accept,
+      'User-Agent': 'SynapSync-CLI',
+    };
+    if (this.token !== undefined && this.token !== '') {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    logger.debug(`GET ${url} ${JSON.stringify(redactHeaders(headers))}`);
+
+    try {
+      return await fetch(url, { headers });
+    } catch (error) {
+      throw new GitHubError(`Network error: ${error instanceof Error ? error.message : 'unknown'}`, url);
+    }
+  }
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class GitHubError extends Error {
+  constructor(
+    message: string,
+    public url: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'GitHubError';
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Parse github:owner/repo[/path][#ref] or a github.com URL
+ * Returns null for anything else
+ */
+export function parseGitHubSource(spec: string): GitHubSource | null {
+  const parsed = parseInstallSource(spec);
+  if (parsed.type !== 'github' || parsed.owner === undefined || parsed.repo === undefined) {
+    return null;
+  }
+
+  const source: GitHubSource = { owner: parsed.owner, repo: parsed.repo };
+  if (parsed.path !== undefined) source.path = parsed.path;
+  if (parsed.ref !== undefined && parsed.ref !== '') source.ref = parsed.ref;
+  return source;
+}
+
+/**
+ * Format a source back into github:owner/repo[/path][#ref] form
+ */
+export function formatGitHubSource(source: GitHubSource, ref = source.ref): string {
+  const repoPath = [source.owner, source.repo, source.path].filter((p) => p !== undefined && p !== '').join('/');
+  return `github:${repoPath}${ref !== undefined ? `#${ref}` : ''}`;
+}
+
+/**
+ * Get the github.com URL of a source folder
+ */
+export function getGitHubWebUrl(source: GitHubSource, ref = source.ref): string {
+  const repoUrl = `https://github.com/${source.owner}/${source.repo}`;
+  if (source.path === undefined) {
+    return ref !== undefined ? `${repoUrl}/tree/${ref}` : repoUrl;
+  }
+  return `${repoUrl}/tree/${ref ?? 'HEAD'}/${source.path}`;
+}
+
+/**
+ * Create a GitHub client from project config and environment
+ */
+export function createGitHubClient(config?: ProjectConfig): GitHubClient {
+  const options: GitHubClientOptions = {
+    offline: isOfflineMode(),
+  };
+
+  const apiUrl = config?.github?.apiUrl;
+  if (apiUrl !== undefined) {
+    options.apiUrl = apiUrl;
+  }
+
+  const token = process.env[GITHUB_TOKEN_ENV_VAR];
+  if (token !== undefined) {
+    options.token = token;
+  }
+
+  return new GitHubClient(options);
+}
@@ -0,0 +1,6 @@
+/**
+ * GitHub service exports
+ */
+
+export * from './client.js';
+export * from './types.js';
@@ -0,0 +1,13 @@
+/**
+ * GitHub Types
+ */
+
+/**
+ * A cognitive folder in a GitHub repository
+ */
+export interface GitHubSource {
+  owner: string;
+  repo: string;
+  path?: string; // folder within the repo (default: repo root)
+  ref?: string; // branch, tag or commit (default: the repo's default branch)
+}
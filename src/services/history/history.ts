@@ -0,0 +1,256 @@
+/**
+ * History Manager
+ *
+ * Keeps the previous versions of updated cognitives in .synapsync/.history/,
+ * so an update can be rolled back to any of them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBaseDir, getCognitiveDir } from '../installer/installer.js';
+import type { Transaction } from '../transaction/transaction.js';
+import type { ManifestCognitive } from '../manifest/types.js';
+import type { LockedCognitive } from '../lockfile/types.js';
+import type { ProjectConfig } from '../config/schema.js';
+import { DEFAULT_HISTORY_LIMIT, HISTORY_DIR_NAME } from '../../core/constants.js';
+import type { HistoryEntry, HistorySnapshot } from './types.js';
+
+const ENTRY_FILE = 'entry.json';
+const FILES_DIR = 'files';
+const BASE_DIR = 'base';
+
+type CognitiveRef = Pick<ManifestCognitive, 'name' | 'type' | 'category'>;
+
+export class HistoryManager {
+  private synapSyncDir: string;
+  private historyDir: string;
+  private transaction: Transaction | null;
+
+  constructor(synapSyncDir: string, transaction?: Transaction) {
+    this.synapSyncDir = synapSyncDir;
+    this.historyDir = path.join(synapSyncDir, HISTORY_DIR_NAME);
+    this.transaction = transaction ?? null;
+  }
+
+  // ============================================
+  // Saving
+  // ============================================
+
+  /**
+   * Keep the installed version of a cognitive before it is replaced
+   * Saving the same version again replaces it; the oldest versions beyond the limit are dropped
+   */
+  save(cognitive: ManifestCognitive, lock: LockedCognitive | undefined, limit: number): void {
+    const cognitiveDir = getCognitiveDir(
+      this.synapSyncDir,
+      cognitive.type,
+      cognitive.category,
+      cognitive.name
+    );
+    if (limit <= 0 || !fs.existsSync(cognitiveDir)) {
+      return;
+    }
+
+    const baseDir = getBaseDir(
+      this.synapSyncDir,
+      cognitive.type,
+      cognitive.category,
+      cognitive.name
+    );
+    const entry: HistoryEntry = {
+      version: cognitive.version,
+      savedAt: new Date().toISOString(),
+      cognitive,
+      ...(lock !== undefined && { lock }),
+    };
+
+    this.write(path.join(this.getDir(cognitive), cognitive.version), (dir) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.cpSync(cognitiveDir, path.join(dir, FILES_DIR), {
+        recursive: true,
+        verbatimSymlinks: true,
+      });
+      if (fs.existsSync(baseDir)) {
+        fs.cpSync(baseDir, path.join(dir, BASE_DIR), { recursive: true });
+      }
+      fs.writeFileSync(path.join(dir, ENTRY_FILE), JSON.stringify(entry, null, 2) + '\n', 'utf-8');
+    });
+
+    this.prune(cognitive, limit);
+  }
+
+  /**
+   * Drop the oldest versions of a cognitive beyond the limit
+   * Returns the versions removed
+   */
+  prune(cognitive: CognitiveRef, limit: number): string[] {
+    const removed = this.list(cognitive).slice(Math.max(limit, 0));
+    for (const snapshot of removed) {
+      this.remove(snapshot);
+    }
+    this.removeEmptyDirs(cognitive);
+    return removed.map((snapshot) => snapshot.version);
+  }
+
+  // ============================================
+  // Reading
+  // ============================================
+
+  /**
+   * Previous versions of a cognitive, most recently replaced first
+   */
+  list(cognitive: CognitiveRef): HistorySnapshot[] {
+    const cognitiveHistoryDir = this.getDir(cognitive);
+    if (!fs.existsSync(cognitiveHistoryDir)) {
+      return [];
+    }
+
+    const snapshots: HistorySnapshot[] = [];
+    for (const version of fs.readdirSync(cognitiveHistoryDir)) {
+      const snapshot = this.read(path.join(cognitiveHistoryDir, version));
+      if (snapshot !== null) {
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * A previous version of a cognitive, or the most recently replaced one
+   */
+  find(cognitive: CognitiveRef, version?: string): HistorySnapshot | undefined {
+    const snapshots = this.list(cognitive);
+    return version === undefined ? snapshots[0] : snapshots.find((s) => s.version === version);
+  }
+
+  /**
+   * Every kept version, for clean
+   */
+  listAll(): HistorySnapshot[] {
+    return listEntryDirs(this.historyDir)
+      .map((dir) => this.read(dir))
+      .filter((snapshot): snapshot is HistorySnapshot => snapshot !== null);
+  }
+
+  // ============================================
+  // Restoring
+  // ============================================
+
+  /**
+   * Put a previous version's files and merge base back in place, and drop it from the history
+   */
+  restore(snapshot: HistorySnapshot): void {
+    const { type, category, name } = snapshot.cognitive;
+    const filesDir = path.join(snapshot.dir, FILES_DIR);
+    const baseDir = path.join(snapshot.dir, BASE_DIR);
+
+    this.write(getCognitiveDir(this.synapSyncDir, type, category, name), (dir) => {
+      fs.cpSync(filesDir, dir, { recursive: true, verbatimSymlinks: true });
+    });
+
+    const targetBaseDir = getBaseDir(this.synapSyncDir, type, category, name);
+    if (fs.existsSync(baseDir)) {
+      this.write(targetBaseDir, (dir) => fs.cpSync(baseDir, dir, { recursive: true }));
+    } else {
+      this.transaction?.track(targetBaseDir);
+      fs.rmSync(targetBaseDir, { recursive: true, force: true });
+    }
+
+    this.remove(snapshot);
+    this.removeEmptyDirs(snapshot.cognitive);
+  }
+
+  /**
+   * Drop every kept version of a cognitive, on uninstall
+   */
+  removeAll(cognitive: CognitiveRef): void {
+    const cognitiveHistoryDir = this.getDir(cognitive);
+    if (!fs.existsSync(cognitiveHistoryDir)) {
+      return;
+    }
+    this.transaction?.track(cognitiveHistoryDir);
+    fs.rmSync(cognitiveHistoryDir, { recursive: true, force: true });
+    this.removeEmptyDirs(cognitive);
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Folder holding the previous versions of a cognitive
+   */
+  getDir(cognitive: CognitiveRef): string {
+    return getCognitiveDir(this.historyDir, cognitive.type, cognitive.category, cognitive.name);
+  }
+
+  private read(dir: string): HistorySnapshot | null {
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(path.join(dir, ENTRY_FILE), 'utf-8')
+      ) as HistoryEntry;
+      return typeof entry.version === 'string' && typeof entry.savedAt === 'string'
+        ? { ...entry, dir }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a folder, staged through the transaction when there is one
+   */
+  private write(target: string, write: (dir: string) => void): void {
+    if (this.transaction !== null) {
+      this.transaction.stage(target, write);
+      return;
+    }
+    fs.rmSync(target, { recursive: true, force: true });
+    write(target);
+  }
+
+  private remove(snapshot: HistorySnapshot): void {
+    this.transaction?.track(snapshot.dir);
+    fs.rmSync(snapshot.dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Remove the cognitive and scope folders left empty in the history
+   */
+  private removeEmptyDirs(cognitive: CognitiveRef): void {
+    let dir = this.getDir(cognitive);
+    while (dir.startsWith(this.historyDir + path.sep)) {
+      try {
+        fs.rmdirSync(dir);
+      } catch {
+        return;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+}
+
+/**
+ * Versions kept per cognitive, from storage.history in the config
+ */
+export function getHistoryLimit(config: ProjectConfig): number {
+  return config.storage.history ?? DEFAULT_HISTORY_LIMIT;
+}
+
+/**
+ * Folders holding an entry.json below a folder
+ */
+function listEntryDirs(dir: string): string[] {
+  if (fs.existsSync(path.join(dir, ENTRY_FILE))) {
+    return [dir];
+  }
+
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .flatMap((entry) => listEntryDirs(path.join(dir, entry.name)));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * History service exports
+ */
+
+export * from './history.js';
+export * from './types.js';
@@ -0,0 +1,25 @@
+/**
+ * History Types
+ *
+ * Type definitions for the previous versions kept for rollback
+ */
+
+import type { ManifestCognitive } from '../manifest/types.js';
+import type { LockedCognitive } from '../lockfile/types.js';
+
+/**
+ * A previous version of a cognitive (entry.json in its history folder)
+ */
+export interface HistoryEntry {
+  version: string;
+  savedAt: string; // when the version was replaced
+  cognitive: ManifestCognitive; // manifest entry of the version
+  lock?: LockedCognitive; // lockfile entry of the version, when there was one
+}
+
+/**
+ * A history entry and the folder holding its files
+ */
+export interface HistorySnapshot extends HistoryEntry {
+  dir: string;
+}
@@ -11,3 +11,13 @@ export * from './sync/index.js';
 export * from './symlink/index.js';
 export * from './maintenance/index.js';
 export * from './agents-md/index.js';
+export * from './lockfile/index.js';
+export * from './installer/index.js';
+export * from './github/index.js';
+export * from './git/index.js';
+export * from './dependencies/index.js';
+export * from './transaction/index.js';
+export * from './merge/index.js';
+export * from './history/index.js';
+export * from './transformer/index.js';
+export * from './ledger/index.js';
@@ -0,0 +1,393 @@
+/**
+ * Archive Extraction
+ *
+ * Minimal readers for tar (optionally gzipped) and zip archives with
+ * extraction that never writes outside the destination folder
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ArchiveEntry {
+  path: string; // as stored in the archive, '/' separated
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  mode: number;
+  content: Buffer;
+}
+
+export interface ExtractOptions {
+  strip?: number; // leading path segments to drop (e.g. GitHub's <repo>-<sha>/ folder)
+  subdir?: string; // only extract entries under this folder, relative to it
+}
+
+export interface ReadTarOptions {
+  select?: ExtractOptions; // keep only the entries extracting with these options writes
+  maxArchiveSize?: number; // most the whole archive may decompress to (default: MAX_EXTRACTED_SIZE)
+}
+
+const BLOCK_SIZE = 512;
+
+// Most an archive may hold once decompressed, so a small download cannot exhaust memory
+export const MAX_EXTRACTED_SIZE = 64 * 1024 * 1024;
+
+// Most a whole repository archive may decompress to; only the selected folder counts towards MAX_EXTRACTED_SIZE
+export const MAX_REPOSITORY_SIZE = 1024 * 1024 * 1024;
+
+// Zip record signatures
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+// ============================================
+// Reading
+// ============================================
+
+/**
+ * Read every entry of a tar, tar.gz or zip archive, detected from its content
+ */
+export function readArchive(archive: Buffer): ArchiveEntry[] {
+  if (isZip(archive)) {
+    return readZip(archive);
+  }
+
+  const buffer = isGzip(archive) ? gunzip(archive, MAX_EXTRACTED_SIZE) : archive;
+  if (!isTar(buffer)) {
+    throw new ArchiveError('Unsupported archive format (expected .tar.gz, .tgz, .tar or .zip)');
+  }
+  return readTar(buffer);
+}
+
+/**
+ * Read the entries of a tar or tar.gz archive, all of them or those selected
+ */
+export function readTar(archive: Buffer, options: ReadTarOptions = {}): ArchiveEntry[] {
+  const maxArchiveSize = options.maxArchiveSize ?? MAX_EXTRACTED_SIZE;
+  const buffer = isGzip(archive) ? gunzip(archive, maxArchiveSize) : archive;
+  const entries: ArchiveEntry[] = [];
+  let longPath: string | null = null;
+  let offset = 0;
+  let extracted = 0;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] ?? 0);
+    const dataStart = offset + BLOCK_SIZE;
+    const content = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (dataStart + size > buffer.length) {
+      throw new ArchiveError('Archive is truncated');
+    }
+
+    // Extended headers carry the path of the next entry
+    if (typeFlag === 'x') {
+      longPath = parsePaxPath(content) ?? longPath;
+      continue;
+    }
+    if (typeFlag === 'L') {
+      longPath = readString(content, 0, content.length);
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 257, 6).startsWith('ustar') ? readString(header, 345, 155) : '';
+    const entryPath = longPath ?? (prefix !== '' ? `${prefix}/${name}` : name);
+    longPath = null;
+
+    if (options.select !== undefined && !isSelected(entryPath, options.select)) continue;
+    extracted += content.length;
+    if (extracted > MAX_EXTRACTED_SIZE) {
+      throw tooLargeError();
+    }
+
+    entries.push({
+      path: entryPath,
+      type: getEntryType(typeFlag),
+      mode: readOctal(header, 100, 8),
+      content: Buffer.from(content),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read every entry of a zip archive from its central directory
+ * Only stored and deflated entries are supported
+ */
+export function readZip(archive: Buffer): ArchiveEntry[] {
+  const end = findEndOfDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries: ArchiveEntry[] = [];
+  let extracted = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new ArchiveError('Invalid zip central directory');
+    }
+
+    const madeBy = archive.readUInt16LE(offset + 4) >> 8;
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const attributes = archive.readUInt32LE(offset + 38);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const entryPath = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if ((flags & 0x1) !== 0) {
+      throw new ArchiveError(`Encrypted zip entries are not supported: ${entryPath}`);
+    }
+    if (compressedSize === 0xffffffff || size === 0xffffffff) {
+      throw new ArchiveError('Zip64 archives are not supported');
+    }
+
+    // Unix permissions live in the high half of the external attributes
+    const mode = madeBy === 3 ? attributes >>> 16 : 0;
+    const type = entryPath.endsWith('/') ? 'directory' : getZipEntryType(mode);
+
+    // Entries may share data, so count what each one inflates to
+    if (type !== 'directory' && extracted + size > MAX_EXTRACTED_SIZE) {
+      throw tooLargeError();
+    }
+    const content =
+      type === 'directory'
+        ? Buffer.alloc(0)
+        : readZipData(archive, localOffset, method, compressedSize, size, entryPath);
+    extracted += content.length;
+    if (extracted > MAX_EXTRACTED_SIZE) {
+      throw tooLargeError();
+    }
+
+    entries.push({ path: entryPath, type, mode: mode & 0o7777, content });
+  }
+
+  return entries;
+}
+
+function findEndOfDirectory(archive: Buffer): number {
+  // The record is 22 bytes followed by a comment of up to 64 KiB
+  const min = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= min; offset--) {
+    if (archive.readUInt32LE(offset) === ZIP_END_OF_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ArchiveError('Invalid zip archive: end of central directory not found');
+}
+
+function readZipData(
+  archive: Buffer,
+  localOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  entryPath: string
+): Buffer {
+  if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+    throw new ArchiveError(`Invalid zip entry: ${entryPath}`);
+  }
+
+  const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+  if (dataStart + compressedSize > archive.length) {
+    throw new ArchiveError('Archive is truncated');
+  }
+  const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+  switch (method) {
+    case 0:
+      return Buffer.from(data);
+    case 8:
+      try {
+        // Never inflate past the declared size
+        return zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ArchiveError(`Corrupt zip entry: ${entryPath}`);
+      }
+    default:
+      throw new ArchiveError(`Unsupported zip compression method ${method}: ${entryPath}`);
+  }
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Write archive entries into a folder
+ * Symlinks and special files are skipped, executable bits are kept;
+ * returns the number of files written
+ */
+export function extractEntries(entries: ArchiveEntry[], destDir: string, options: ExtractOptions = {}): number {
+  const root = path.resolve(destDir);
+  const subdir = splitPath(options.subdir ?? '');
+  let written = 0;
+
+  for (const entry of entries) {
+    if (entry.path.startsWith('/') || /^[a-zA-Z]:/.test(entry.path)) {
+      throw new ArchiveError(`Refusing absolute path in archive: ${entry.path}`);
+    }
+
+    let parts = splitPath(entry.path).slice(options.strip ?? 0);
+    if (parts.includes('..')) {
+      throw new ArchiveError(`Refusing path outside the destination: ${entry.path}`);
+    }
+
+    if (subdir.length > 0) {
+      if (!subdir.every((part, i) => parts[i] === part)) continue;
+      parts = parts.slice(subdir.length);
+    }
+    if (parts.length === 0 || (entry.type !== 'file' && entry.type !== 'directory')) continue;
+
+    const target = path.join(root, ...parts);
+    const relative = path.relative(root, target);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new ArchiveError(`Refusing path outside the destination: ${entry.path}`);
+    }
+
+    if (entry.type === 'directory') {
+      fs.mkdirSync(target, { recursive: true });
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, entry.content);
+      if ((entry.mode & 0o111) !== 0) {
+        fs.chmodSync(target, 0o755);
+      }
+      written++;
+    }
+  }
+
+  return written;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function isGzip(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+function isZip(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 22 &&
+    (buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER || buffer.readUInt32LE(0) === ZIP_END_OF_DIRECTORY)
+  );
+}
+
+function isTar(buffer: Buffer): boolean {
+  if (buffer.length < BLOCK_SIZE) return false;
+  if (readString(buffer, 257, 5) === 'ustar') return true;
+
+  // Pre-POSIX archives have no magic, so check the header checksum instead
+  const header = buffer.subarray(0, BLOCK_SIZE);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : (header[i] ?? 0);
+  }
+  return sum === readOctal(header, 148, 8);
+}
+
+function gunzip(buffer: Buffer, maxSize: number): Buffer {
+  try {
+    return zlib.gunzipSync(buffer, { maxOutputLength: maxSize });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw tooLargeError(maxSize);
+    }
+    throw new ArchiveError('Corrupt gzip data');
+  }
+}
+
+function tooLargeError(maxSize = MAX_EXTRACTED_SIZE): ArchiveError {
+  return new ArchiveError(`Archive is larger than ${maxSize / 1024 / 1024} MiB once extracted`);
+}
+
+/**
+ * Whether extracting with these options writes an entry: under the subdir once stripped
+ */
+function isSelected(entryPath: string, options: ExtractOptions): boolean {
+  const parts = splitPath(entryPath).slice(options.strip ?? 0);
+  const subdir = splitPath(options.subdir ?? '');
+  return parts.length > subdir.length && subdir.every((part, i) => parts[i] === part);
+}
+
+function splitPath(p: string): string[] {
+  return p.split(/[\\/]/).filter((part) => part !== '' && part !== '.');
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readOctal(buffer: Buffer, start: number, length: number): number {
+  const value = readString(buffer, start, length).trim();
+  return value === '' ? 0 : parseInt(value, 8);
+}
+
+function parsePaxPath(content: Buffer): string | null {
+  // Records look like "<length> <key>=<value>\n"
+  for (const record of content.toString('utf-8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match?.[1] !== undefined) return match[1];
+  }
+  return null;
+}
+
+function getZipEntryType(mode: number): ArchiveEntry['type'] {
+  switch (mode & 0o170000) {
+    case 0o120000:
+      return 'symlink';
+    case 0o040000:
+      return 'directory';
+    case 0:
+    case 0o100000:
+      return 'file';
+    default:
+      return 'other';
+  }
+}
+
+function getEntryType(typeFlag: string): ArchiveEntry['type'] {
+  switch (typeFlag) {
+    case '0':
+    case '\0':
+    case '7':
+      return 'file';
+    case '5':
+      return 'directory';
+    case '2':
+      return 'symlink';
+    default:
+      return 'other';
+  }
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Installer service exports
+ */
+
+export * from './installer.js';
+export * from './archive.js';
+export * from './types.js';
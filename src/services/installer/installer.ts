@@ -0,0 +1,505 @@
+/**
+ * Cognitive Installer
+ *
+ * Shared steps for fetching cognitives and writing them into .synapsync/,
+ * used by add, install and update
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isOfflineMode } from '../registry/client.js';
+import type { RegistryClient, DownloadOptions } from '../registry/client.js';
+import type { GitHubClient } from '../github/client.js';
+import type { GitHubSource } from '../github/types.js';
+import { detectFromLocalFiles } from '../cognitive/detector.js';
+import { parseFrontmatter } from '../scanner/parser.js';
+import { parseDependencies } from '../dependencies/resolver.js';
+import { readTar, readArchive, extractEntries, ArchiveError, MAX_REPOSITORY_SIZE } from './archive.js';
+import {
+  BASE_DIR_NAME,
+  DEFAULT_REGISTRY_NAME,
+  COGNITIVE_TYPES,
+  COGNITIVE_FILE_NAMES,
+} from '../../core/constants.js';
+import type { CognitiveType, Category, SupportedProvider } from '../../core/constants.js';
+import type { CognitiveFile, CognitiveManifest, DownloadedCognitive } from '../../types/index.js';
+import {
+  computeBufferIntegrity,
+  computeContentHash,
+  computeIntegrity,
+  readDirectoryFiles,
+} from '../lockfile/integrity.js';
+import { logger } from '../../utils/logger.js';
+import { isValidCategory, isValidCognitiveName } from '../../utils/names.js';
+import type {
+  CognitivePayload,
+  PayloadFile,
+  RegistryPayload,
+  GitHubPayload,
+  UrlPayload,
+  FetchUrlOptions,
+  ReadCognitiveOptions,
+  ExpectedContent,
+} from './types.js';
+
+// Asset files probed for registry cognitives whose manifest lists no files
+const REGISTRY_ASSET_FILES = ['assets/SKILL-TEMPLATE-BASIC.md', 'assets/SKILL-TEMPLATE-ADVANCED.md'];
+
+const EXECUTABLE_MODE = 0o755;
+
+const ARCHIVE_EXTENSION_PATTERN = /\.(tar\.gz|tgz|tar|zip)$/i;
+const INTEGRITY_PATTERN = /^(sha256|sha384|sha512)-[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Get the folder of a cognitive inside .synapsync/
+ * Scoped names get a scope folder: skills/general/@acme/deploy
+ */
+export function getCognitiveDir(
+  synapSyncDir: string,
+  type: CognitiveType,
+  category: Category,
+  name: string
+): string {
+  if (!isValidCognitiveName(name)) {
+    throw new Error(`Invalid cognitive name: ${name}`);
+  }
+  if (!isValidCategory(category)) {
+    throw new Error(`Invalid category: ${category}`);
+  }
+
+  // Names and categories come from remote sources; never write outside .synapsync/
+  const root = path.resolve(synapSyncDir);
+  const dir = path.resolve(root, `${type}s`, category, name);
+  if (!dir.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`Invalid cognitive path: ${dir}`);
+  }
+  return path.join(synapSyncDir, `${type}s`, category, name);
+}
+
+/**
+ * Download a cognitive and its assets from the registry
+ */
+export async function fetchFromRegistry(
+  client: RegistryClient,
+  name: string,
+  options: DownloadOptions = {}
+): Promise<RegistryPayload> {
+  const downloaded = await client.download(name, options);
+  const manifest: CognitiveManifest = { ...downloaded.manifest, version: downloaded.version };
+  const dependencies = parseDependencies(downloaded.manifest.dependencies);
+  if (dependencies.length > 0) {
+    manifest.dependencies = dependencies;
+  } else {
+    delete manifest.dependencies;
+  }
+  assertMainFile(manifest.file);
+  const files = parseFileList(downloaded.manifest.files, manifest.file);
+  if (files !== null) {
+    manifest.files = files;
+  } else {
+    delete manifest.files;
+  }
+  const assets = await downloadAssets(client, name, downloaded, files);
+
+  const registry = downloaded.registry ?? DEFAULT_REGISTRY_NAME;
+  const registryUrl = client.getRegistryUrl(registry) ?? client.getBaseUrl();
+
+  return {
+    manifest,
+    content: downloaded.content,
+    assets,
+    registry,
+    registryUrl,
+    resolved: `${registryUrl}/${downloaded.path}`,
+  };
+}
+
+/**
+ * Download a repository archive and extract a cognitive folder from it
+ * A missing ref resolves to the repository's default branch
+ */
+export async function fetchFromGitHub(
+  client: GitHubClient,
+  source: GitHubSource,
+  options: ReadCognitiveOptions = {}
+): Promise<GitHubPayload> {
+  const commit = await client.resolveCommit(source);
+  const archive = await client.downloadArchive(source, commit);
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-github-'));
+  try {
+    // GitHub archives wrap everything in a <owner>-<repo>-<sha>/ folder
+    // The whole repository is downloaded, but only the cognitive's folder is kept
+    const select = { strip: 1, ...(source.path !== undefined && { subdir: source.path }) };
+    const entries = readTar(archive, { select, maxArchiveSize: MAX_REPOSITORY_SIZE });
+    const extracted = extractEntries(entries, tempDir, select);
+    if (extracted === 0) {
+      throw new Error(`Path '${source.path ?? '/'}' not found in ${source.owner}/${source.repo}@${commit.slice(0, 7)}`);
+    }
+
+    const defaultName = path.posix.basename(source.path ?? source.repo);
+    const payload = await readCognitiveDir(tempDir, { name: defaultName, ...options });
+    return { ...payload, source, commit };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Download a .tar.gz, .tgz, .tar or .zip archive and extract the cognitive in it
+ * An archive holding a single top-level folder is read from that folder
+ */
+export async function fetchFromUrl(url: string, options: FetchUrlOptions = {}): Promise<UrlPayload> {
+  const { integrity: expected, ...readOptions } = options;
+  const name = getArchiveName(url);
+  if (expected !== undefined && !isValidIntegrity(expected)) {
+    throw new Error(`Invalid integrity '${expected}' (expected sha256-<base64>)`);
+  }
+
+  const archive = await downloadArchive(url);
+
+  // Nothing is extracted unless the archive matches the expected integrity
+  const algorithm = (expected?.split('-')[0] ?? 'sha256') as 'sha256' | 'sha384' | 'sha512';
+  const actual = computeBufferIntegrity(archive, algorithm);
+  if (expected !== undefined && actual !== expected) {
+    throw new IntegrityError(name, 'archive', expected, actual);
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-url-'));
+  try {
+    if (extractEntries(readArchive(archive), tempDir) === 0) {
+      throw new ArchiveError(`No files found in ${url}`);
+    }
+
+    const entries = fs.readdirSync(tempDir, { withFileTypes: true }).filter((e) => !e.name.startsWith('.'));
+    const root =
+      entries.length === 1 && entries[0]?.isDirectory() === true ? path.join(tempDir, entries[0].name) : tempDir;
+
+    const payload = await readCognitiveDir(root, { name, ...readOptions });
+    return { ...payload, url, integrity: computeBufferIntegrity(archive) };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check if a source is an http(s) URL pointing at a supported archive
+ */
+export function isArchiveUrl(source: string): boolean {
+  try {
+    const url = new URL(source);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && ARCHIVE_EXTENSION_PATTERN.test(url.pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the default cognitive name for an archive URL (my-skill.tgz -> my-skill)
+ */
+export function getArchiveName(url: string): string {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Not a URL, use it as a path
+  }
+  return path.posix.basename(pathname).replace(ARCHIVE_EXTENSION_PATTERN, '');
+}
+
+/**
+ * Check if a value is a Subresource Integrity string (sha256-<base64>)
+ */
+export function isValidIntegrity(value: string): boolean {
+  return INTEGRITY_PATTERN.test(value);
+}
+
+/**
+ * Read a cognitive folder with all of its files
+ * The type is detected from the folder unless given
+ */
+export async function readCognitiveDir(dir: string, options: ReadCognitiveOptions = {}): Promise<CognitivePayload> {
+  const detected = await detectCognitiveFile(dir);
+  const type: CognitiveType | null = options.type ?? detected?.type ?? null;
+  if (type === null) {
+    throw new Error('Could not detect cognitive type. Please specify with --type flag.');
+  }
+
+  const fileName = detected?.fileName ?? COGNITIVE_FILE_NAMES[type];
+  const files = readDirectoryFiles(dir);
+  const main = files.get(fileName);
+  if (main === undefined) {
+    throw new Error(`Cognitive file not found: ${fileName}`);
+  }
+
+  const content = main.toString('utf-8');
+  const metadata = parseFrontmatter(content);
+  const author = metadata.author;
+  const now = new Date().toISOString();
+
+  const manifest: CognitiveManifest = {
+    name: metadata.name ?? options.name ?? path.basename(dir),
+    type,
+    version: metadata.version ?? '1.0.0',
+    description: metadata.description ?? '',
+    author: typeof author === 'object' ? author.name : (author ?? 'unknown'),
+    license: metadata.license ?? 'MIT',
+    category: options.category ?? metadata.category ?? 'general',
+    tags: metadata.tags ?? [],
+    providers: (metadata.providers ?? []) as SupportedProvider[],
+    file: fileName,
+    ...(metadata.dependencies !== undefined && { dependencies: parseDependencies(metadata.dependencies) }),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // Every other file as raw bytes, keeping the executable bit of scripts
+  const assets = new Map<string, PayloadFile>();
+  for (const [relativePath, data] of files) {
+    if (relativePath !== fileName) {
+      const executable = (fs.statSync(path.join(dir, relativePath)).mode & 0o111) !== 0;
+      assets.set(relativePath.split(path.sep).join('/'), { content: data, ...(executable && { executable }) });
+    }
+  }
+  if (assets.size > 0) {
+    manifest.files = [...assets].map(([p, f]) => ({ path: p, ...(f.executable === true && { executable: true }) }));
+  }
+
+  return { manifest, content, assets };
+}
+
+/**
+ * Normalize the files listed in a manifest
+ * Accepts paths or {path, executable} objects; null when nothing is listed
+ */
+export function parseFileList(value: unknown, mainFile?: string): CognitiveFile[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const files: CognitiveFile[] = [];
+  for (const item of value) {
+    const file: CognitiveFile | null =
+      typeof item === 'string'
+        ? { path: item }
+        : typeof item === 'object' && item !== null && typeof (item as CognitiveFile).path === 'string'
+          ? {
+              path: (item as CognitiveFile).path,
+              ...((item as CognitiveFile).executable === true && { executable: true }),
+            }
+          : null;
+    if (file === null) continue;
+
+    const parts = file.path.split(/[\\/]/).filter((part) => part !== '' && part !== '.');
+    if (file.path.startsWith('/') || parts.includes('..') || parts.length === 0) {
+      throw new Error(`Invalid file path in manifest: ${file.path}`);
+    }
+    file.path = parts.join('/');
+    if (file.path !== mainFile) {
+      files.push(file);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Check that a manifest's main file is a plain file name in the cognitive folder
+ */
+function assertMainFile(file: string): void {
+  if (file === '' || file === '.' || file === '..' || /[\\/]/.test(file)) {
+    throw new Error(`Invalid main file in manifest: ${file}`);
+  }
+}
+
+/**
+ * Find the cognitive file in a folder
+ * Checks for legacy fixed filenames first, then by extension
+ */
+export async function detectCognitiveFile(
+  dir: string
+): Promise<{ type: CognitiveType; fileName: string } | null> {
+  const detected = await detectFromLocalFiles(dir);
+  if (detected.type !== null && detected.fileName !== null) {
+    return { type: detected.type, fileName: detected.fileName };
+  }
+
+  if (!fs.existsSync(dir)) return null;
+  const files = fs.readdirSync(dir).filter((file) => !file.startsWith('.'));
+
+  // Check for workflow first (yaml extension)
+  const workflow = files.find((file) => file.endsWith('.yaml'));
+  if (workflow !== undefined) {
+    return { type: 'workflow', fileName: workflow };
+  }
+
+  // Markdown could be any other type; the frontmatter decides (default: skill)
+  for (const file of files.filter((f) => f.endsWith('.md'))) {
+    const metadata = parseFrontmatter(fs.readFileSync(path.join(dir, file), 'utf-8')) as Record<string, unknown>;
+    const type = (metadata['type'] as CognitiveType | undefined) ?? 'skill';
+    if (COGNITIVE_TYPES.includes(type)) {
+      return { type, fileName: file };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Files a payload writes, keyed by path relative to the cognitive folder
+ */
+export function getPayloadFiles(payload: CognitivePayload): Map<string, string | Buffer> {
+  const files = new Map<string, string | Buffer>([[payload.manifest.file, payload.content]]);
+  for (const [relativePath, file] of payload.assets) {
+    files.set(relativePath, file.content);
+  }
+  return files;
+}
+
+/**
+ * Write a payload into its cognitive folder
+ * Assets are written byte for byte, scripts keep their executable bit
+ */
+export function writeCognitive(targetDir: string, payload: CognitivePayload): void {
+  assertMainFile(payload.manifest.file);
+  fs.mkdirSync(targetDir, { recursive: true });
+  fs.writeFileSync(path.join(targetDir, payload.manifest.file), payload.content, 'utf-8');
+
+  for (const [relativePath, file] of payload.assets) {
+    const fullPath = path.join(targetDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, file.content);
+    if (file.executable === true) {
+      fs.chmodSync(fullPath, EXECUTABLE_MODE);
+    }
+  }
+}
+
+/**
+ * Get the folder keeping the pristine files of a cognitive, as installed
+ * Updates merge local edits against it: .synapsync/.base/skills/general/code-review
+ */
+export function getBaseDir(
+  synapSyncDir: string,
+  type: CognitiveType,
+  category: Category,
+  name: string
+): string {
+  return getCognitiveDir(path.join(synapSyncDir, BASE_DIR_NAME), type, category, name);
+}
+
+/**
+ * Write the pristine files of a cognitive into its base folder
+ */
+export function writeBase(baseDir: string, payload: CognitivePayload): void {
+  writeCognitive(baseDir, payload);
+}
+
+/**
+ * Read the pristine files of a cognitive keyed by relative path, empty when none were kept
+ * Bases written before assets were kept hold only the main file
+ */
+export function readBase(baseDir: string): Map<string, Buffer> {
+  return readDirectoryFiles(baseDir);
+}
+
+export function verifyPayload(name: string, payload: CognitivePayload, expected: ExpectedContent): void {
+  if (expected.hash !== undefined) {
+    const hash = computeContentHash(payload.content);
+    if (hash !== expected.hash) {
+      throw new IntegrityError(name, 'hash', expected.hash, hash);
+    }
+  }
+
+  if (expected.integrity !== undefined) {
+    const integrity = computeIntegrity(getPayloadFiles(payload));
+    if (integrity !== expected.integrity) {
+      throw new IntegrityError(name, 'integrity', expected.integrity, integrity);
+    }
+  }
+}
+
+async function downloadArchive(url: string): Promise<Buffer> {
+  if (isOfflineMode()) {
+    throw new DownloadError('Offline mode: archive URLs need network access', url);
+  }
+
+  logger.debug(`GET ${url}`);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { 'User-Agent': 'SynapSync-CLI' } });
+  } catch (error) {
+    throw new DownloadError(`Network error: ${error instanceof Error ? error.message : 'unknown'}`, url);
+  }
+
+  if (!response.ok) {
+    throw new DownloadError(`Failed to download archive: ${response.status} ${response.statusText}`, url, response.status);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Download the files a registry manifest lists, or probe the legacy templates
+ * Listed files are required; a missing one fails the download
+ */
+async function downloadAssets(
+  client: RegistryClient,
+  name: string,
+  downloaded: DownloadedCognitive,
+  files: CognitiveFile[] | null
+): Promise<Map<string, PayloadFile>> {
+  const assets = new Map<string, PayloadFile>();
+
+  // Find the cognitive entry first, pointing at the downloaded version
+  const latest = await client.findByName(name, downloaded.registry);
+  if (latest === null) return assets;
+  const entry = { ...latest, version: downloaded.version, path: downloaded.path };
+
+  if (files !== null) {
+    for (const file of files) {
+      const content = await client.downloadAsset(entry, file.path);
+      assets.set(file.path, { content, ...(file.executable === true && { executable: true }) });
+    }
+    return assets;
+  }
+
+  for (const assetPath of REGISTRY_ASSET_FILES) {
+    try {
+      assets.set(assetPath, { content: await client.downloadAsset(entry, assetPath) });
+    } catch {
+      // Asset doesn't exist, skip
+    }
+  }
+
+  return assets;
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class IntegrityError extends Error {
+  constructor(
+    public cognitiveName: string,
+    public check: 'hash' | 'integrity' | 'archive',
+    public expected: string,
+    public actual: string
+  ) {
+    super(`${check} mismatch for '${cognitiveName}' (expected ${expected}, got ${actual})`);
+    this.name = 'IntegrityError';
+  }
+}
+
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    public url: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
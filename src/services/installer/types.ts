@@ -0,0 +1,73 @@
+/**
+ * Installer Types
+ */
+
+import type { CognitiveManifest } from '../../types/index.js';
+import type { CognitiveType, Category } from '../../core/constants.js';
+import type { GitHubSource } from '../github/types.js';
+
+/**
+ * Everything needed to write a cognitive into .synapsync/
+ */
+export interface CognitivePayload {
+  manifest: CognitiveManifest;
+  content: string; // main cognitive file
+  assets: Map<string, PayloadFile>; // keyed by path relative to the cognitive folder
+}
+
+/**
+ * Raw bytes of a file besides the main one
+ */
+export interface PayloadFile {
+  content: Buffer;
+  executable?: boolean;
+}
+
+/**
+ * A payload fetched from a registry, with where it came from
+ */
+export interface RegistryPayload extends CognitivePayload {
+  registry: string; // registry name
+  registryUrl: string;
+  resolved: string; // URL of the cognitive folder in the registry
+}
+
+/**
+ * A payload extracted from a GitHub repository at a commit
+ */
+export interface GitHubPayload extends CognitivePayload {
+  source: GitHubSource;
+  commit: string; // resolved commit SHA
+}
+
+/**
+ * A payload extracted from an archive downloaded from a URL
+ */
+export interface UrlPayload extends CognitivePayload {
+  url: string;
+  integrity: string; // sha256-<base64> of the downloaded archive
+}
+
+/**
+ * Options when fetching a cognitive archive from a URL
+ */
+export interface FetchUrlOptions extends ReadCognitiveOptions {
+  integrity?: string | undefined; // expected sha256/384/512-<base64> of the archive
+}
+
+/**
+ * Overrides when reading a cognitive from a folder
+ */
+export interface ReadCognitiveOptions {
+  type?: CognitiveType | undefined; // skip detection
+  category?: Category | undefined;
+  name?: string | undefined; // fallback when the frontmatter has no name
+}
+
+/**
+ * Recorded checksums a fetched payload must match
+ */
+export interface ExpectedContent {
+  hash?: string | undefined; // manifest.json hash of the main file
+  integrity?: string | undefined; // synapsync.lock integrity of all files
+}
@@ -0,0 +1,6 @@
+/**
+ * Ledger service exports
+ */
+
+export * from './manager.js';
+export * from './types.js';
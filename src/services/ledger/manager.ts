@@ -0,0 +1,157 @@
+/**
+ * Ledger Manager
+ *
+ * Records every copy and rendered file sync writes into provider folders, with the hash
+ * of its source and of what was written. Symlinks need no record: they point into
+ * .synapsync. The ledger tells SynapSync's copies from the user's files, and copies
+ * edited in place from untouched ones
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LEDGER_FILE_NAME } from '../../core/constants.js';
+import type { SupportedProvider } from '../../core/constants.js';
+import { computeBufferIntegrity, computeDirectoryIntegrity } from '../lockfile/integrity.js';
+import type { ManagedFile, ManagedFilesLedger } from './types.js';
+import { LEDGER_VERSION } from './types.js';
+
+export class LedgerManager {
+  private ledgerPath: string;
+  private projectRoot: string;
+  private ledger: ManagedFilesLedger;
+  private changed = false;
+
+  constructor(synapSyncDir: string, projectRoot: string) {
+    this.ledgerPath = path.join(synapSyncDir, LEDGER_FILE_NAME);
+    this.projectRoot = projectRoot;
+    this.ledger = this.load();
+  }
+
+  /**
+   * Load the ledger from disk
+   */
+  private load(): ManagedFilesLedger {
+    if (!fs.existsSync(this.ledgerPath)) {
+      return { version: LEDGER_VERSION, files: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(
+        fs.readFileSync(this.ledgerPath, 'utf-8')
+      ) as Partial<ManagedFilesLedger>;
+      return { version: parsed.version ?? LEDGER_VERSION, files: parsed.files ?? {} };
+    } catch {
+      return { version: LEDGER_VERSION, files: {} };
+    }
+  }
+
+  /**
+   * Save the ledger to disk
+   * Entries are written sorted by path to keep diffs minimal
+   */
+  save(): void {
+    const files: Record<string, ManagedFile> = {};
+    for (const key of Object.keys(this.ledger.files).sort()) {
+      const entry = this.ledger.files[key];
+      if (entry !== undefined) files[key] = entry;
+    }
+
+    const content = JSON.stringify({ version: this.ledger.version, files }, null, 2);
+    fs.writeFileSync(this.ledgerPath, `${content}\n`, 'utf-8');
+    this.changed = false;
+  }
+
+  /**
+   * Get the ledger path
+   */
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+
+  /**
+   * Whether entries changed since the ledger was loaded or saved
+   */
+  hasChanges(): boolean {
+    return this.changed;
+  }
+
+  /**
+   * Get the entry of a file in a provider folder
+   */
+  get(targetPath: string): ManagedFile | undefined {
+    return this.ledger.files[this.toKey(targetPath)];
+  }
+
+  /**
+   * Get the files written to a provider, keyed by absolute path
+   */
+  getFiles(provider: SupportedProvider): Map<string, ManagedFile> {
+    const files = new Map<string, ManagedFile>();
+    for (const [key, entry] of Object.entries(this.ledger.files)) {
+      if (entry.provider === provider) {
+        files.set(path.resolve(this.projectRoot, key), entry);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Record a file sync wrote, hashing its source and what is there now
+   */
+  record(
+    targetPath: string,
+    entry: Omit<ManagedFile, 'source' | 'sourceHash' | 'targetHash'>,
+    sourcePath: string
+  ): void {
+    this.ledger.files[this.toKey(targetPath)] = {
+      ...entry,
+      source: this.toKey(sourcePath),
+      sourceHash: hashPath(sourcePath) ?? '',
+      targetHash: hashPath(targetPath) ?? '',
+    };
+    this.changed = true;
+  }
+
+  /**
+   * Remove the entry of a file
+   */
+  remove(targetPath: string): boolean {
+    const key = this.toKey(targetPath);
+    if (this.ledger.files[key] === undefined) return false;
+    delete this.ledger.files[key];
+    this.changed = true;
+    return true;
+  }
+
+  /**
+   * Absolute path of an entry's source
+   */
+  getSourcePath(entry: ManagedFile): string {
+    return path.resolve(this.projectRoot, entry.source);
+  }
+
+  /**
+   * Whether a recorded file was edited in place since sync wrote it
+   */
+  isDrifted(targetPath: string): boolean {
+    const entry = this.get(targetPath);
+    if (entry === undefined) return false;
+    const hash = hashPath(targetPath);
+    return hash !== null && hash !== entry.targetHash;
+  }
+
+  private toKey(filePath: string): string {
+    return path.relative(this.projectRoot, filePath).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Hash of a file, or of every file in a folder; null when nothing is there
+ */
+export function hashPath(filePath: string): string | null {
+  const stats = fs.lstatSync(filePath, { throwIfNoEntry: false });
+  if (stats === undefined) return null;
+  return stats.isDirectory()
+    ? computeDirectoryIntegrity(filePath)
+    : computeBufferIntegrity(fs.readFileSync(filePath));
+}
@@ -0,0 +1,30 @@
+/**
+ * Ledger Types
+ *
+ * Type definitions for the managed-files ledger
+ */
+
+import type { CognitiveType, SupportedProvider } from '../../core/constants.js';
+
+/**
+ * A copy or rendered file sync wrote into a provider folder
+ */
+export interface ManagedFile {
+  provider: SupportedProvider;
+  cognitive: string;
+  type: CognitiveType;
+  source: string; // path in .synapsync it was written from, relative to the project root
+  sourceHash: string; // sha256-<base64> of the source when it was written
+  targetHash: string; // sha256-<base64> of what was written; differs once edited in place
+  rendered?: boolean; // rendered in the provider's format, so it cannot be pulled back
+}
+
+/**
+ * The managed-files.json structure, keyed by path relative to the project root
+ */
+export interface ManagedFilesLedger {
+  version: number;
+  files: Record<string, ManagedFile>;
+}
+
+export const LEDGER_VERSION = 1;
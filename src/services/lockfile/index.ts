@@ -0,0 +1,7 @@
+/**
+ * Lockfile service exports
+ */
+
+export * from './manager.js';
+export * from './integrity.js';
+export * from './types.js';
@@ -0,0 +1,78 @@
+/**
+ * Content Integrity
+ *
+ * Computes Subresource Integrity style hashes (sha256-<base64>)
+ * over every file of an installed cognitive
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Compute the integrity of a set of files keyed by relative path
+ * Paths are hashed in sorted order so the result is stable across platforms
+ */
+export function computeIntegrity(files: Map<string, string | Buffer>): string {
+  const hash = crypto.createHash('sha256');
+  const paths = [...files.keys()].map((p) => p.split(path.sep).join('/')).sort();
+  const normalized = new Map([...files].map(([p, c]) => [p.split(path.sep).join('/'), c]));
+
+  for (const relativePath of paths) {
+    const content = normalized.get(relativePath) ?? '';
+    hash.update(relativePath);
+    hash.update('\0');
+    hash.update(typeof content === 'string' ? Buffer.from(content, 'utf-8') : content);
+    hash.update('\0');
+  }
+
+  return `sha256-${hash.digest('base64')}`;
+}
+
+/**
+ * Compute the Subresource Integrity value of a single buffer (e.g. a downloaded archive)
+ */
+export function computeBufferIntegrity(content: Buffer, algorithm: 'sha256' | 'sha384' | 'sha512' = 'sha256'): string {
+  return `${algorithm}-${crypto.createHash(algorithm).update(content).digest('base64')}`;
+}
+
+/**
+ * Compute the short content hash recorded as `hash` in manifest.json
+ */
+export function computeContentHash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Compute the integrity of every file under a directory
+ * Hidden files are skipped, matching what installs write
+ */
+export function computeDirectoryIntegrity(dir: string): string {
+  return computeIntegrity(readDirectoryFiles(dir));
+}
+
+/**
+ * Read every file under a directory keyed by relative path
+ */
+export function readDirectoryFiles(dir: string): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+
+  const walk = (current: string): void => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue;
+
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        files.set(path.relative(dir, fullPath), fs.readFileSync(fullPath));
+      }
+    }
+  };
+
+  if (fs.existsSync(dir)) {
+    walk(dir);
+  }
+
+  return files;
+}
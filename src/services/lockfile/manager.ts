@@ -0,0 +1,208 @@
+/**
+ * Lockfile Manager
+ *
+ * Service for reading, writing, and checking the synapsync.lock file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LOCK_FILE_NAME } from '../../core/constants.js';
+import type { ManifestCognitive } from '../manifest/types.js';
+import type { SynapSyncLockfile, LockedCognitive, LockfileMismatch } from './types.js';
+import { LOCKFILE_VERSION } from './types.js';
+
+export class LockfileManager {
+  private lockPath: string;
+  private lockfile: SynapSyncLockfile;
+
+  constructor(projectRoot: string) {
+    this.lockPath = path.join(projectRoot, LOCK_FILE_NAME);
+    this.lockfile = this.load();
+  }
+
+  /**
+   * Load lockfile from disk
+   */
+  private load(): SynapSyncLockfile {
+    if (!fs.existsSync(this.lockPath)) {
+      return { lockfileVersion: LOCKFILE_VERSION, cognitives: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.lockPath, 'utf-8')) as Partial<SynapSyncLockfile>;
+      return {
+        lockfileVersion: parsed.lockfileVersion ?? LOCKFILE_VERSION,
+        cognitives: parsed.cognitives ?? {},
+      };
+    } catch {
+      return { lockfileVersion: LOCKFILE_VERSION, cognitives: {} };
+    }
+  }
+
+  /**
+   * Save lockfile to disk
+   * Entries are written sorted by name to keep diffs minimal
+   */
+  save(): void {
+    const cognitives: Record<string, LockedCognitive> = {};
+    for (const name of Object.keys(this.lockfile.cognitives).sort()) {
+      const entry = this.lockfile.cognitives[name];
+      if (entry !== undefined) cognitives[name] = entry;
+    }
+
+    const content = JSON.stringify({ lockfileVersion: this.lockfile.lockfileVersion, cognitives }, null, 2);
+    fs.writeFileSync(this.lockPath, `${content}\n`, 'utf-8');
+  }
+
+  /**
+   * Check if the lockfile exists on disk
+   */
+  exists(): boolean {
+    return fs.existsSync(this.lockPath);
+  }
+
+  /**
+   * Get the lockfile path
+   */
+  getLockPath(): string {
+    return this.lockPath;
+  }
+
+  /**
+   * Get all locked cognitives
+   */
+  getCognitives(): LockedCognitive[] {
+    return Object.values(this.lockfile.cognitives);
+  }
+
+  /**
+   * Get a locked cognitive by name
+   */
+  getCognitive(name: string): LockedCognitive | undefined {
+    return this.lockfile.cognitives[name];
+  }
+
+  /**
+   * Add or replace a locked cognitive
+   */
+  setCognitive(entry: LockedCognitive): void {
+    this.lockfile.cognitives[entry.name] = entry;
+  }
+
+  /**
+   * Remove a locked cognitive
+   */
+  removeCognitive(name: string): boolean {
+    if (this.lockfile.cognitives[name] !== undefined) {
+      delete this.lockfile.cognitives[name];
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check if setting an entry would change the lockfile
+   */
+  wouldChange(entry: LockedCognitive): boolean {
+    const existing = this.lockfile.cognitives[entry.name];
+    return existing === undefined || JSON.stringify(sortKeys(existing)) !== JSON.stringify(sortKeys(entry));
+  }
+
+  /**
+   * Compare the lockfile with the manifest's cognitives
+   * Local cognitives are skipped: install cannot fetch them, and sync adds them without a lock entry
+   */
+  compare(cognitives: ManifestCognitive[]): LockfileMismatch[] {
+    const mismatches: LockfileMismatch[] = [];
+    const names = new Set<string>();
+
+    for (const cognitive of cognitives) {
+      names.add(cognitive.name);
+      if (cognitive.source === 'local') continue;
+      const locked = this.lockfile.cognitives[cognitive.name];
+
+      if (locked === undefined) {
+        mismatches.push({ name: cognitive.name, reason: 'missing-in-lock', manifestVersion: cognitive.version });
+      } else if (locked.version !== cognitive.version) {
+        mismatches.push({
+          name: cognitive.name,
+          reason: 'version-mismatch',
+          manifestVersion: cognitive.version,
+          lockVersion: locked.version,
+        });
+      }
+    }
+
+    for (const locked of this.getCognitives()) {
+      if (!names.has(locked.name) && locked.source !== 'local') {
+        mismatches.push({ name: locked.name, reason: 'missing-in-manifest', lockVersion: locked.version });
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Throw if the manifest and lockfile disagree (--frozen-lockfile)
+   */
+  assertInSync(cognitives: ManifestCognitive[]): void {
+    const mismatches = this.compare(cognitives);
+    if (mismatches.length > 0) {
+      throw new FrozenLockfileError(`manifest.json and ${LOCK_FILE_NAME} are out of sync`, mismatches);
+    }
+  }
+
+  /**
+   * Throw if recording an entry would change the lockfile (--frozen-lockfile)
+   */
+  assertUnchanged(entry: LockedCognitive): void {
+    if (!this.wouldChange(entry)) return;
+
+    const existing = this.lockfile.cognitives[entry.name];
+    if (existing === undefined) {
+      throw new FrozenLockfileError(`'${entry.name}' is not in ${LOCK_FILE_NAME}`);
+    }
+    if (existing.version !== entry.version) {
+      throw new FrozenLockfileError(
+        `'${entry.name}' is locked at v${existing.version}, refusing to install v${entry.version}`
+      );
+    }
+    throw new FrozenLockfileError(
+      existing.integrity !== entry.integrity
+        ? `'${entry.name}' content does not match the integrity recorded in ${LOCK_FILE_NAME}`
+        : `'${entry.name}' source does not match ${LOCK_FILE_NAME}`
+    );
+  }
+}
+
+// ============================================
+// Errors
+// ============================================
+
+export class FrozenLockfileError extends Error {
+  constructor(
+    message: string,
+    public mismatches: LockfileMismatch[] = []
+  ) {
+    super(message);
+    this.name = 'FrozenLockfileError';
+  }
+}
+
+/**
+ * Describe a mismatch for display
+ */
+export function describeMismatch(mismatch: LockfileMismatch): string {
+  switch (mismatch.reason) {
+    case 'missing-in-lock':
+      return `${mismatch.name}: installed (v${mismatch.manifestVersion}) but not in ${LOCK_FILE_NAME}`;
+    case 'missing-in-manifest':
+      return `${mismatch.name}: locked (v${mismatch.lockVersion}) but not installed`;
+    case 'version-mismatch':
+      return `${mismatch.name}: installed v${mismatch.manifestVersion}, locked v${mismatch.lockVersion}`;
+  }
+}
+
+function sortKeys(entry: LockedCognitive): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)));
+}
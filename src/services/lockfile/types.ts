@@ -0,0 +1,44 @@
+/**
+ * Lockfile Types
+ *
+ * Type definitions for the synapsync.lock file
+ */
+
+import type { CognitiveType, CognitiveSource, Category } from '../../core/constants.js';
+
+/**
+ * Exact, reproducible record of an installed cognitive
+ */
+export interface LockedCognitive {
+  name: string;
+  type: CognitiveType;
+  category: Category;
+  version: string;
+  source: CognitiveSource;
+  resolved: string; // URL (or path) the content was fetched from
+  registry?: string; // registry name, for registry installs
+  ref?: string; // branch/tag requested, for git-based installs
+  commit?: string; // commit the ref resolved to
+  integrity: string; // sha256-<base64> over all installed files
+}
+
+/**
+ * The synapsync.lock structure
+ * No timestamps: the file only changes when what is installed changes
+ */
+export interface SynapSyncLockfile {
+  lockfileVersion: number;
+  cognitives: Record<string, LockedCognitive>;
+}
+
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * A disagreement between manifest.json and synapsync.lock
+ */
+export interface LockfileMismatch {
+  name: string;
+  reason: 'missing-in-lock' | 'missing-in-manifest' | 'version-mismatch';
+  manifestVersion?: string;
+  lockVersion?: string;
+}
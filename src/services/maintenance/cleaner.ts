@@ -13,7 +13,9 @@ import type {
   CleanOptions,
 } from './types.js';
 import { SymlinkManager } from '../symlink/manager.js';
+import { HistoryManager } from '../history/history.js';
 import type { ProjectConfig } from '../config/schema.js';
+import { CACHE_DIR_NAME, HISTORY_DIR_NAME } from '../../core/constants.js';
 import type { SupportedProvider } from '../../core/constants.js';
 
 export class CleanerService {
@@ -46,10 +48,16 @@ export class CleanerService {
       options.cache = true;
       options.orphans = true;
       options.temp = true;
+      options.history = true;
     }
 
     // Default to cache if nothing specified
-    if (options.cache !== true && options.orphans !== true && options.temp !== true) {
+    if (
+      options.cache !== true &&
+      options.orphans !== true &&
+      options.temp !== true &&
+      options.history !== true
+    ) {
       options.cache = true;
     }
 
@@ -76,6 +84,14 @@ export class CleanerService {
       result.errors.push(...tempResult.errors);
     }
 
+    // Clean rollback history
+    if (options.history === true) {
+      const historyResult = this.cleanHistory(options.dryRun);
+      result.cleaned.push(...historyResult.cleaned);
+      result.bytesFreed += historyResult.bytes;
+      result.errors.push(...historyResult.errors);
+    }
+
     result.sizeFreed = this.formatBytes(result.bytesFreed);
     result.success = result.errors.length === 0;
     result.duration = Date.now() - startTime;
@@ -95,7 +111,7 @@ export class CleanerService {
     const errors: CleanError[] = [];
     let bytes = 0;
 
-    const cacheDir = path.join(this.synapSyncDir, 'cache');
+    const cacheDir = path.join(this.synapSyncDir, CACHE_DIR_NAME);
 
     if (!fs.existsSync(cacheDir)) {
       return { cleaned, bytes, errors };
@@ -153,7 +169,7 @@ export class CleanerService {
       .filter(([, cfg]) => (cfg as { enabled?: boolean }).enabled === true)
       .map(([name]) => name as SupportedProvider);
 
-    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir);
+    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir, this.config);
 
     for (const provider of enabledProviders) {
       try {
@@ -264,6 +280,43 @@ export class CleanerService {
     return { cleaned, bytes, errors };
   }
 
+  /**
+   * Clean previous versions of updated cognitives kept for rollback
+   */
+  private cleanHistory(dryRun = false): {
+    cleaned: CleanedItem[];
+    bytes: number;
+    errors: CleanError[];
+  } {
+    const cleaned: CleanedItem[] = [];
+    const errors: CleanError[] = [];
+    let bytes = 0;
+
+    for (const snapshot of new HistoryManager(this.synapSyncDir).listAll()) {
+      const size = this.getSize(snapshot.dir);
+      cleaned.push({
+        type: 'history',
+        path: snapshot.dir,
+        size,
+      });
+      bytes += size;
+    }
+
+    if (!dryRun) {
+      const historyDir = path.join(this.synapSyncDir, HISTORY_DIR_NAME);
+      try {
+        fs.rmSync(historyDir, { recursive: true, force: true });
+      } catch (error) {
+        errors.push({
+          path: historyDir,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return { cleaned, bytes, errors };
+  }
+
   /**
    * List all files/directories in a directory recursively
    */
@@ -16,7 +16,9 @@ import type { ProjectConfig } from '../config/schema.js';
 import { ManifestManager } from '../manifest/manager.js';
 import { CognitiveScanner } from '../scanner/scanner.js';
 import { SymlinkManager } from '../symlink/manager.js';
-import { RegistryClient } from '../registry/client.js';
+import { createRegistryClient, getConfiguredRegistries } from '../registry/client.js';
+import { CredentialStore, describeCredential } from '../registry/credentials.js';
+import { Transaction, isJournalActive } from '../transaction/transaction.js';
 import { COGNITIVE_TYPES } from '../../core/constants.js';
 import type { SupportedProvider } from '../../core/constants.js';
 
@@ -41,12 +43,14 @@ export class DoctorService {
     // Run all checks
     checks.push(this.checkNodeVersion());
     checks.push(this.checkSynapSyncDir());
+    checks.push(this.checkTransaction());
     checks.push(this.checkConfig());
     checks.push(this.checkManifest());
     checks.push(this.checkManifestConsistency());
     checks.push(...this.checkProviders());
     checks.push(...this.checkSymlinks());
     checks.push(await this.checkRegistryConnectivity());
+    checks.push(this.checkRegistryAuth());
 
     // Filter by requested checks
     let filteredChecks = checks;
@@ -154,6 +158,45 @@ export class DoctorService {
     };
   }
 
+  private checkTransaction(): DiagnosticCheck {
+    const journal = Transaction.getPending(this.synapSyncDir);
+
+    if (journal === null) {
+      return {
+        id: 'interrupted-transaction',
+        name: 'Interrupted Commands',
+        description: 'Check for changes left behind by an interrupted command',
+        status: 'pass',
+        message: 'No interrupted commands',
+        fixable: true,
+      };
+    }
+
+    const details = journal.entries.map((entry) => path.relative(this.projectRoot, entry.path));
+
+    if (isJournalActive(journal)) {
+      return {
+        id: 'interrupted-transaction',
+        name: 'Interrupted Commands',
+        description: 'Check for changes left behind by an interrupted command',
+        status: 'warn',
+        message: `synapsync ${journal.command} is still running (pid ${journal.pid})`,
+        fixable: false,
+        details,
+      };
+    }
+
+    return {
+      id: 'interrupted-transaction',
+      name: 'Interrupted Commands',
+      description: 'Check for changes left behind by an interrupted command',
+      status: 'fail',
+      message: `synapsync ${journal.command} was interrupted (started ${journal.startedAt}), ${journal.entries.length} change(s) to roll back`,
+      fixable: true,
+      details,
+    };
+  }
+
   private checkConfig(): DiagnosticCheck {
     const configPath = path.join(this.projectRoot, 'synapsync.config.yaml');
 
@@ -348,11 +391,11 @@ export class DoctorService {
       .filter(([, cfg]) => (cfg as { enabled?: boolean }).enabled === true)
       .map(([name]) => name as SupportedProvider);
 
-    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir);
+    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir, this.config);
 
     for (const provider of enabledProviders) {
-      const { valid, broken, orphaned } = symlink.verifyProvider(provider);
-      const total = valid.length + broken.length + orphaned.length;
+      const { valid, broken, orphaned, drifted } = symlink.verifyProvider(provider);
+      const total = valid.length + broken.length + orphaned.length + drifted.length;
 
       if (total === 0) {
         checks.push({
@@ -366,7 +409,7 @@ export class DoctorService {
         continue;
       }
 
-      if (broken.length === 0 && orphaned.length === 0) {
+      if (broken.length === 0 && orphaned.length === 0 && drifted.length === 0) {
         checks.push({
           id: `symlinks-${provider}`,
           name: `${provider} Symlinks`,
@@ -379,6 +422,7 @@ export class DoctorService {
         const details: string[] = [];
         if (broken.length > 0) details.push(`${broken.length} broken`);
         if (orphaned.length > 0) details.push(`${orphaned.length} orphaned`);
+        if (drifted.length > 0) details.push(`${drifted.length} edited in place`);
 
         checks.push({
           id: `symlinks-${provider}`,
@@ -390,6 +434,7 @@ export class DoctorService {
           details: [
             ...broken.map((l) => `Broken: ${l.cognitiveName}`),
             ...orphaned.map((l) => `Orphaned: ${l.cognitiveName}`),
+            ...drifted.map((l) => `Edited in place: ${l.cognitiveName} (sync --pull keeps the edits)`),
           ],
         });
       }
@@ -400,7 +445,21 @@ export class DoctorService {
 
   private async checkRegistryConnectivity(): Promise<DiagnosticCheck> {
     try {
-      const registry = new RegistryClient();
+      const registry = createRegistryClient(this.synapSyncDir, this.config);
+
+      if (registry.isOffline()) {
+        return {
+          id: 'registry-connectivity',
+          name: 'Registry Connectivity',
+          description: 'Check connection to SynapSync registry',
+          status: 'skip',
+          message: registry.hasCachedIndex()
+            ? 'Skipped - offline mode (cached registry index available)'
+            : 'Skipped - offline mode (no cached registry index)',
+          fixable: false,
+        };
+      }
+
       const reachable = await registry.ping();
 
       if (reachable) {
@@ -434,6 +493,48 @@ export class DoctorService {
     }
   }
 
+  private checkRegistryAuth(): DiagnosticCheck {
+    const store = new CredentialStore();
+    const details: string[] = [];
+    const missingEnv: string[] = [];
+
+    // Secrets are never printed, only how each registry authenticates
+    for (const registry of getConfiguredRegistries(this.config)) {
+      const credential = store.get(registry.url);
+      if (credential === null) {
+        details.push(`${registry.name}: anonymous`);
+        continue;
+      }
+
+      details.push(`${registry.name}: ${describeCredential(credential)}`);
+      if (credential.type === 'env' && (process.env[credential.env] ?? '') === '') {
+        missingEnv.push(`${registry.name} ($${credential.env})`);
+      }
+    }
+
+    if (missingEnv.length > 0) {
+      return {
+        id: 'registry-auth',
+        name: 'Registry Credentials',
+        description: 'Check credentials for authenticated registries',
+        status: 'warn',
+        message: `Token environment variable not set for ${missingEnv.join(', ')}`,
+        fixable: false,
+        details,
+      };
+    }
+
+    return {
+      id: 'registry-auth',
+      name: 'Registry Credentials',
+      description: 'Check credentials for authenticated registries',
+      status: 'pass',
+      message: `${details.length} registr${details.length === 1 ? 'y' : 'ies'} configured`,
+      fixable: false,
+      details,
+    };
+  }
+
   // ============================================
   // Fix Methods
   // ============================================
@@ -444,6 +545,10 @@ export class DoctorService {
         this.fixSynapSyncDir();
         break;
 
+      case 'interrupted-transaction':
+        this.fixTransaction();
+        break;
+
       case 'manifest-exists':
       case 'manifest-consistency':
         this.fixManifest();
@@ -471,6 +576,13 @@ export class DoctorService {
     }
   }
 
+  private fixTransaction(): void {
+    const result = Transaction.recover(this.synapSyncDir);
+    if (result !== null && result.errors.length > 0) {
+      throw new Error(result.errors.map((e) => `${e.path}: ${e.message}`).join('; '));
+    }
+  }
+
   private fixManifest(): void {
     // Ensure directory exists
     this.fixSynapSyncDir();
@@ -479,8 +591,12 @@ export class DoctorService {
     const scanner = new CognitiveScanner(this.synapSyncDir);
     const manifest = new ManifestManager(this.synapSyncDir);
 
+    // Cognitives sharing a name are left for sync to report, not written over each other
     const scanned = scanner.scan();
-    const manifestCognitives = scanned.map((s) => scanner.toManifestCognitive(s));
+    const { collisions } = scanner.compare(scanned, manifest.getCognitives());
+    const manifestCognitives = scanner
+      .excludeCollided(scanned, collisions)
+      .map((s) => scanner.toManifestCognitive(s));
     const result = manifest.reconcile(manifestCognitives);
 
     manifest.applyReconciliation(result);
@@ -488,7 +604,7 @@ export class DoctorService {
   }
 
   private fixSymlinks(provider: SupportedProvider): void {
-    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir);
+    const symlink = new SymlinkManager(this.projectRoot, this.synapSyncDir, this.config);
     symlink.cleanProvider(provider);
   }
 
@@ -499,6 +615,7 @@ export class DoctorService {
     return [
       'node-version',
       'synapsync-dir',
+      'interrupted-transaction',
       'config-valid',
       'manifest-exists',
       'manifest-consistency',
@@ -4,7 +4,8 @@
  * Type definitions for update, doctor, and clean services
  */
 
-import type { CognitiveType, Category } from '../../core/constants.js';
+import type { CognitiveType, CognitiveSource, Category } from '../../core/constants.js';
+import type { UpdatePolicy } from '../config/schema.js';
 
 // ============================================
 // Update Types
@@ -18,9 +19,21 @@ export interface UpdateInfo {
   type: CognitiveType;
   category: Category;
   currentVersion: string;
-  latestVersion: string;
+  latestVersion: string; // newest version update may install
   hasUpdate: boolean;
-  source: 'registry' | 'local' | 'github';
+  source: CognitiveSource;
+  availableVersion?: string; // newest published version, when a policy stops short of it
+  skipReason?: string; // why availableVersion is not installed
+}
+
+/**
+ * Options for checking updates
+ */
+export interface UpdateCheckOptions {
+  /** Update policy per cognitive name */
+  policies?: Record<string, UpdatePolicy>;
+  /** Allow updates across major versions */
+  major?: boolean;
 }
 
 /**
@@ -30,6 +43,7 @@ export interface UpdateCheckResult {
   checked: number;
   updatesAvailable: UpdateInfo[];
   upToDate: UpdateInfo[];
+  skipped: UpdateInfo[]; // newer versions the update policies do not allow
   errors: UpdateError[];
   checkTime: string;
 }
@@ -143,7 +157,7 @@ export interface CleanResult {
  * A cleaned item
  */
 export interface CleanedItem {
-  type: 'cache' | 'orphan' | 'temp';
+  type: 'cache' | 'orphan' | 'temp' | 'history';
   path: string;
   size: number;
 }
@@ -166,6 +180,8 @@ export interface CleanOptions {
   orphans?: boolean;
   /** Clean temp files */
   temp?: boolean;
+  /** Clean previous versions kept for rollback */
+  history?: boolean;
   /** Clean everything */
   all?: boolean;
   /** Dry run */
@@ -4,15 +4,26 @@
  * Checks for available updates to installed cognitives
  */
 
-import type { UpdateInfo, UpdateCheckResult } from './types.js';
+import type { UpdateInfo, UpdateCheckOptions, UpdateCheckResult } from './types.js';
 import type { ManifestCognitive } from '../manifest/types.js';
+import type { UpdatePolicy } from '../config/schema.js';
 import { RegistryClient } from '../registry/client.js';
+import { parseVersion } from '../../utils/semver.js';
+
+/**
+ * Largest version change an update may make
+ */
+type UpdateLimit = 'major' | 'minor' | 'patch';
 
 export class UpdateChecker {
   private registry: RegistryClient;
+  private policies: Record<string, UpdatePolicy>;
+  private allowMajor: boolean;
 
-  constructor(registry?: RegistryClient) {
+  constructor(registry?: RegistryClient, options: UpdateCheckOptions = {}) {
     this.registry = registry ?? new RegistryClient();
+    this.policies = options.policies ?? {};
+    this.allowMajor = options.major ?? false;
   }
 
   /**
@@ -23,6 +34,7 @@ export class UpdateChecker {
       checked: 0,
       updatesAvailable: [],
       upToDate: [],
+      skipped: [],
       errors: [],
       checkTime: new Date().toISOString(),
     };
@@ -32,11 +44,13 @@ export class UpdateChecker {
 
     for (const cognitive of registryCognitives) {
       try {
-        const updateInfo = await this.checkOne(cognitive);
+        const updateInfo = this.applyHold(await this.checkOne(cognitive));
         result.checked++;
 
         if (updateInfo.hasUpdate) {
           result.updatesAvailable.push(updateInfo);
+        } else if (updateInfo.skipReason !== undefined) {
+          result.skipped.push(updateInfo);
         } else {
           result.upToDate.push(updateInfo);
         }
@@ -55,7 +69,7 @@ export class UpdateChecker {
    * Check a single cognitive for updates
    */
   async checkOne(cognitive: ManifestCognitive): Promise<UpdateInfo> {
-    const entry = await this.registry.findByName(cognitive.name);
+    const entry = await this.registry.findByName(cognitive.name, cognitive.registry);
 
     if (entry === null) {
       // Cognitive not in registry anymore
@@ -72,7 +86,7 @@ export class UpdateChecker {
 
     const hasUpdate = this.compareVersions(cognitive.version, entry.version) < 0;
 
-    return {
+    const info: UpdateInfo = {
       name: cognitive.name,
       type: cognitive.type,
       category: cognitive.category,
@@ -81,6 +95,64 @@ export class UpdateChecker {
       hasUpdate,
       source: cognitive.source,
     };
+    if (!hasUpdate) {
+      return info;
+    }
+
+    // Apply the update policy
+    const policy = this.policies[cognitive.name];
+    if (policy === 'pinned') {
+      return this.holdBack(info, null, 'pinned in config');
+    }
+
+    const limit = this.getLimit(policy);
+    if (isWithinLimit(cognitive.version, entry.version, limit)) {
+      return info;
+    }
+
+    // Newest published release within the limit
+    const versions = await this.registry.getVersions(entry);
+    const target = versions
+      .map((v) => v.version)
+      .filter((v) => parseVersion(v)?.prerelease.length === 0)
+      .filter((v) => this.compareVersions(cognitive.version, v) < 0 && isWithinLimit(cognitive.version, v, limit))
+      .sort((a, b) => this.compareVersions(b, a))[0];
+
+    const reason =
+      policy === 'minor' || policy === 'patch'
+        ? `policy allows ${policy} updates only`
+        : 'major update, use --major';
+    return this.holdBack(info, target ?? null, reason);
+  }
+
+  /**
+   * Skip a cognitive on hold, unless it was checked by name
+   */
+  private applyHold(info: UpdateInfo): UpdateInfo {
+    if (!info.hasUpdate || this.policies[info.name] !== 'hold') {
+      return info;
+    }
+    return this.holdBack(info, null, 'on hold, update it by name');
+  }
+
+  /**
+   * Stop an update short of the newest version, at a target or at the installed version
+   */
+  private holdBack(info: UpdateInfo, target: string | null, reason: string): UpdateInfo {
+    return {
+      ...info,
+      latestVersion: target ?? info.currentVersion,
+      hasUpdate: target !== null,
+      availableVersion: info.availableVersion ?? info.latestVersion,
+      skipReason: reason,
+    };
+  }
+
+  private getLimit(policy: UpdatePolicy | undefined): UpdateLimit {
+    if (policy === 'minor' || policy === 'patch') {
+      return policy;
+    }
+    return policy === 'major' || this.allowMajor ? 'major' : 'minor';
   }
 
   /**
@@ -120,3 +192,24 @@ export class UpdateChecker {
     return this.registry;
   }
 }
+
+/**
+ * Whether going from one version to another stays within an update limit
+ * Unparseable versions are not limited
+ */
+function isWithinLimit(from: string, to: string, limit: UpdateLimit): boolean {
+  const current = parseVersion(from);
+  const next = parseVersion(to);
+  if (current === null || next === null) {
+    return true;
+  }
+
+  switch (limit) {
+    case 'major':
+      return true;
+    case 'minor':
+      return next.major === current.major;
+    case 'patch':
+      return next.major === current.major && next.minor === current.minor;
+  }
+}
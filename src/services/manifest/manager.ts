@@ -13,7 +13,7 @@ import type {
   ReconciliationResult,
 } from './types.js';
 import { DEFAULT_MANIFEST } from './types.js';
-import type { SupportedProvider } from '../../core/constants.js';
+import type { CognitiveSource, SupportedProvider } from '../../core/constants.js';
 
 export class ManifestManager {
   private manifestPath: string;
@@ -227,7 +227,7 @@ export class ManifestManager {
   /**
    * Get cognitives by source
    */
-  getCognitivesBySource(source: 'registry' | 'local' | 'github'): ManifestCognitive[] {
+  getCognitivesBySource(source: CognitiveSource): ManifestCognitive[] {
     return Object.values(this.manifest.cognitives).filter((c) => c.source === source);
   }
 }
@@ -4,7 +4,7 @@
  * Type definitions for the SynapSync manifest.json file
  */
 
-import type { CognitiveType, Category, SupportedProvider } from '../../core/constants.js';
+import type { CognitiveType, CognitiveSource, Category, SupportedProvider } from '../../core/constants.js';
 
 /**
  * Installed cognitive entry in the manifest
@@ -15,9 +15,15 @@ export interface ManifestCognitive {
   category: Category;
   version: string;
   installedAt: string;
-  source: 'registry' | 'local' | 'github';
+  source: CognitiveSource;
   sourceUrl?: string;
+  registry?: string; // name of the registry it was installed from
+  ref?: string; // github: branch/tag requested
+  commit?: string; // github: commit the ref resolved to
   hash?: string;
+  dependency?: boolean; // installed only to satisfy another cognitive's dependencies
+  collection?: string; // registry collection it was installed with
+  conflicted?: boolean; // update left conflict markers in the main file
 }
 
 /**
@@ -27,6 +33,7 @@ export interface ProviderSyncState {
   lastSync: string;
   method: 'symlink' | 'copy';
   cognitives: string[];
+  paths?: Partial<Record<CognitiveType, string>>; // folders synced to, to move links when they change
 }
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * Line Diff
+ *
+ * Longest-common-subsequence line diff, shared by the three-way merge
+ * and the unified diffs shown before an update
+ */
+
+import type { LineChange, UnifiedDiffOptions } from './types.js';
+
+const DEFAULT_CONTEXT = 3;
+
+// ============================================
+// Diffing
+// ============================================
+
+/**
+ * Changes turning base into other, from their longest common subsequence of lines
+ */
+export function diffLines(base: string[], other: string[]): LineChange[] {
+  const width = other.length + 1;
+  const lcs = new Uint32Array((base.length + 1) * width);
+  const at = (i: number, j: number): number => lcs[i * width + j] ?? 0;
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        base[i] === other[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let change: LineChange | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < base.length || j < other.length) {
+    if (i < base.length && j < other.length && base[i] === other[j]) {
+      if (change !== null) changes.push(change);
+      change = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    change ??= { baseStart: i, baseEnd: i, start: j, end: j };
+    if (j >= other.length || (i < base.length && at(i + 1, j) >= at(i, j + 1))) {
+      change.baseEnd = ++i;
+    } else {
+      change.end = ++j;
+    }
+  }
+  if (change !== null) changes.push(change);
+
+  return changes;
+}
+
+/**
+ * Unified diff (diff -u) between two texts, empty when they are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const changes = diffLines(oldLines, newLines);
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Changes whose context lines touch share a hunk
+  const groups: LineChange[][] = [];
+  for (const change of changes) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (
+      current !== undefined &&
+      previous !== undefined &&
+      change.baseStart - previous.baseEnd <= context * 2
+    ) {
+      current.push(change);
+    } else {
+      groups.push([change]);
+    }
+  }
+
+  const output = [`--- ${options.from ?? 'a'}`, `+++ ${options.to ?? 'b'}`];
+
+  for (const group of groups) {
+    const first = group[0] as LineChange;
+    const last = group[group.length - 1] as LineChange;
+    const oldStart = Math.max(0, first.baseStart - context);
+    const oldEnd = Math.min(oldLines.length, last.baseEnd + context);
+    const newStart = first.start - (first.baseStart - oldStart);
+    const newEnd = last.end + (oldEnd - last.baseEnd);
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldEnd - oldStart)} +${formatRange(newStart, newEnd - newStart)} @@`
+    );
+
+    let position = oldStart;
+    for (const change of group) {
+      output.push(...oldLines.slice(position, change.baseStart).map((line) => ` ${line}`));
+      output.push(...oldLines.slice(change.baseStart, change.baseEnd).map((line) => `-${line}`));
+      output.push(...newLines.slice(change.start, change.end).map((line) => `+${line}`));
+      position = change.baseEnd;
+    }
+    output.push(...oldLines.slice(position, oldEnd).map((line) => ` ${line}`));
+  }
+
+  return output.join('\n');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Hunk range as written in @@ lines: 1-based start, or the line before an empty range
+ */
+function formatRange(start: number, length: number): string {
+  return length === 1 ? `${start + 1}` : `${length === 0 ? start : start + 1},${length}`;
+}
@@ -0,0 +1,7 @@
+/**
+ * Merge service exports
+ */
+
+export * from './diff.js';
+export * from './merge.js';
+export * from './types.js';
@@ -0,0 +1,124 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based diff3: a change made on one side since the base is taken as is,
+ * changes made on both sides to the same lines become conflicts
+ */
+
+import { diffLines } from './diff.js';
+import type { LineChange, MergeLabels, MergeResult } from './types.js';
+
+type Side = 'ours' | 'theirs';
+
+/**
+ * A change made by one side since the base
+ */
+interface Hunk extends LineChange {
+  side: Side;
+}
+
+const DEFAULT_LABELS: MergeLabels = { ours: 'local', theirs: 'upstream' };
+
+// ============================================
+// Merging
+// ============================================
+
+/**
+ * Merge the changes of ours and theirs since base
+ * Conflicting regions are written with standard <<<<<<< ======= >>>>>>> markers
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = DEFAULT_LABELS
+): MergeResult {
+  const baseLines = base.split('\n');
+  const lines: Record<Side, string[]> = { ours: ours.split('\n'), theirs: theirs.split('\n') };
+  const hunks = [
+    ...diffLines(baseLines, lines.ours).map((change): Hunk => ({ ...change, side: 'ours' })),
+    ...diffLines(baseLines, lines.theirs).map((change): Hunk => ({ ...change, side: 'theirs' })),
+  ].sort((a, b) =>
+    a.baseStart !== b.baseStart ? a.baseStart - b.baseStart : a.baseEnd - b.baseEnd
+  );
+
+  // Group the hunks of both sides that touch the same base lines
+  const groups: Hunk[][] = [];
+  for (const hunk of hunks) {
+    const current = groups[groups.length - 1];
+    if (current !== undefined && hunk.baseStart <= getEnd(current)) {
+      current.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  }
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let copied = 0; // base lines already written
+
+  for (const group of groups) {
+    const start = Math.min(...group.map((h) => h.baseStart));
+    const end = getEnd(group);
+    output.push(...baseLines.slice(copied, start));
+    copied = end;
+
+    const oursRegion = getRegion(group, 'ours', lines.ours, baseLines, start, end);
+    const theirsRegion = getRegion(group, 'theirs', lines.theirs, baseLines, start, end);
+    const changedBy = new Set(group.map((h) => h.side));
+
+    if (!changedBy.has('theirs') || oursRegion.join('\n') === theirsRegion.join('\n')) {
+      output.push(...oursRegion);
+    } else if (!changedBy.has('ours')) {
+      output.push(...theirsRegion);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...oursRegion,
+        '=======',
+        ...theirsRegion,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+  }
+
+  output.push(...baseLines.slice(copied));
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Whether a file still holds conflict markers from a merge
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}( |$)/m.test(content) && /^={7}$/m.test(content) && /^>{7}( |$)/m.test(content);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function getEnd(group: Hunk[]): number {
+  return Math.max(...group.map((h) => h.baseEnd));
+}
+
+/**
+ * Lines of one side covering base lines [start, end)
+ * Outside its hunks a side equals the base, so the region is found by offset
+ */
+function getRegion(
+  group: Hunk[],
+  side: Side,
+  sideLines: string[],
+  baseLines: string[],
+  start: number,
+  end: number
+): string[] {
+  const own = group.filter((h) => h.side === side);
+  const first = own[0];
+  const last = own[own.length - 1];
+  if (first === undefined || last === undefined) {
+    return baseLines.slice(start, end);
+  }
+  return sideLines.slice(first.start - (first.baseStart - start), last.end + (end - last.baseEnd));
+}
@@ -0,0 +1,46 @@
+/**
+ * Merge Types
+ *
+ * Type definitions for three-way merges of cognitive files
+ */
+
+/**
+ * How local edits meet an upstream change
+ * merge: three-way merge; ours: keep the local file; theirs: take upstream as is
+ */
+export type MergeStrategy = 'merge' | 'ours' | 'theirs';
+
+/**
+ * Names written after the conflict markers
+ */
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  content: string;
+  conflicts: number; // regions written with conflict markers
+}
+
+/**
+ * Lines [baseStart, baseEnd) of the old text replaced by lines [start, end) of the new one
+ */
+export interface LineChange {
+  baseStart: number;
+  baseEnd: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Options for a unified diff
+ */
+export interface UnifiedDiffOptions {
+  from?: string; // label of the old text (--- line)
+  to?: string; // label of the new text (+++ line)
+  context?: number; // unchanged lines around each change
+}
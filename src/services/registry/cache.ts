@@ -0,0 +1,124 @@
+/**
+ * Registry Cache
+ *
+ * Persists registry responses (index, manifests, content, assets) on disk
+ * so they can be revalidated with ETag/Last-Modified or served offline
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Metadata stored next to each cached response
+ */
+export interface CacheEntryMeta {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+}
+
+/**
+ * A cached response body with its metadata
+ */
+export interface CacheEntry {
+  meta: CacheEntryMeta;
+  body: Buffer;
+}
+
+// ============================================
+// RegistryCache Class
+// ============================================
+
+export class RegistryCache {
+  private cacheDir: string;
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  /**
+   * Get a cached response by URL
+   */
+  get(url: string): CacheEntry | null {
+    const { bodyPath, metaPath } = this.getPaths(url);
+
+    if (!fs.existsSync(bodyPath) || !fs.existsSync(metaPath)) {
+      return null;
+    }
+
+    try {
+      const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as CacheEntryMeta;
+      const body = fs.readFileSync(bodyPath);
+      return { meta, body };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if a URL has a cached response
+   */
+  has(url: string): boolean {
+    return this.get(url) !== null;
+  }
+
+  /**
+   * Store a response body and its metadata
+   */
+  set(url: string, body: Buffer, meta: Omit<CacheEntryMeta, 'url' | 'fetchedAt'> = {}): void {
+    const { bodyPath, metaPath } = this.getPaths(url);
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(bodyPath, body);
+
+      const entryMeta: CacheEntryMeta = { url, fetchedAt: new Date().toISOString() };
+      if (meta.etag !== undefined) entryMeta.etag = meta.etag;
+      if (meta.lastModified !== undefined) entryMeta.lastModified = meta.lastModified;
+      fs.writeFileSync(metaPath, JSON.stringify(entryMeta, null, 2), 'utf-8');
+    } catch {
+      // Caching is best-effort, never fail a fetch because of it
+    }
+  }
+
+  /**
+   * Mark a cached entry as revalidated (304 Not Modified)
+   */
+  touch(url: string): void {
+    const entry = this.get(url);
+    if (entry === null) return;
+
+    const { metaPath } = this.getPaths(url);
+    try {
+      entry.meta.fetchedAt = new Date().toISOString();
+      fs.writeFileSync(metaPath, JSON.stringify(entry.meta, null, 2), 'utf-8');
+    } catch {
+      // Ignore - the cached body is still valid
+    }
+  }
+
+  /**
+   * Get the cache directory
+   */
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private getPaths(url: string): { bodyPath: string; metaPath: string } {
+    const key = crypto.createHash('sha256').update(url).digest('hex').slice(0, 32);
+    return {
+      bodyPath: path.join(this.cacheDir, `${key}.body`),
+      metaPath: path.join(this.cacheDir, `${key}.meta.json`),
+    };
+  }
+}
@@ -4,17 +4,36 @@
  * Handles fetching and querying the SynapSync public registry
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
 import {
   REGISTRY_BASE_URL,
   REGISTRY_INDEX_FILE,
   REGISTRY_MANIFEST_FILE,
+  REGISTRY_VERSIONS_FILE,
+  REGISTRY_CHANGELOG_FILE,
+  REGISTRY_CACHE_SUBDIR,
+  CACHE_DIR_NAME,
+  OFFLINE_ENV_VAR,
+  DEFAULT_REGISTRY_NAME,
 } from '../../core/constants.js';
+import { RegistryCache } from './cache.js';
+import { CredentialStore, getAuthorizationHeader, redactHeaders } from './credentials.js';
+import { logger } from '../../utils/logger.js';
+import { compareVersions, isValidRange, maxSatisfying } from '../../utils/semver.js';
+import { parseChangelog } from '../../utils/changelog.js';
+import type { ProjectConfig, RegistryConfig } from '../config/schema.js';
 import type {
   RegistryIndex,
   RegistryCognitiveEntry,
+  RegistryCollectionEntry,
   CognitiveManifest,
   RegistrySearchResult,
   DownloadedCognitive,
+  RegistryVersionEntry,
+  RegistryVersionsListing,
+  ChangelogEntry,
   CognitiveType,
   Category,
 } from '../../types/index.js';
@@ -32,8 +51,16 @@ export interface SearchOptions {
 
 export interface RegistryClientOptions {
   baseUrl?: string;
+  registries?: RegistryConfig[]; // multiple registries (takes precedence over baseUrl)
   cacheDir?: string;
+  credentials?: CredentialStore | null; // per-registry auth, looked up by registry URL
   cacheTtl?: number; // milliseconds
+  offline?: boolean; // serve everything from cacheDir, never hit the network
+}
+
+export interface DownloadOptions {
+  registry?: string; // preferred registry, e.g. the one it was installed from
+  version?: string; // exact version or semver range (default: latest)
 }
 
 // ============================================
@@ -41,14 +68,33 @@ export interface RegistryClientOptions {
 // ============================================
 
 export class RegistryClient {
-  private baseUrl: string;
+  private registries: RegistryConfig[];
   private indexCache: RegistryIndex | null = null;
   private indexCacheTime: number = 0;
+  private registryIndexCache = new Map<string, RegistryIndex>();
   private cacheTtl: number;
+  private diskCache: RegistryCache | null;
+  private credentials: CredentialStore | null;
+  private offline: boolean;
 
   constructor(options: RegistryClientOptions = {}) {
-    this.baseUrl = options.baseUrl ?? REGISTRY_BASE_URL;
+    const registries =
+      options.registries !== undefined && options.registries.length > 0
+        ? options.registries
+        : [{ name: DEFAULT_REGISTRY_NAME, url: options.baseUrl ?? REGISTRY_BASE_URL }];
+
+    // Highest priority first; declaration order breaks ties
+    this.registries = registries
+      .map((r, i) => ({ r, i }))
+      .sort((a, b) => {
+        const byPriority = (b.r.priority ?? 0) - (a.r.priority ?? 0);
+        return byPriority !== 0 ? byPriority : a.i - b.i;
+      })
+      .map(({ r }) => ({ ...r, url: r.url.replace(/\/+$/, '') }));
     this.cacheTtl = options.cacheTtl ?? 5 * 60 * 1000; // 5 minutes default
+    this.diskCache = options.cacheDir !== undefined ? new RegistryCache(options.cacheDir) : null;
+    this.credentials = options.credentials ?? null;
+    this.offline = options.offline ?? isOfflineMode();
   }
 
   // ============================================
@@ -56,7 +102,11 @@ export class RegistryClient {
   // ============================================
 
   /**
-   * Fetch the registry index
+   * Fetch the merged index of all configured registries
+   *
+   * Entries are tagged with the registry they came from. When the same
+   * name is published in several registries, the highest priority wins.
+   * A registry that cannot be fetched is skipped unless all of them fail.
    */
   async getIndex(forceRefresh = false): Promise<RegistryIndex> {
     const now = Date.now();
@@ -66,17 +116,69 @@ export class RegistryClient {
       return this.indexCache;
     }
 
-    const url = `${this.baseUrl}/${REGISTRY_INDEX_FILE}`;
-    const response = await this.fetch(url);
+    const cognitives: RegistryCognitiveEntry[] = [];
+    const collections: RegistryCollectionEntry[] = [];
+    const seen = new Set<string>();
+    const seenCollections = new Set<string>();
+    let firstIndex: RegistryIndex | null = null;
+    let firstError: unknown = null;
+
+    for (const registry of this.registries) {
+      let index: RegistryIndex;
+      try {
+        index = await this.getRegistryIndex(registry, forceRefresh);
+      } catch (error) {
+        logger.debug(`Skipping registry ${registry.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
+        firstError ??= error;
+        continue;
+      }
 
-    if (!response.ok) {
-      throw new RegistryError(`Failed to fetch registry index: ${response.status} ${response.statusText}`, url);
+      firstIndex ??= index;
+      for (const entry of index.cognitives) {
+        if (seen.has(entry.name) || !this.servesName(registry, entry.name)) continue;
+        seen.add(entry.name);
+        cognitives.push(entry);
+      }
+      for (const entry of index.collections ?? []) {
+        if (seenCollections.has(entry.name) || !this.servesName(registry, entry.name)) continue;
+        seenCollections.add(entry.name);
+        collections.push(entry);
+      }
+    }
+
+    if (firstIndex === null) {
+      throw firstError;
     }
 
-    const index = (await response.json()) as RegistryIndex;
-    this.indexCache = index;
+    const merged: RegistryIndex = {
+      ...firstIndex,
+      totalCognitives: cognitives.length,
+      cognitives,
+      collections,
+    };
+    this.indexCache = merged;
     this.indexCacheTime = now;
 
+    return merged;
+  }
+
+  /**
+   * Fetch the index of a single registry
+   */
+  private async getRegistryIndex(registry: RegistryConfig, forceRefresh: boolean): Promise<RegistryIndex> {
+    const memoized = this.registryIndexCache.get(registry.name);
+    if (!forceRefresh && memoized !== undefined) {
+      return memoized;
+    }
+
+    const url = `${registry.url}/${REGISTRY_INDEX_FILE}`;
+    const body = await this.fetchCached(url, `registry index (${registry.name})`);
+
+    const index = JSON.parse(body.toString('utf-8')) as RegistryIndex;
+    index.cognitives = index.cognitives.map((c) => ({ ...c, registry: registry.name }));
+    index.collections = (index.collections ?? []).map((c) => ({ ...c, registry: registry.name }));
+    this.registryIndexCache.set(registry.name, index);
+
     return index;
   }
 
@@ -147,10 +249,70 @@ export class RegistryClient {
 
   /**
    * Find a cognitive by name
+   * Scoped names (@scope/name) are only looked up in registries serving that scope.
+   * A preferred registry (e.g. the one it was installed from) is tried first.
    */
-  async findByName(name: string): Promise<RegistryCognitiveEntry | null> {
-    const index = await this.getIndex();
-    return index.cognitives.find((c) => c.name === name) ?? null;
+  async findByName(name: string, preferredRegistry?: string): Promise<RegistryCognitiveEntry | null> {
+    let firstError: unknown = null;
+    let reached = false;
+
+    const candidates = this.getRegistriesFor(name);
+    const preferred = this.registries.find((r) => r.name === preferredRegistry);
+    if (preferred !== undefined) {
+      candidates.sort((a, b) => Number(b === preferred) - Number(a === preferred));
+    }
+
+    for (const registry of candidates) {
+      try {
+        const index = await this.getRegistryIndex(registry, false);
+        reached = true;
+        const entry = index.cognitives.find((c) => c.name === name);
+        if (entry !== undefined) {
+          return entry;
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (!reached && firstError !== null) {
+      throw firstError;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a collection by name, with the same registry rules as findByName
+   */
+  async findCollection(name: string, preferredRegistry?: string): Promise<RegistryCollectionEntry | null> {
+    let firstError: unknown = null;
+    let reached = false;
+
+    const candidates = this.getRegistriesFor(name);
+    const preferred = this.registries.find((r) => r.name === preferredRegistry);
+    if (preferred !== undefined) {
+      candidates.sort((a, b) => Number(b === preferred) - Number(a === preferred));
+    }
+
+    for (const registry of candidates) {
+      try {
+        const index = await this.getRegistryIndex(registry, false);
+        reached = true;
+        const entry = index.collections?.find((c) => c.name === name);
+        if (entry !== undefined) {
+          return entry;
+        }
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+
+    if (!reached && firstError !== null) {
+      throw firstError;
+    }
+
+    return null;
   }
 
   /**
@@ -169,74 +331,146 @@ export class RegistryClient {
    * Get the manifest for a cognitive
    */
   async getManifest(cognitiveEntry: RegistryCognitiveEntry): Promise<CognitiveManifest> {
-    const url = `${this.baseUrl}/${cognitiveEntry.path}/${REGISTRY_MANIFEST_FILE}`;
-    const response = await this.fetch(url);
-
-    if (!response.ok) {
-      throw new RegistryError(
-        `Failed to fetch manifest for ${cognitiveEntry.name}: ${response.status} ${response.statusText}`,
-        url
-      );
-    }
+    const url = `${this.getEntryBaseUrl(cognitiveEntry)}/${cognitiveEntry.path}/${REGISTRY_MANIFEST_FILE}`;
+    const body = await this.fetchCached(url, `manifest for ${cognitiveEntry.name}`);
 
-    return (await response.json()) as CognitiveManifest;
+    return JSON.parse(body.toString('utf-8')) as CognitiveManifest;
   }
 
   /**
    * Get the content file for a cognitive
    */
   async getContent(cognitiveEntry: RegistryCognitiveEntry, manifest: CognitiveManifest): Promise<string> {
-    const url = `${this.baseUrl}/${cognitiveEntry.path}/${manifest.file}`;
-    const response = await this.fetch(url);
+    const url = `${this.getEntryBaseUrl(cognitiveEntry)}/${cognitiveEntry.path}/${manifest.file}`;
+    const body = await this.fetchCached(url, `content for ${cognitiveEntry.name}`);
 
-    if (!response.ok) {
-      throw new RegistryError(
-        `Failed to fetch content for ${cognitiveEntry.name}: ${response.status} ${response.statusText}`,
-        url
+    return body.toString('utf-8');
+  }
+
+  // ============================================
+  // Versions
+  // ============================================
+
+  /**
+   * List the published versions of a cognitive, newest first
+   * Registries without a versions listing only serve the indexed version
+   */
+  async getVersions(cognitiveEntry: RegistryCognitiveEntry): Promise<RegistryVersionEntry[]> {
+    const current: RegistryVersionEntry = { version: cognitiveEntry.version, path: cognitiveEntry.path };
+    const url = `${this.getEntryBaseUrl(cognitiveEntry)}/${cognitiveEntry.path}/${REGISTRY_VERSIONS_FILE}`;
+
+    let listing: RegistryVersionsListing;
+    try {
+      const body = await this.fetchCached(url, `versions for ${cognitiveEntry.name}`);
+      listing = JSON.parse(body.toString('utf-8')) as RegistryVersionsListing;
+    } catch (error) {
+      if (error instanceof RegistryError && error.status === 404) {
+        return [current];
+      }
+      throw error;
+    }
+
+    const versions = listing.versions.filter((v) => v.version !== current.version);
+    return [current, ...versions].sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  /**
+   * Resolve the index entry of a cognitive at a version or range
+   * Returns the entry itself when no version is requested
+   */
+  async resolveVersion(
+    cognitiveEntry: RegistryCognitiveEntry,
+    range?: string
+  ): Promise<RegistryCognitiveEntry> {
+    if (range === undefined || range === 'latest' || range === cognitiveEntry.version) {
+      return cognitiveEntry;
+    }
+
+    if (!isValidRange(range)) {
+      throw new VersionNotFoundError(cognitiveEntry.name, range, []);
+    }
+
+    const versions = await this.getVersions(cognitiveEntry);
+    const resolved = maxSatisfying(
+      versions.map((v) => v.version),
+      range
+    );
+    const match = versions.find((v) => v.version === resolved);
+
+    if (match === undefined) {
+      throw new VersionNotFoundError(
+        cognitiveEntry.name,
+        range,
+        versions.map((v) => v.version)
       );
     }
 
-    return response.text();
+    return { ...cognitiveEntry, version: match.version, path: match.path };
   }
 
   /**
    * Download a cognitive (manifest + content)
    */
-  async download(name: string): Promise<DownloadedCognitive> {
+  async download(name: string, options: DownloadOptions = {}): Promise<DownloadedCognitive> {
     // Find in registry
-    const entry = await this.findByName(name);
-    if (entry === null) {
+    const latest = await this.findByName(name, options.registry);
+    if (latest === null) {
       throw new CognitiveNotFoundError(name);
     }
 
+    const entry = await this.resolveVersion(latest, options.version);
+
     // Get manifest
     const manifest = await this.getManifest(entry);
 
     // Get content
     const content = await this.getContent(entry, manifest);
 
-    return {
+    const downloaded: DownloadedCognitive = {
       manifest,
       content,
       path: entry.path,
+      version: entry.version,
     };
+    if (entry.registry !== undefined) {
+      downloaded.registry = entry.registry;
+    }
+    return downloaded;
   }
 
   /**
-   * Download additional assets for a cognitive
+   * Release notes of a cognitive version, from its manifest or its CHANGELOG.md
+   * Empty when the cognitive publishes neither
    */
-  async downloadAsset(cognitiveEntry: RegistryCognitiveEntry, assetPath: string): Promise<string> {
-    const url = `${this.baseUrl}/${cognitiveEntry.path}/${assetPath}`;
-    const response = await this.fetch(url);
+  async getChangelog(name: string, options: DownloadOptions = {}): Promise<ChangelogEntry[]> {
+    const latest = await this.findByName(name, options.registry);
+    if (latest === null) {
+      throw new CognitiveNotFoundError(name);
+    }
 
-    if (!response.ok) {
-      throw new RegistryError(
-        `Failed to fetch asset ${assetPath} for ${cognitiveEntry.name}: ${response.status} ${response.statusText}`,
-        url
-      );
+    const entry = await this.resolveVersion(latest, options.version);
+    const manifest = await this.getManifest(entry);
+    if (manifest.changelog !== undefined) {
+      return manifest.changelog;
     }
 
-    return response.text();
+    try {
+      const body = await this.downloadAsset(entry, REGISTRY_CHANGELOG_FILE);
+      return parseChangelog(body.toString('utf-8'));
+    } catch (error) {
+      if (error instanceof RegistryError && error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Download an additional file of a cognitive as raw bytes
+   */
+  async downloadAsset(cognitiveEntry: RegistryCognitiveEntry, assetPath: string): Promise<Buffer> {
+    const url = `${this.getEntryBaseUrl(cognitiveEntry)}/${cognitiveEntry.path}/${assetPath}`;
+    return this.fetchCached(url, `asset ${assetPath} for ${cognitiveEntry.name}`);
   }
 
   // ============================================
@@ -247,13 +481,23 @@ export class RegistryClient {
    * Check if registry is reachable
    */
   async ping(): Promise<boolean> {
-    try {
-      const url = `${this.baseUrl}/${REGISTRY_INDEX_FILE}`;
-      const response = await this.fetch(url, { method: 'HEAD' });
-      return response.ok;
-    } catch {
+    if (this.offline) {
       return false;
     }
+
+    for (const registry of this.registries) {
+      try {
+        const url = `${registry.url}/${REGISTRY_INDEX_FILE}`;
+        const response = await this.fetch(url, { method: 'HEAD' });
+        if (response.ok) {
+          return true;
+        }
+      } catch {
+        // Try the next registry
+      }
+    }
+
+    return false;
   }
 
   /**
@@ -262,27 +506,207 @@ export class RegistryClient {
   clearCache(): void {
     this.indexCache = null;
     this.indexCacheTime = 0;
+    this.registryIndexCache.clear();
   }
 
   /**
-   * Get the base URL
+   * Get the base URL of the highest priority registry
    */
   getBaseUrl(): string {
-    return this.baseUrl;
+    return this.registries[0]?.url ?? REGISTRY_BASE_URL;
+  }
+
+  /**
+   * Get the configured registries, highest priority first
+   */
+  getRegistries(): RegistryConfig[] {
+    return [...this.registries];
+  }
+
+  /**
+   * Get the base URL of a registry by name
+   */
+  getRegistryUrl(name: string): string | null {
+    return this.registries.find((r) => r.name === name)?.url ?? null;
+  }
+
+  /**
+   * Check if the client is in offline mode
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Check if a registry index is available in the disk cache
+   */
+  hasCachedIndex(): boolean {
+    return this.registries.some(
+      (r) => this.diskCache?.has(`${r.url}/${REGISTRY_INDEX_FILE}`) ?? false
+    );
   }
 
   // ============================================
   // Private Methods
   // ============================================
 
+  /**
+   * Registries that may serve a cognitive name, highest priority first
+   * - @scope/name: registries declaring that scope, else unscoped registries
+   * - name: unscoped registries only
+   */
+  private getRegistriesFor(name: string): RegistryConfig[] {
+    const scope = getScope(name);
+    if (scope !== null) {
+      const scoped = this.registries.filter((r) => r.scopes?.includes(scope) === true);
+      if (scoped.length > 0) {
+        return scoped;
+      }
+    }
+    return this.registries.filter((r) => r.scopes === undefined || r.scopes.length === 0);
+  }
+
+  /**
+   * Check if a registry is allowed to serve a cognitive name
+   */
+  private servesName(registry: RegistryConfig, name: string): boolean {
+    return this.getRegistriesFor(name).some((r) => r.name === registry.name);
+  }
+
+  /**
+   * Get the base URL of the registry an entry came from
+   */
+  private getEntryBaseUrl(entry: RegistryCognitiveEntry): string {
+    if (entry.registry !== undefined) {
+      const url = this.getRegistryUrl(entry.registry);
+      if (url !== null) return url;
+    }
+    return this.getBaseUrl();
+  }
+
+  /**
+   * Fetch a registry resource through the disk cache
+   *
+   * - Offline: serve from cache or fail
+   * - Online: revalidate with If-None-Match / If-Modified-Since,
+   *   falling back to the cached copy on network errors
+   * - file: registries are read from disk, uncached and offline too
+   */
+  private async fetchCached(url: string, description: string): Promise<Buffer> {
+    if (url.startsWith('file:')) {
+      const response = readFileUrl(url);
+      if (!response.ok) {
+        throw new RegistryError(
+          `Failed to fetch ${description}: ${response.status} ${response.statusText}`,
+          url,
+          response.status
+        );
+      }
+      return Buffer.from(await response.arrayBuffer());
+    }
+
+    const cached = this.diskCache?.get(url) ?? null;
+
+    if (this.offline) {
+      if (cached !== null) {
+        return cached.body;
+      }
+      throw new RegistryOfflineError(description, url);
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.meta.etag !== undefined) {
+      headers['If-None-Match'] = cached.meta.etag;
+    }
+    if (cached?.meta.lastModified !== undefined) {
+      headers['If-Modified-Since'] = cached.meta.lastModified;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(url, { headers });
+    } catch (error) {
+      if (cached !== null) {
+        return cached.body;
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached !== null) {
+      this.diskCache?.touch(url);
+      return cached.body;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new RegistryAuthError(description, url, response.status, this.getRegistryForUrl(url)?.name);
+    }
+
+    if (!response.ok) {
+      throw new RegistryError(
+        `Failed to fetch ${description}: ${response.status} ${response.statusText}`,
+        url,
+        response.status
+      );
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+
+    const meta: { etag?: string; lastModified?: string } = {};
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    if (etag !== null) meta.etag = etag;
+    if (lastModified !== null) meta.lastModified = lastModified;
+    this.diskCache?.set(url, body, meta);
+
+    return body;
+  }
+
+  /**
+   * Find the registry a URL belongs to (longest matching base URL)
+   */
+  private getRegistryForUrl(url: string): RegistryConfig | null {
+    let match: RegistryConfig | null = null;
+    for (const registry of this.registries) {
+      if (url.startsWith(`${registry.url}/`) && (match === null || registry.url.length > match.url.length)) {
+        match = registry;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Authorization header for the registry a URL belongs to
+   * Credentials are only ever sent to the URL they were stored for
+   */
+  private getAuthHeaders(url: string): Record<string, string> {
+    const registry = this.getRegistryForUrl(url);
+    if (registry === null || this.credentials === null) {
+      return {};
+    }
+
+    const credential = this.credentials.get(registry.url);
+    const authorization = credential !== null ? getAuthorizationHeader(credential) : null;
+    return authorization !== null ? { Authorization: authorization } : {};
+  }
+
   private async fetch(url: string, options?: RequestInit): Promise<Response> {
+    const headers: Record<string, string> = {
+      'User-Agent': 'SynapSync-CLI',
+      ...this.getAuthHeaders(url),
+      ...(options?.headers as Record<string, string> | undefined),
+    };
+
+    logger.debug(`${options?.method ?? 'GET'} ${url} ${JSON.stringify(redactHeaders(headers))}`);
+
+    // fetch in Node does not implement file: URLs
+    if (url.startsWith('file:')) {
+      return readFileUrl(url);
+    }
+
     try {
       return await fetch(url, {
         ...options,
-        headers: {
-          'User-Agent': 'SynapSync-CLI',
-          ...options?.headers,
-        },
+        headers,
       });
     } catch (error) {
       if (error instanceof Error) {
@@ -293,6 +717,23 @@ export class RegistryClient {
   }
 }
 
+/**
+ * Read a file: URL as a fetch response, 404 when the file is missing
+ */
+function readFileUrl(url: string): Response {
+  let filePath: string;
+  try {
+    filePath = fileURLToPath(url);
+  } catch {
+    throw new RegistryError(`Invalid file URL: ${url}`, url);
+  }
+
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    return new Response(null, { status: 404, statusText: 'Not Found' });
+  }
+  return new Response(fs.readFileSync(filePath));
+}
+
 // ============================================
 // Custom Errors
 // ============================================
@@ -300,16 +741,123 @@ export class RegistryClient {
 export class RegistryError extends Error {
   constructor(
     message: string,
-    public url: string
+    public url: string,
+    public status?: number
   ) {
     super(message);
     this.name = 'RegistryError';
   }
 }
 
+export class RegistryOfflineError extends RegistryError {
+  constructor(description: string, url: string) {
+    super(`Offline mode: ${description} is not available in the local cache`, url);
+    this.name = 'RegistryOfflineError';
+  }
+}
+
+export class RegistryAuthError extends RegistryError {
+  constructor(
+    description: string,
+    url: string,
+    status: number,
+    public registryName?: string
+  ) {
+    super(
+      `Failed to fetch ${description}: ${status === 401 ? 'authentication required' : 'access denied'}`,
+      url,
+      status
+    );
+    this.name = 'RegistryAuthError';
+  }
+}
+
 export class CognitiveNotFoundError extends Error {
   constructor(public cognitiveName: string) {
     super(`Cognitive '${cognitiveName}' not found in registry`);
     this.name = 'CognitiveNotFoundError';
   }
 }
+
+export class VersionNotFoundError extends Error {
+  constructor(
+    public cognitiveName: string,
+    public range: string,
+    public available: string[]
+  ) {
+    super(`No version of '${cognitiveName}' matches '${range}'`);
+    this.name = 'VersionNotFoundError';
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Check if offline mode was requested (global --offline flag)
+ */
+export function isOfflineMode(): boolean {
+  return process.env[OFFLINE_ENV_VAR] === '1';
+}
+
+/**
+ * Split a registry specifier into name and version range
+ * code-review@^1.2 → { name: 'code-review', version: '^1.2' }
+ * @acme/deploy@1.0.0 → { name: '@acme/deploy', version: '1.0.0' }
+ */
+export function parseRegistrySpecifier(specifier: string): { name: string; version?: string } {
+  const atIndex = specifier.lastIndexOf('@');
+  if (atIndex <= 0) {
+    return { name: specifier };
+  }
+
+  const version = specifier.slice(atIndex + 1);
+  return version === ''
+    ? { name: specifier.slice(0, atIndex) }
+    : { name: specifier.slice(0, atIndex), version };
+}
+
+/**
+ * Get the scope of a cognitive name (@scope/name → @scope)
+ */
+export function getScope(name: string): string | null {
+  if (!name.startsWith('@')) return null;
+  const slashIndex = name.indexOf('/');
+  return slashIndex > 1 ? name.slice(0, slashIndex) : null;
+}
+
+/**
+ * Create a registry client for a project
+ * Uses the registries declared in the config and the project's on-disk cache.
+ * Without a project, only the default registry is used, memoized in memory.
+ */
+export function createRegistryClient(
+  synapSyncDir?: string,
+  config?: ProjectConfig | null
+): RegistryClient {
+  const options: RegistryClientOptions = { credentials: new CredentialStore() };
+
+  if (synapSyncDir !== undefined) {
+    options.cacheDir = path.join(synapSyncDir, CACHE_DIR_NAME, REGISTRY_CACHE_SUBDIR);
+  }
+
+  if (config?.registries !== undefined && config.registries.length > 0) {
+    options.registries = getConfiguredRegistries(config);
+  }
+
+  return new RegistryClient(options);
+}
+
+/**
+ * Get the registries available to a project
+ * The public registry is always available unless a registry with
+ * the same name is declared to override it
+ */
+export function getConfiguredRegistries(config?: ProjectConfig | null): RegistryConfig[] {
+  const registries = config?.registries ?? [];
+  if (registries.some((r) => r.name === DEFAULT_REGISTRY_NAME)) {
+    return registries;
+  }
+  return [...registries, { name: DEFAULT_REGISTRY_NAME, url: REGISTRY_BASE_URL }];
+}
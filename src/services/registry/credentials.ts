@@ -0,0 +1,173 @@
+/**
+ * Registry Credentials
+ *
+ * Stores per-registry credentials in the user's home directory
+ * (never in the committed project config) and turns them into
+ * Authorization headers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CREDENTIALS_FILE_NAME, CREDENTIALS_ENV_VAR } from '../../core/constants.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type RegistryCredential =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'env'; env: string }; // bearer token read from an env var at request time
+
+export type RegistryCredentialType = RegistryCredential['type'];
+
+interface CredentialsFile {
+  version: string;
+  registries: Record<string, RegistryCredential>; // keyed by registry URL
+}
+
+const REDACTED = '********';
+
+// ============================================
+// CredentialStore Class
+// ============================================
+
+export class CredentialStore {
+  private filePath: string;
+  private data: CredentialsFile | null = null;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ?? getCredentialsPath();
+  }
+
+  /**
+   * Get the credential for a registry URL
+   */
+  get(registryUrl: string): RegistryCredential | null {
+    return this.load().registries[normalizeUrl(registryUrl)] ?? null;
+  }
+
+  /**
+   * Store the credential for a registry URL
+   */
+  set(registryUrl: string, credential: RegistryCredential): void {
+    const data = this.load();
+    data.registries[normalizeUrl(registryUrl)] = credential;
+    this.save();
+  }
+
+  /**
+   * Remove the credential for a registry URL
+   * Returns false if none was stored
+   */
+  remove(registryUrl: string): boolean {
+    const data = this.load();
+    const key = normalizeUrl(registryUrl);
+    if (data.registries[key] === undefined) {
+      return false;
+    }
+    delete data.registries[key];
+    this.save();
+    return true;
+  }
+
+  /**
+   * Get the path of the credentials file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private load(): CredentialsFile {
+    if (this.data !== null) {
+      return this.data;
+    }
+
+    this.data = { version: '1.0.0', registries: {} };
+
+    if (fs.existsSync(this.filePath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<CredentialsFile>;
+        this.data.registries = parsed.registries ?? {};
+      } catch {
+        // Unreadable credentials behave like none stored
+      }
+    }
+
+    return this.data;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Owner-only permissions, the file holds secrets
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Default location of the credentials file (~/.synapsync/credentials.json)
+ */
+export function getCredentialsPath(): string {
+  return process.env[CREDENTIALS_ENV_VAR] ?? path.join(os.homedir(), '.synapsync', CREDENTIALS_FILE_NAME);
+}
+
+/**
+ * Build the Authorization header value for a credential
+ * Returns null when an env credential points at an unset variable
+ */
+export function getAuthorizationHeader(credential: RegistryCredential): string | null {
+  switch (credential.type) {
+    case 'bearer':
+      return `Bearer ${credential.token}`;
+    case 'basic':
+      return `Basic ${Buffer.from(`${credential.username}:${credential.password}`).toString('base64')}`;
+    case 'env': {
+      const token = process.env[credential.env];
+      return token !== undefined && token !== '' ? `Bearer ${token}` : null;
+    }
+  }
+}
+
+/**
+ * Describe a credential without exposing its secret
+ */
+export function describeCredential(credential: RegistryCredential): string {
+  switch (credential.type) {
+    case 'bearer':
+      return `bearer token ${REDACTED}`;
+    case 'basic':
+      return `basic auth as ${credential.username} (password ${REDACTED})`;
+    case 'env':
+      return `bearer token from $${credential.env}`;
+  }
+}
+
+/**
+ * Copy headers with secret values redacted, for logging
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    const lower = key.toLowerCase();
+    if (lower === 'authorization' || lower === 'proxy-authorization') {
+      const scheme = value.split(' ')[0] ?? '';
+      redacted[key] = `${scheme} ${REDACTED}`;
+    } else {
+      redacted[key] = value;
+    }
+  }
+  return redacted;
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
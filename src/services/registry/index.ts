@@ -7,7 +7,27 @@
 export {
   RegistryClient,
   RegistryError,
+  RegistryOfflineError,
+  RegistryAuthError,
   CognitiveNotFoundError,
+  VersionNotFoundError,
+  createRegistryClient,
+  getConfiguredRegistries,
+  isOfflineMode,
+  getScope,
+  parseRegistrySpecifier,
   type SearchOptions,
+  type DownloadOptions,
   type RegistryClientOptions,
 } from './client.js';
+
+export { RegistryCache, type CacheEntry, type CacheEntryMeta } from './cache.js';
+export {
+  CredentialStore,
+  getCredentialsPath,
+  getAuthorizationHeader,
+  describeCredential,
+  redactHeaders,
+  type RegistryCredential,
+  type RegistryCredentialType,
+} from './credentials.js';
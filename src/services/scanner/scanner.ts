@@ -6,9 +6,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
-import type { ScannedCognitive, ScanResult, ScanOptions } from './types.js';
+import type { ScannedCognitive, ScanResult, ScanOptions, NameCollision } from './types.js';
 import { parseFrontmatter, extractVersion, extractName } from './parser.js';
+import { computeContentHash } from '../lockfile/integrity.js';
+import { parseCognitiveName } from '../../utils/names.js';
 import {
   COGNITIVE_TYPES,
   COGNITIVE_FILE_NAMES,
@@ -53,7 +54,7 @@ export class CognitiveScanner {
         }
 
         const categoryDir = path.join(typeDir, category);
-        const cognitiveDirs = this.listDirectories(categoryDir);
+        const cognitiveDirs = this.listCognitiveDirectories(categoryDir);
 
         for (const cognitiveDir of cognitiveDirs) {
           try {
@@ -98,9 +99,14 @@ export class CognitiveScanner {
     const dirName = path.basename(cognitiveDir);
     const fileName = path.basename(filePath);
 
-    const name = extractName(metadata, dirName, content);
+    // A scope folder (@acme/deploy) decides the scope, whatever the frontmatter says
+    const extracted = extractName(metadata, dirName, content);
+    const scopeDir = path.basename(path.dirname(cognitiveDir));
+    const name = scopeDir.startsWith('@')
+      ? `${scopeDir}/${parseCognitiveName(extracted).name}`
+      : extracted;
     const version = extractVersion(metadata, content);
-    const hash = this.computeHash(content);
+    const hash = computeContentHash(content);
 
     return {
       name,
@@ -152,6 +158,7 @@ export class CognitiveScanner {
 
   /**
    * Compare scanned cognitives with manifest and return differences
+   * Cognitives sharing a name are reported as collisions instead of replacing each other
    */
   compare(
     scanned: ScannedCognitive[],
@@ -164,6 +171,7 @@ export class CognitiveScanner {
       modified: [],
       unchanged: 0,
       errors: [],
+      collisions: [],
     };
 
     // Create map of manifest cognitives
@@ -173,21 +181,25 @@ export class CognitiveScanner {
     }
 
     // Create map of scanned cognitives
-    const scannedMap = new Map<string, ScannedCognitive>();
+    const scannedMap = new Map<string, ScannedCognitive[]>();
     for (const cognitive of scanned) {
-      scannedMap.set(cognitive.name, cognitive);
+      scannedMap.set(cognitive.name, [...(scannedMap.get(cognitive.name) ?? []), cognitive]);
     }
 
     // Find new and modified cognitives
-    for (const scannedCognitive of scanned) {
-      const manifestCognitive = manifestMap.get(scannedCognitive.name);
+    for (const [name, sameName] of scannedMap) {
+      const manifestCognitive = manifestMap.get(name);
+      const scannedCognitive = this.resolveCollision(sameName, manifestCognitive, result.collisions);
 
-      if (manifestCognitive === undefined) {
+      if (scannedCognitive === undefined) {
+        continue;
+      } else if (manifestCognitive === undefined) {
         // New cognitive (in filesystem but not in manifest)
         result.new.push(scannedCognitive);
       } else if (
-        manifestCognitive.hash !== undefined &&
-        manifestCognitive.hash !== scannedCognitive.hash
+        (manifestCognitive.hash !== undefined && manifestCognitive.hash !== scannedCognitive.hash) ||
+        manifestCognitive.type !== scannedCognitive.type ||
+        manifestCognitive.category !== scannedCognitive.category
       ) {
         // Modified cognitive
         result.modified.push(scannedCognitive);
@@ -206,6 +218,41 @@ export class CognitiveScanner {
     return result;
   }
 
+  /**
+   * Pick the cognitive that owns a name
+   * On a collision, the manifest entry keeps its cognitive; without one, none is picked
+   */
+  private resolveCollision(
+    sameName: ScannedCognitive[],
+    manifestCognitive: ManifestCognitive | undefined,
+    collisions: NameCollision[]
+  ): ScannedCognitive | undefined {
+    const [first] = sameName;
+    if (sameName.length === 1 || first === undefined) {
+      return first;
+    }
+
+    const kept = sameName.find(
+      (c) => c.type === manifestCognitive?.type && c.category === manifestCognitive.category
+    );
+    collisions.push({
+      name: first.name,
+      cognitives: sameName,
+      ...(kept !== undefined && { kept }),
+    });
+    return kept;
+  }
+
+  /**
+   * Drop the cognitives that lost their name to another one in a collision
+   */
+  excludeCollided(scanned: ScannedCognitive[], collisions: NameCollision[]): ScannedCognitive[] {
+    const collided = new Set(
+      collisions.flatMap((c) => c.cognitives.filter((cognitive) => cognitive !== c.kept))
+    );
+    return scanned.filter((c) => !collided.has(c));
+  }
+
   /**
    * Convert a scanned cognitive to a manifest cognitive
    */
@@ -222,10 +269,14 @@ export class CognitiveScanner {
   }
 
   /**
-   * Compute content hash for change detection
+   * List cognitive folders in a category, including those in scope folders (@acme/deploy)
    */
-  private computeHash(content: string): string {
-    return crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+  private listCognitiveDirectories(categoryDir: string): string[] {
+    return this.listDirectories(categoryDir).flatMap((dir) =>
+      dir.startsWith('@')
+        ? this.listDirectories(path.join(categoryDir, dir)).map((scoped) => path.join(dir, scoped))
+        : [dir]
+    );
   }
 
   /**
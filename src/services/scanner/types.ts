@@ -18,6 +18,7 @@ export interface CognitiveMetadata {
   category?: string;
   tags?: string[];
   providers?: string[];
+  dependencies?: string[]; // name@range entries
 }
 
 /**
@@ -53,6 +54,18 @@ export interface ScanResult {
   unchanged: number;
   /** Any errors encountered during scan */
   errors: Array<{ path: string; error: string }>;
+  /** Names used by more than one cognitive */
+  collisions: NameCollision[];
+}
+
+/**
+ * Cognitives found under the same name, e.g. a skill and an agent both called code-review
+ */
+export interface NameCollision {
+  name: string;
+  cognitives: ScannedCognitive[];
+  /** The cognitive the manifest already records under this name, if any */
+  kept?: ScannedCognitive;
 }
 
 /**
@@ -9,22 +9,77 @@ import * as path from 'path';
 import type {
   SymlinkCreateResult,
   ProviderSyncResult,
+  PullResult,
   SymlinkInfo,
   SymlinkOptions,
   CognitiveSymlinkMapping,
 } from './types.js';
 import type { SupportedProvider, CognitiveType } from '../../core/constants.js';
-import { PROVIDER_PATHS, COGNITIVE_TYPES, COGNITIVE_SYNC_MODE } from '../../core/constants.js';
+import {
+  BACKUPS_DIR_NAME,
+  PROVIDER_PATHS,
+  PROVIDER_CAPABILITIES,
+  COGNITIVE_TYPES,
+  COGNITIVE_SYNC_MODE,
+  SUPPORTED_PROVIDERS,
+} from '../../core/constants.js';
 import type { ScannedCognitive } from '../scanner/types.js';
+import type { Transaction } from '../transaction/transaction.js';
+import type { ProviderTransformer } from '../transformer/types.js';
+import { getProviderPaths } from '../config/schema.js';
+import {
+  getTransformedDir,
+  getTransformer,
+  listGeneratedFiles,
+  readGeneratedMarker,
+  transformCognitive,
+} from '../transformer/transformer.js';
+import type { ProjectConfig } from '../config/schema.js';
+import { LedgerManager, hashPath } from '../ledger/manager.js';
+import type { ManagedFile } from '../ledger/types.js';
+import { fromLinkName, parseCognitiveName, toLinkName } from '../../utils/names.js';
 
 export class SymlinkManager {
   private projectRoot: string;
   private synapSyncDir: string;
   private supportsSymlinks: boolean | null = null;
-
-  constructor(projectRoot: string, synapSyncDir: string) {
+  private config: ProjectConfig | null;
+  private transaction: Transaction | null;
+  private backupDir: string | null = null;
+  private ledger: LedgerManager;
+
+  constructor(
+    projectRoot: string,
+    synapSyncDir: string,
+    config?: ProjectConfig | null, // custom provider paths
+    transaction?: Transaction
+  ) {
     this.projectRoot = projectRoot;
     this.synapSyncDir = synapSyncDir;
+    this.config = config ?? null;
+    this.transaction = transaction ?? null;
+    this.ledger = new LedgerManager(synapSyncDir, projectRoot);
+  }
+
+  /**
+   * Folder a provider syncs each cognitive type to, from the config
+   */
+  getProviderPaths(provider: SupportedProvider): Record<CognitiveType, string> {
+    return getProviderPaths(provider, this.config);
+  }
+
+  /**
+   * Transformer of a provider that reads cognitives in its own format, or null
+   */
+  private getProviderTransformer(provider: SupportedProvider): ProviderTransformer | null {
+    return PROVIDER_CAPABILITIES[provider].format === 'native' ? getTransformer(provider) : null;
+  }
+
+  /**
+   * Absolute path of a provider folder; relative paths are relative to the project root
+   */
+  private resolveTypeDir(typeDir: string): string {
+    return path.resolve(this.projectRoot, typeDir);
   }
 
   /**
@@ -76,12 +131,16 @@ export class SymlinkManager {
       created: [],
       skipped: [],
       removed: [],
+      migrated: [],
+      unsupported: [],
+      unmanaged: [],
+      backedUp: [],
+      drifted: [],
       errors: [],
       method: this.getMethod(options),
     };
 
-    const providerPaths = PROVIDER_PATHS[provider];
-    if (providerPaths === undefined) {
+    if (PROVIDER_PATHS[provider] === undefined) {
       result.errors.push({
         path: provider,
         operation: 'create',
@@ -90,22 +149,42 @@ export class SymlinkManager {
       return result;
     }
 
-    // Get mappings for all cognitives
-    const mappings = this.getMappings(provider, cognitives);
+    // Types the provider does not read are not synced
+    const { types } = PROVIDER_CAPABILITIES[provider];
+    const supported = cognitives.filter((c) => types.includes(c.type));
+    for (const cognitive of cognitives) {
+      if (!types.includes(cognitive.type)) {
+        result.unsupported.push({ name: cognitive.name, type: cognitive.type });
+      }
+    }
+
+    // Get mappings for the supported cognitives
+    const mappings = this.getMappings(provider, supported);
+    if (options.dryRun !== true) {
+      this.pruneLedger(provider);
+    }
+
+    // Move links out of folders the provider no longer syncs to
+    if (options.previousPaths !== undefined) {
+      this.migrateLinks(provider, options.previousPaths, mappings, options, result);
+    }
 
     // Get existing symlinks/copies in provider directories
     const existingLinks = this.getExistingLinks(provider);
+    const copies = new Set(options.copies ?? []);
 
     // Create set of expected links
-    const expectedNames = new Set(mappings.map((m) => `${m.cognitiveType}/${m.cognitiveName}`));
+    const expectedNames = new Set(
+      mappings.map((m) => this.getLinkKey(m.targetPath, m.cognitiveType, m.linkName))
+    );
 
-    // Find orphaned links (exist but cognitive no longer present)
+    // Find orphaned links (exist but cognitive no longer present); other files are not ours
     for (const link of existingLinks) {
-      const key = `${link.cognitiveType}/${link.cognitiveName}`;
-      if (!expectedNames.has(key)) {
+      const key = this.getLinkKey(link.path, link.cognitiveType, link.linkName);
+      if (!expectedNames.has(key) && this.isManaged(link, copies)) {
         if (options.dryRun !== true) {
           try {
-            this.removeLink(link.path);
+            this.removeManaged(link.path);
             result.removed.push(link.cognitiveName);
           } catch (error) {
             result.errors.push({
@@ -123,24 +202,76 @@ export class SymlinkManager {
     // Create map of existing links for quick lookup
     const existingMap = new Map<string, SymlinkInfo>();
     for (const link of existingLinks) {
-      existingMap.set(`${link.cognitiveType}/${link.cognitiveName}`, link);
+      existingMap.set(this.getLinkKey(link.path, link.cognitiveType, link.linkName), link);
     }
 
-    // Process each mapping
+    // Process each mapping, never letting two cognitives share a link
+    const linked = new Map<string, string>();
     for (const mapping of mappings) {
-      const key = `${mapping.cognitiveType}/${mapping.cognitiveName}`;
-      const existing = existingMap.get(key);
+      const key = this.getLinkKey(mapping.targetPath, mapping.cognitiveType, mapping.linkName);
+      let existing = existingMap.get(key);
+
+      const owner = linked.get(mapping.targetPath);
+      if (owner !== undefined) {
+        result.errors.push({
+          path: mapping.targetPath,
+          operation: 'create',
+          message: `'${mapping.cognitiveName}' and '${owner}' both link to ${path.basename(mapping.targetPath)}`,
+        });
+        continue;
+      }
+      linked.set(mapping.targetPath, mapping.cognitiveName);
+
+      // Never replace what SynapSync did not create: leave it, or move it aside with backup
+      const occupied =
+        existing !== undefined ||
+        fs.lstatSync(mapping.targetPath, { throwIfNoEntry: false }) !== undefined;
+      if (occupied && (existing === undefined || !this.isManaged(existing, copies))) {
+        if (options.backup !== true) {
+          result.unmanaged.push(mapping.targetPath);
+          continue;
+        }
+        if (options.dryRun !== true) {
+          try {
+            this.backup(mapping.targetPath);
+          } catch (error) {
+            result.errors.push({
+              path: mapping.targetPath,
+              operation: 'create',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            });
+            continue;
+          }
+        }
+        result.backedUp.push(mapping.targetPath);
+        existing = undefined;
+      }
 
       if (existing !== undefined && existing.isValid && options.force !== true) {
-        // Already exists and valid
-        result.skipped.push(mapping.cognitiveName);
-        continue;
+        // Copies edited in place are kept until pulled back, or replaced with force
+        if (this.ledger.isDrifted(existing.path)) {
+          result.drifted.push(mapping.targetPath);
+          continue;
+        }
+
+        if (this.isUpToDate(mapping, existing)) {
+          // Copies written before the ledger existed are recorded now
+          if (!existing.isSymlink && this.ledger.get(existing.path) === undefined && options.dryRun !== true) {
+            this.recordManaged(provider, mapping);
+          }
+          result.skipped.push(mapping.cognitiveName);
+          continue;
+        }
       }
 
       // Create the link
       if (options.dryRun !== true) {
+        this.transaction?.track(mapping.targetPath);
         const createResult = this.createLink(mapping, options);
         result.created.push(createResult);
+        if (createResult.success && createResult.method === 'copy') {
+          this.recordManaged(provider, mapping);
+        }
 
         if (!createResult.success && createResult.error !== undefined) {
           result.errors.push({
@@ -160,6 +291,61 @@ export class SymlinkManager {
       }
     }
 
+    if (options.dryRun !== true) {
+      this.saveLedger();
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy the in-place edits of the providers' copies back into .synapsync
+   * Rendered files cannot be turned back into their source and are left as they are;
+   * a cognitive edited differently in several provider folders is not pulled
+   */
+  pullEdits(providers: SupportedProvider[], dryRun = false): PullResult {
+    const result: PullResult = { pulled: [], conflicts: [] };
+
+    // Edited copies by source, across every provider, so one edit never overwrites another
+    const edited = new Map<string, Array<{ targetPath: string; entry: ManagedFile }>>();
+    for (const provider of SUPPORTED_PROVIDERS) {
+      for (const [targetPath, entry] of this.ledger.getFiles(provider)) {
+        if (entry.rendered === true || !this.ledger.isDrifted(targetPath)) continue;
+        edited.set(entry.source, [...(edited.get(entry.source) ?? []), { targetPath, entry }]);
+      }
+    }
+
+    for (const copies of edited.values()) {
+      const [first] = copies;
+      if (first === undefined || !copies.some((c) => providers.includes(c.entry.provider))) continue;
+
+      if (new Set(copies.map((c) => hashPath(c.targetPath))).size > 1) {
+        result.conflicts.push({
+          cognitive: first.entry.cognitive,
+          targets: copies.map((c) => c.targetPath),
+        });
+        continue;
+      }
+
+      if (!dryRun) {
+        const sourcePath = this.ledger.getSourcePath(first.entry);
+        this.transaction?.track(sourcePath);
+        fs.rmSync(sourcePath, { recursive: true, force: true });
+        fs.cpSync(first.targetPath, sourcePath, { recursive: true });
+        for (const { targetPath, entry } of copies) {
+          this.ledger.record(
+            targetPath,
+            { provider: entry.provider, cognitive: entry.cognitive, type: entry.type },
+            sourcePath
+          );
+        }
+      }
+      result.pulled.push(first.entry.cognitive);
+    }
+
+    if (!dryRun) {
+      this.saveLedger();
+    }
     return result;
   }
 
@@ -167,39 +353,66 @@ export class SymlinkManager {
    * Get mappings for cognitives to provider paths
    * Skills sync as folders (contain SKILL.md + assets/)
    * Other cognitives sync as flat files
+   * Providers with a transformer get rendered files instead
+   * Scoped cognitives are prefixed with their scope: @acme/deploy → acme__deploy
    */
   private getMappings(
     provider: SupportedProvider,
     cognitives: ScannedCognitive[]
   ): CognitiveSymlinkMapping[] {
-    const providerPaths = PROVIDER_PATHS[provider];
+    const providerPaths = this.getProviderPaths(provider);
+    const transformer = this.getProviderTransformer(provider);
     const mappings: CognitiveSymlinkMapping[] = [];
 
     for (const cognitive of cognitives) {
       const typeDir = providerPaths[cognitive.type];
       if (typeDir === undefined) continue;
 
+      if (transformer?.types.includes(cognitive.type) === true) {
+        // Rendered in the provider's format, e.g. .cursor/rules/skill-name.mdc
+        const output = transformCognitive(transformer, cognitive);
+        mappings.push({
+          cognitiveName: cognitive.name,
+          cognitiveType: cognitive.type,
+          linkName: toLinkName(cognitive.name),
+          sourcePath: cognitive.filePath,
+          targetPath: path.join(
+            this.resolveTypeDir(getTransformedDir(transformer, providerPaths)),
+            output.fileName
+          ),
+          isFile: true,
+          content: output.content,
+        });
+        continue;
+      }
+
       const syncMode = COGNITIVE_SYNC_MODE[cognitive.type];
 
       if (syncMode === 'folder') {
         // Folder sync: symlink the entire cognitive directory
         // e.g., .claude/skills/skill-name/ -> .synapsync/skills/general/skill-name/
+        const linkName = toLinkName(cognitive.name);
         mappings.push({
           cognitiveName: cognitive.name,
           cognitiveType: cognitive.type,
+          linkName,
           sourcePath: cognitive.path, // Directory path
-          targetPath: path.join(this.projectRoot, typeDir, cognitive.name),
+          targetPath: path.join(this.resolveTypeDir(typeDir), linkName),
           isFile: false,
         });
       } else {
         // File sync: symlink the cognitive file directly
         // e.g., .claude/agents/agent-name.md -> .synapsync/agents/general/agent-name/agent-name.md
-        const fileName = cognitive.fileName ?? `${cognitive.name}.md`;
+        const fileName = toLinkName(
+          cognitive.name,
+          cognitive.fileName ?? `${parseCognitiveName(cognitive.name).name}.md`
+        );
         mappings.push({
           cognitiveName: cognitive.name,
           cognitiveType: cognitive.type,
+          linkName: fileName.replace(/\.(md|yaml)$/i, ''),
           sourcePath: cognitive.filePath, // File path
-          targetPath: path.join(this.projectRoot, typeDir, fileName),
+          targetPath: path.join(this.resolveTypeDir(typeDir), fileName),
           isFile: true,
         });
       }
@@ -210,32 +423,70 @@ export class SymlinkManager {
 
   /**
    * Get existing links in provider directories
-   * Scans for both files and directories (for backward compatibility)
+   * Scans for both files and directories (for backward compatibility), including the
+   * folders of types the provider does not support, so links synced there are cleaned up
    */
   getExistingLinks(provider: SupportedProvider): SymlinkInfo[] {
-    const providerPaths = PROVIDER_PATHS[provider];
+    const providerPaths = this.getProviderPaths(provider);
+    const { shared } = PROVIDER_CAPABILITIES[provider];
     const links: SymlinkInfo[] = [];
 
     for (const cognitiveType of COGNITIVE_TYPES) {
       const typeDir = providerPaths[cognitiveType];
       if (typeDir === undefined) continue;
 
-      const fullPath = path.join(this.projectRoot, typeDir);
-      if (!fs.existsSync(fullPath)) continue;
+      links.push(...this.getLinksIn(this.resolveTypeDir(typeDir), cognitiveType, shared));
+    }
 
-      const entries = fs.readdirSync(fullPath, { withFileTypes: true });
+    const transformer = this.getProviderTransformer(provider);
+    if (transformer !== null) {
+      links.push(...this.getGeneratedIn(this.resolveTypeDir(getTransformedDir(transformer, providerPaths))));
+    }
 
-      for (const entry of entries) {
-        if (entry.name.startsWith('.')) continue;
+    return links;
+  }
 
-        const entryPath = path.join(fullPath, entry.name);
+  /**
+   * Get the files sync rendered into a provider's output folder
+   */
+  private getGeneratedIn(dir: string): SymlinkInfo[] {
+    return listGeneratedFiles(dir).map(({ path: filePath, from }) => ({
+      path: filePath,
+      target: filePath,
+      exists: true,
+      isSymlink: false,
+      isValid: true,
+      generated: true,
+      cognitiveName: from.name,
+      cognitiveType: from.type,
+      linkName: toLinkName(from.name),
+    }));
+  }
 
-        // Include files (new flat structure) and directories/symlinks (legacy)
-        if (entry.isFile() || entry.isDirectory() || entry.isSymbolicLink()) {
-          const info = this.getLinkInfo(entryPath, cognitiveType);
-          if (info !== null) {
-            links.push(info);
-          }
+  /**
+   * Get the links in one provider folder
+   * In a shared folder only symlinks into .synapsync count; other entries are not ours
+   */
+  private getLinksIn(
+    fullPath: string,
+    cognitiveType: CognitiveType,
+    shared = false
+  ): SymlinkInfo[] {
+    const links: SymlinkInfo[] = [];
+    if (!fs.existsSync(fullPath)) return links;
+
+    const entries = fs.readdirSync(fullPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+
+      const entryPath = path.join(fullPath, entry.name);
+
+      // Include files (new flat structure) and directories/symlinks (legacy)
+      if (entry.isFile() || entry.isDirectory() || entry.isSymbolicLink()) {
+        const info = this.getLinkInfo(entryPath, cognitiveType);
+        if (info !== null && (!shared || this.isManagedSymlink(info))) {
+          links.push(info);
         }
       }
     }
@@ -243,6 +494,216 @@ export class SymlinkManager {
     return links;
   }
 
+  /**
+   * Remove the links of synced cognitives from folders whose path changed in the config
+   * Symlinks into .synapsync and copies of a synced cognitive are removed; the new links
+   * are created in the new folder. Old folders left empty are removed too
+   */
+  private migrateLinks(
+    provider: SupportedProvider,
+    previousPaths: Partial<Record<CognitiveType, string>>,
+    mappings: CognitiveSymlinkMapping[],
+    options: SymlinkOptions,
+    result: ProviderSyncResult
+  ): void {
+    const providerPaths = this.getProviderPaths(provider);
+    const { shared } = PROVIDER_CAPABILITIES[provider];
+    const synced = new Set(mappings.map((m) => `${m.cognitiveType}/${m.linkName}`));
+
+    for (const cognitiveType of COGNITIVE_TYPES) {
+      const previous = previousPaths[cognitiveType];
+      if (previous === undefined) continue;
+
+      const oldDir = this.resolveTypeDir(previous);
+      if (oldDir === this.resolveTypeDir(providerPaths[cognitiveType])) continue;
+
+      for (const link of this.getLinksIn(oldDir, cognitiveType, shared)) {
+        const managed = link.isSymlink
+          ? this.isManagedSymlink(link)
+          : this.ledger.get(link.path) !== undefined ||
+            synced.has(`${link.cognitiveType}/${link.linkName}`);
+        if (!managed) continue;
+
+        if (options.dryRun !== true) {
+          try {
+            this.removeManaged(link.path);
+          } catch (error) {
+            result.errors.push({
+              path: link.path,
+              operation: 'remove',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            });
+            continue;
+          }
+        }
+        result.migrated.push(link.cognitiveName);
+      }
+
+      if (options.dryRun !== true) {
+        this.removeEmptyDirs(oldDir);
+      }
+    }
+
+    // Rendered files follow the provider's base folder
+    const transformer = this.getProviderTransformer(provider);
+    if (transformer === null) return;
+    const oldDir = this.resolveTypeDir(
+      getTransformedDir(transformer, { ...PROVIDER_PATHS[provider], ...previousPaths })
+    );
+    if (oldDir === this.resolveTypeDir(getTransformedDir(transformer, providerPaths))) return;
+
+    for (const link of this.getGeneratedIn(oldDir)) {
+      if (options.dryRun !== true) {
+        try {
+          this.removeManaged(link.path);
+        } catch (error) {
+          result.errors.push({
+            path: link.path,
+            operation: 'remove',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+          continue;
+        }
+      }
+      result.migrated.push(link.cognitiveName);
+    }
+    if (options.dryRun !== true) {
+      this.removeEmptyDirs(oldDir);
+    }
+  }
+
+  /**
+   * Key matching an existing link to the mapping it belongs to: its folder, type and name
+   * Links of the same cognitive in another folder (an old layout) do not match
+   */
+  private getLinkKey(linkPath: string, cognitiveType: CognitiveType, linkName: string): string {
+    return `${path.dirname(linkPath)}|${cognitiveType}/${linkName}`;
+  }
+
+  /**
+   * Whether SynapSync created an entry in a provider folder: a symlink into .synapsync,
+   * a rendered file, or a copy in the ledger (or, before the ledger, one the last sync copied)
+   */
+  private isManaged(link: SymlinkInfo, copies: Set<string>): boolean {
+    if (link.generated === true) return true;
+    if (link.isSymlink) return this.isManagedSymlink(link);
+    return this.ledger.get(link.path) !== undefined || copies.has(link.cognitiveName);
+  }
+
+  /**
+   * Whether an existing link still matches its cognitive: rendered files by content,
+   * recorded copies by the hash of their source; symlinks always do
+   */
+  private isUpToDate(mapping: CognitiveSymlinkMapping, existing: SymlinkInfo): boolean {
+    if (mapping.content !== undefined) {
+      return this.readFile(existing.path) === mapping.content;
+    }
+    const entry = this.ledger.get(existing.path);
+    return entry === undefined || hashPath(mapping.sourcePath) === entry.sourceHash;
+  }
+
+  /**
+   * Record a copy or rendered file in the ledger
+   */
+  private recordManaged(provider: SupportedProvider, mapping: CognitiveSymlinkMapping): void {
+    this.ledger.record(
+      mapping.targetPath,
+      {
+        provider,
+        cognitive: mapping.cognitiveName,
+        type: mapping.cognitiveType,
+        ...(mapping.content !== undefined && { rendered: true }),
+      },
+      mapping.sourcePath
+    );
+  }
+
+  /**
+   * Forget the copies of a provider that were deleted by hand
+   */
+  private pruneLedger(provider: SupportedProvider): void {
+    for (const targetPath of this.ledger.getFiles(provider).keys()) {
+      if (fs.lstatSync(targetPath, { throwIfNoEntry: false }) === undefined) {
+        this.ledger.remove(targetPath);
+      }
+    }
+  }
+
+  private saveLedger(): void {
+    if (!this.ledger.hasChanges()) return;
+    this.transaction?.track(this.ledger.getLedgerPath());
+    this.ledger.save();
+  }
+
+  /**
+   * Remove a link SynapSync created; a copy edited in place is moved to the backups instead
+   */
+  private removeManaged(linkPath: string): void {
+    this.transaction?.track(linkPath);
+    if (this.ledger.isDrifted(linkPath)) {
+      this.backup(linkPath);
+      this.ledger.remove(linkPath);
+    } else {
+      this.removeLink(linkPath);
+    }
+  }
+
+  /**
+   * Move an entry SynapSync did not create to .synapsync/.backups/<time>/, keeping its path
+   */
+  private backup(entryPath: string): string {
+    if (this.backupDir === null) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      this.backupDir = path.join(this.synapSyncDir, BACKUPS_DIR_NAME, stamp);
+      this.transaction?.track(this.backupDir);
+    }
+
+    // Entries outside the project (custom absolute paths) keep their path below the root
+    const relative = path
+      .relative(this.projectRoot, entryPath)
+      .split(path.sep)
+      .filter((segment) => segment !== '..');
+    const backupPath = path.join(this.backupDir, ...relative);
+
+    this.transaction?.track(entryPath);
+    fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    fs.renameSync(entryPath, backupPath);
+    return backupPath;
+  }
+
+  /**
+   * Whether a link is a symlink into .synapsync
+   */
+  private isManagedSymlink(link: SymlinkInfo): boolean {
+    const target = path.resolve(path.dirname(link.path), link.target);
+    return link.isSymlink && target.startsWith(path.resolve(this.synapSyncDir) + path.sep);
+  }
+
+  private readFile(filePath: string): string | null {
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove a provider folder and its parents while they are empty, up to the project root
+   */
+  private removeEmptyDirs(dir: string): void {
+    const root = path.resolve(this.projectRoot);
+    while (dir.startsWith(root + path.sep)) {
+      try {
+        if (fs.readdirSync(dir).length > 0) return;
+        this.transaction?.track(dir);
+        fs.rmdirSync(dir);
+      } catch {
+        return;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
   /**
    * Get information about a link
    */
@@ -267,7 +728,7 @@ export class SymlinkManager {
       // Only strip extension for files, not directories
       // Folders: "skill-name" stays "skill-name"
       // Files: "agent-name.md" becomes "agent-name"
-      const cognitiveName = isDirectory ? baseName : baseName.replace(/\.(md|yaml)$/i, '');
+      const linkName = isDirectory ? baseName : baseName.replace(/\.(md|yaml)$/i, '');
 
       let target = '';
       let isValid = false;
@@ -293,8 +754,9 @@ export class SymlinkManager {
         exists: true,
         isSymlink,
         isValid,
-        cognitiveName,
+        cognitiveName: fromLinkName(linkName),
         cognitiveType,
+        linkName,
       };
     } catch {
       return null;
@@ -308,6 +770,10 @@ export class SymlinkManager {
     const method = this.getMethod(options);
     const isFile = mapping.isFile ?? false;
 
+    if (mapping.content !== undefined) {
+      return this.writeRendered(mapping);
+    }
+
     try {
       // Ensure parent directory exists
       const targetDir = path.dirname(mapping.targetPath);
@@ -315,19 +781,9 @@ export class SymlinkManager {
         fs.mkdirSync(targetDir, { recursive: true });
       }
 
-      // Remove existing if force
-      if (fs.existsSync(mapping.targetPath)) {
-        if (options.force === true) {
-          this.removeLink(mapping.targetPath);
-        } else {
-          return {
-            success: false,
-            source: mapping.sourcePath,
-            target: mapping.targetPath,
-            method,
-            error: 'Target already exists',
-          };
-        }
+      // Replace an earlier link; entries SynapSync did not create never get here
+      if (fs.lstatSync(mapping.targetPath, { throwIfNoEntry: false }) !== undefined) {
+        this.removeLink(mapping.targetPath);
       }
 
       if (method === 'symlink') {
@@ -386,6 +842,31 @@ export class SymlinkManager {
     }
   }
 
+  /**
+   * Write a rendered file; rendered files are always copies
+   * A file sync did not generate is never replaced
+   */
+  private writeRendered(mapping: CognitiveSymlinkMapping): SymlinkCreateResult {
+    const result = { source: mapping.sourcePath, target: mapping.targetPath, method: 'copy' as const };
+
+    try {
+      const stats = fs.lstatSync(mapping.targetPath, { throwIfNoEntry: false });
+      if (stats !== undefined) {
+        const content = stats.isFile() ? this.readFile(mapping.targetPath) : null;
+        if (content === null || readGeneratedMarker(content) === null) {
+          return { ...result, success: false, error: 'Target already exists' };
+        }
+        this.removeLink(mapping.targetPath);
+      }
+
+      fs.mkdirSync(path.dirname(mapping.targetPath), { recursive: true });
+      fs.writeFileSync(mapping.targetPath, mapping.content ?? '', 'utf-8');
+      return { ...result, success: true };
+    } catch (error) {
+      return { ...result, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   /**
    * Remove a symlink, file, or directory
    */
@@ -397,6 +878,7 @@ export class SymlinkManager {
     } else if (stats.isDirectory()) {
       fs.rmSync(linkPath, { recursive: true });
     }
+    this.ledger.remove(linkPath);
   }
 
   /**
@@ -441,31 +923,36 @@ export class SymlinkManager {
     valid: SymlinkInfo[];
     broken: SymlinkInfo[];
     orphaned: SymlinkInfo[];
+    drifted: SymlinkInfo[];
   } {
     const existingLinks = this.getExistingLinks(provider);
     const valid: SymlinkInfo[] = [];
     const broken: SymlinkInfo[] = [];
     const orphaned: SymlinkInfo[] = [];
+    const drifted: SymlinkInfo[] = [];
 
     for (const link of existingLinks) {
-      if (!link.isValid) {
-        broken.push(link);
+      // Only what SynapSync created is checked; the user's own links and files are left alone
+      if (link.isSymlink) {
+        if (!this.isManagedSymlink(link)) continue;
+        (link.isValid ? valid : broken).push(link);
+        continue;
+      }
+
+      // Copies are told apart from the user's files by the ledger
+      const entry = this.ledger.get(link.path);
+      if (entry === undefined && link.generated !== true) continue;
+
+      if (entry !== undefined && hashPath(this.ledger.getSourcePath(entry)) === null) {
+        orphaned.push(link);
+      } else if (this.ledger.isDrifted(link.path)) {
+        drifted.push(link);
       } else {
-        // Check if the target is within .synapsync
-        if (link.isSymlink) {
-          const resolvedTarget = path.resolve(path.dirname(link.path), link.target);
-          if (!resolvedTarget.includes(path.basename(this.synapSyncDir))) {
-            orphaned.push(link);
-          } else {
-            valid.push(link);
-          }
-        } else {
-          valid.push(link);
-        }
+        valid.push(link);
       }
     }
 
-    return { valid, broken, orphaned };
+    return { valid, broken, orphaned, drifted };
   }
 
   /**
@@ -478,7 +965,7 @@ export class SymlinkManager {
     for (const link of [...broken, ...orphaned]) {
       if (!dryRun) {
         try {
-          this.removeLink(link.path);
+          this.removeManaged(link.path);
           removed.push(link.cognitiveName);
         } catch {
           // Ignore errors during cleanup
@@ -488,6 +975,9 @@ export class SymlinkManager {
       }
     }
 
+    if (!dryRun) {
+      this.saveLedger();
+    }
     return removed;
   }
 }
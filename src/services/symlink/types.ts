@@ -25,10 +25,31 @@ export interface ProviderSyncResult {
   created: SymlinkCreateResult[];
   skipped: string[]; // Already existed and valid
   removed: string[]; // Orphaned symlinks removed
+  migrated: string[]; // Removed from a folder the config no longer syncs to
+  unsupported: Array<{ name: string; type: CognitiveType }>; // Types the provider does not read
+  unmanaged: string[]; // Targets SynapSync did not create, left in place
+  backedUp: string[]; // Targets SynapSync did not create, moved to .synapsync/.backups/
+  drifted: string[]; // Copies edited in place, kept until pulled back or forced
   errors: SymlinkError[];
   method: 'symlink' | 'copy';
 }
 
+/**
+ * Result of pulling edits made to provider copies back into .synapsync
+ */
+export interface PullResult {
+  pulled: string[]; // Cognitives whose edits were copied back
+  conflicts: PullConflict[]; // Edited differently in several provider folders, left as they are
+}
+
+/**
+ * A cognitive whose copies were edited differently in several provider folders
+ */
+export interface PullConflict {
+  cognitive: string;
+  targets: string[];
+}
+
 /**
  * Error during symlink operation
  */
@@ -48,8 +69,10 @@ export interface SymlinkInfo {
   exists: boolean;
   isSymlink: boolean;
   isValid: boolean; // Target exists
+  generated?: boolean; // Rendered by a provider transformer
   cognitiveName: string;
   cognitiveType: CognitiveType;
+  linkName: string; // file or folder name in the provider folder, without extension
 }
 
 /**
@@ -62,6 +85,12 @@ export interface SymlinkOptions {
   force?: boolean;
   /** Dry run - don't make changes */
   dryRun?: boolean;
+  /** Folders the provider synced to last time; links left there are moved */
+  previousPaths?: Partial<Record<CognitiveType, string>>;
+  /** Move files SynapSync did not create out of the way instead of leaving them */
+  backup?: boolean;
+  /** Cognitives the last sync copied; plain copies of them are SynapSync's own */
+  copies?: string[];
 }
 
 /**
@@ -70,7 +99,9 @@ export interface SymlinkOptions {
 export interface CognitiveSymlinkMapping {
   cognitiveName: string;
   cognitiveType: CognitiveType;
+  linkName: string; // file or folder name in the provider folder, without extension
   sourcePath: string; // Path in .synapsync (file path)
   targetPath: string; // Path in provider directory (file path)
   isFile?: boolean; // True if syncing a single file (not a directory)
+  content?: string; // Rendered in the provider's format; written as a copy
 }
@@ -17,10 +17,12 @@ import type {
 import { CognitiveScanner } from '../scanner/scanner.js';
 import { ManifestManager } from '../manifest/manager.js';
 import { SymlinkManager } from '../symlink/manager.js';
-import type { ScannedCognitive } from '../scanner/types.js';
-import type { ProviderSyncResult } from '../symlink/types.js';
-import type { SupportedProvider } from '../../core/constants.js';
+import type { NameCollision, ScannedCognitive } from '../scanner/types.js';
+import type { ProviderSyncResult, PullResult } from '../symlink/types.js';
+import type { CognitiveType, SupportedProvider } from '../../core/constants.js';
 import type { ProjectConfig } from '../config/schema.js';
+import type { Transaction } from '../transaction/transaction.js';
+import { MANIFEST_FILE_NAME, PROVIDER_PATHS } from '../../core/constants.js';
 
 export class SyncEngine {
   private scanner: CognitiveScanner;
@@ -28,13 +30,22 @@ export class SyncEngine {
   private symlink: SymlinkManager;
   private projectRoot: string;
   private config: ProjectConfig | null;
-
-  constructor(synapSyncDir: string, projectRoot?: string, config?: ProjectConfig) {
+  private manifestPath: string;
+  private transaction: Transaction | null;
+
+  constructor(
+    synapSyncDir: string,
+    projectRoot?: string,
+    config?: ProjectConfig,
+    transaction?: Transaction // records every change so the caller can roll back
+  ) {
     this.projectRoot = projectRoot ?? path.dirname(synapSyncDir);
     this.config = config ?? null;
+    this.manifestPath = path.join(synapSyncDir, MANIFEST_FILE_NAME);
+    this.transaction = transaction ?? null;
     this.scanner = new CognitiveScanner(synapSyncDir);
     this.manifest = new ManifestManager(synapSyncDir);
-    this.symlink = new SymlinkManager(this.projectRoot, synapSyncDir);
+    this.symlink = new SymlinkManager(this.projectRoot, synapSyncDir, config, transaction);
   }
 
   /**
@@ -44,9 +55,19 @@ export class SyncEngine {
     const startTime = Date.now();
     const actions: SyncAction[] = [];
     const errors: SyncError[] = [];
+    let collisions: NameCollision[] = [];
     let providerResults: ProviderSyncResult[] | undefined;
+    let pulled: PullResult | undefined;
 
     try {
+      // Bring edits made to provider copies back first, so the scan sees them
+      if (options.pull === true && options.manifestOnly !== true) {
+        pulled = this.symlink.pullEdits(
+          this.getEnabledProviders(options.provider),
+          options.dryRun === true
+        );
+      }
+
       // Phase 1: Scan filesystem
       onProgress?.({
         phase: 'scanning',
@@ -72,6 +93,10 @@ export class SyncEngine {
 
       const manifestCognitives = this.manifest.getCognitives();
       const comparison = this.scanner.compare(scanned, manifestCognitives);
+      collisions = comparison.collisions;
+
+      // A cognitive that lost its name to another one is left out of the providers too
+      const syncable = this.scanner.excludeCollided(scanned, collisions);
 
       // Build list of actions
       for (const cognitive of comparison.new) {
@@ -139,12 +164,13 @@ export class SyncEngine {
           message: 'Saving manifest...',
         });
 
+        this.transaction?.track(this.manifestPath);
         this.manifest.save();
       }
 
       // Phase 4: Provider sync (unless manifestOnly)
       if (options.manifestOnly !== true) {
-        providerResults = this.syncProviders(scanned, options, onProgress);
+        providerResults = this.syncProviders(syncable, options, onProgress);
 
         // Add provider errors to main errors
         for (const result of providerResults) {
@@ -159,7 +185,8 @@ export class SyncEngine {
 
         // Update provider sync state in manifest
         if (options.dryRun !== true) {
-          this.updateProviderSyncState(providerResults, scanned);
+          this.updateProviderSyncState(providerResults, syncable);
+          this.transaction?.track(this.manifestPath);
           this.manifest.save();
         }
       }
@@ -179,12 +206,17 @@ export class SyncEngine {
         unchanged: comparison.unchanged,
         total: this.manifest.getCognitiveCount(),
         errors,
+        collisions,
         actions,
         duration,
       };
       if (providerResults !== undefined) {
         result.providerResults = providerResults;
       }
+      if (pulled !== undefined) {
+        result.pulled = pulled.pulled;
+        result.pullConflicts = pulled.conflicts;
+      }
       return result;
     } catch (error) {
       errors.push({
@@ -200,6 +232,7 @@ export class SyncEngine {
         unchanged: 0,
         total: this.manifest.getCognitiveCount(),
         errors,
+        collisions,
         actions,
         duration: Date.now() - startTime,
       };
@@ -239,8 +272,14 @@ export class SyncEngine {
 
       const symlinkOpts: import('../symlink/types.js').SymlinkOptions = {};
       if (options.copy !== undefined) symlinkOpts.copy = options.copy;
+      else if (this.config?.sync?.method === 'copy') symlinkOpts.copy = true;
       if (options.dryRun !== undefined) symlinkOpts.dryRun = options.dryRun;
       if (options.force !== undefined) symlinkOpts.force = options.force;
+      if (options.backup !== undefined) symlinkOpts.backup = options.backup;
+      const previousPaths = this.getPreviousPaths(provider);
+      if (previousPaths !== undefined) symlinkOpts.previousPaths = previousPaths;
+      const state = this.manifest.getProviderSync(provider);
+      if (state?.method === 'copy') symlinkOpts.copies = state.cognitives;
       const result = this.symlink.syncProvider(provider, cognitives, symlinkOpts);
 
       results.push(result);
@@ -275,6 +314,16 @@ export class SyncEngine {
     return enabled;
   }
 
+  /**
+   * Folders a provider synced to last time
+   * Syncs recorded before paths were kept always used the default folders
+   */
+  private getPreviousPaths(provider: SupportedProvider): Partial<Record<CognitiveType, string>> | undefined {
+    const state = this.manifest.getProviderSync(provider);
+    if (state === undefined) return undefined;
+    return state.paths ?? PROVIDER_PATHS[provider];
+  }
+
   /**
    * Update provider sync state in manifest
    */
@@ -287,6 +336,7 @@ export class SyncEngine {
         lastSync: new Date().toISOString(),
         method: result.method,
         cognitives: cognitives.map((c) => c.name),
+        paths: this.symlink.getProviderPaths(result.provider),
       });
     }
   }
@@ -308,6 +358,7 @@ export class SyncEngine {
     newInFilesystem: number;
     removedFromFilesystem: number;
     modified: number;
+    collisions: number;
   } {
     const scanned = this.scanner.scan();
     const manifestCognitives = this.manifest.getCognitives();
@@ -323,6 +374,7 @@ export class SyncEngine {
       newInFilesystem: comparison.new.length,
       removedFromFilesystem: comparison.removed.length,
       modified: comparison.modified.length,
+      collisions: comparison.collisions.length,
     };
   }
 
@@ -333,12 +385,14 @@ export class SyncEngine {
     valid: number;
     broken: number;
     orphaned: number;
+    drifted: number;
   } {
-    const { valid, broken, orphaned } = this.symlink.verifyProvider(provider);
+    const { valid, broken, orphaned, drifted } = this.symlink.verifyProvider(provider);
     return {
       valid: valid.length,
       broken: broken.length,
       orphaned: orphaned.length,
+      drifted: drifted.length,
     };
   }
 
@@ -355,6 +409,16 @@ export class SyncEngine {
       }
       case 'update': {
         const scanned = action.cognitive as ScannedCognitive;
+        const existing = this.manifest.getCognitive(scanned.name);
+        if (existing !== undefined && existing.source !== 'local') {
+          // Local edits to an installed cognitive: keep where it came from, so update can merge them
+          this.manifest.updateCognitive(scanned.name, {
+            type: scanned.type,
+            category: scanned.category,
+            hash: scanned.hash,
+          });
+          break;
+        }
         const manifestCognitive = this.scanner.toManifestCognitive(scanned);
         this.manifest.updateCognitive(scanned.name, manifestCognitive);
         break;
@@ -5,9 +5,9 @@
  */
 
 import type { CognitiveType, Category, SupportedProvider } from '../../core/constants.js';
-import type { ScannedCognitive } from '../scanner/types.js';
+import type { NameCollision, ScannedCognitive } from '../scanner/types.js';
 import type { ManifestCognitive } from '../manifest/types.js';
-import type { ProviderSyncResult } from '../symlink/types.js';
+import type { ProviderSyncResult, PullConflict } from '../symlink/types.js';
 
 /**
  * Sync operation type
@@ -41,12 +41,18 @@ export interface SyncResult {
   total: number;
   /** Errors encountered during sync */
   errors: SyncError[];
+  /** Names used by more than one cognitive, left for the user to resolve */
+  collisions: NameCollision[];
   /** Actions that were performed */
   actions: SyncAction[];
   /** Duration in milliseconds */
   duration: number;
   /** Provider sync results (Phase 2) */
   providerResults?: ProviderSyncResult[];
+  /** Cognitives whose in-place edits were pulled back into .synapsync */
+  pulled?: string[];
+  /** Cognitives edited differently in several provider folders, not pulled */
+  pullConflicts?: PullConflict[];
 }
 
 /**
@@ -86,6 +92,10 @@ export interface SyncOptions {
   provider?: SupportedProvider;
   /** Use copy instead of symlinks */
   copy?: boolean;
+  /** Move provider files SynapSync did not create to .synapsync/.backups/ */
+  backup?: boolean;
+  /** Copy edits made to provider copies back into .synapsync first */
+  pull?: boolean;
   /** Skip provider sync (manifest only) */
   manifestOnly?: boolean;
 }
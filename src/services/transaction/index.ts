@@ -0,0 +1,6 @@
+/**
+ * Transaction service exports
+ */
+
+export * from './transaction.js';
+export * from './types.js';
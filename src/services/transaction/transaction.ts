@@ -0,0 +1,278 @@
+/**
+ * Transaction
+ *
+ * Undo journal for mutating commands: every path is backed up and recorded
+ * before it changes, so a failed or interrupted run can be rolled back fully
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TRANSACTION_DIR_NAME } from '../../core/constants.js';
+import type { JournalEntry, RollbackResult, TransactionJournal } from './types.js';
+
+const JOURNAL_FILE = 'journal.json';
+const BACKUP_DIR = 'backup';
+const STAGING_DIR = 'staging';
+
+export class Transaction {
+  private dir: string;
+  private journal: TransactionJournal;
+  private tracked = new Set<string>();
+  private staged = 0;
+  private finished = false;
+  private onInterrupt = (): void => {
+    this.rollback();
+    process.exit(130);
+  };
+
+  private constructor(dir: string, journal: TransactionJournal) {
+    this.dir = dir;
+    this.journal = journal;
+  }
+
+  /**
+   * Start a transaction in a .synapsync folder
+   * Fails while the journal of an earlier run is still there
+   */
+  static begin(synapSyncDir: string, command: string): Transaction {
+    const pending = Transaction.getPending(synapSyncDir);
+    if (pending !== null) {
+      throw new TransactionPendingError(pending);
+    }
+
+    // Leftovers of a run that stopped before writing anything
+    const dir = getTransactionDir(synapSyncDir);
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(dir, BACKUP_DIR), { recursive: true });
+
+    const transaction = new Transaction(dir, {
+      id: `${Date.now().toString(36)}-${process.pid}`,
+      command,
+      pid: process.pid,
+      startedAt: new Date().toISOString(),
+      entries: [],
+    });
+    transaction.writeJournal();
+
+    // Ctrl+C rolls back instead of leaving half the changes behind
+    process.on('SIGINT', transaction.onInterrupt);
+    return transaction;
+  }
+
+  /**
+   * Journal of a run that did not commit or roll back, if any
+   */
+  static getPending(synapSyncDir: string): TransactionJournal | null {
+    const journalPath = path.join(getTransactionDir(synapSyncDir), JOURNAL_FILE);
+    if (!fs.existsSync(journalPath)) {
+      return null;
+    }
+
+    try {
+      const journal = JSON.parse(fs.readFileSync(journalPath, 'utf-8')) as Partial<TransactionJournal>;
+      return Array.isArray(journal.entries) ? (journal as TransactionJournal) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Roll back the journal left by an interrupted run
+   * Returns null when there is nothing to recover
+   */
+  static recover(synapSyncDir: string): RollbackResult | null {
+    const journal = Transaction.getPending(synapSyncDir);
+    if (journal === null) {
+      return null;
+    }
+    if (isJournalActive(journal)) {
+      throw new TransactionPendingError(journal);
+    }
+
+    return undo(getTransactionDir(synapSyncDir), journal);
+  }
+
+  // ============================================
+  // Recording Changes
+  // ============================================
+
+  /**
+   * Record a path before it is written, replaced or removed
+   * Its current content is backed up; paths inside a tracked folder are covered already
+   */
+  track(target: string): void {
+    this.assertOpen();
+    const absolute = path.resolve(target);
+    for (const tracked of this.tracked) {
+      if (absolute === tracked || absolute.startsWith(tracked + path.sep)) return;
+    }
+
+    const entry: JournalEntry = { path: absolute };
+    const stats = lstatOrNull(absolute);
+    if (stats?.isSymbolicLink() === true) {
+      entry.link = fs.readlinkSync(absolute);
+    } else if (stats !== null) {
+      entry.backup = `${BACKUP_DIR}/${this.journal.entries.length}`;
+      fs.cpSync(absolute, path.join(this.dir, entry.backup), { recursive: true, verbatimSymlinks: true });
+    }
+
+    this.journal.entries.push(entry);
+    this.tracked.add(absolute);
+    this.writeJournal();
+  }
+
+  /**
+   * Write a folder in the staging area, then swap it in with a single rename
+   */
+  stage(target: string, write: (stagingDir: string) => void): void {
+    this.assertOpen();
+    const stagingDir = path.join(this.dir, STAGING_DIR, String(this.staged++));
+    write(stagingDir);
+
+    this.track(target);
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.renameSync(stagingDir, target);
+  }
+
+  /**
+   * Paths recorded so far
+   */
+  getEntries(): JournalEntry[] {
+    return [...this.journal.entries];
+  }
+
+  // ============================================
+  // Finishing
+  // ============================================
+
+  /**
+   * Keep every change and drop the journal
+   */
+  commit(): void {
+    this.assertOpen();
+    this.finish();
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Put every recorded path back as it was, newest change first
+   * The journal is kept when a path cannot be restored, for doctor --fix to retry
+   */
+  rollback(): RollbackResult {
+    this.assertOpen();
+    this.finish();
+    return undo(this.dir, this.journal);
+  }
+
+  private finish(): void {
+    this.finished = true;
+    process.removeListener('SIGINT', this.onInterrupt);
+  }
+
+  private assertOpen(): void {
+    if (this.finished) {
+      throw new Error(`Transaction ${this.journal.id} is already finished`);
+    }
+  }
+
+  /**
+   * Replace the journal in one rename so it is never half written
+   */
+  private writeJournal(): void {
+    const journalPath = path.join(this.dir, JOURNAL_FILE);
+    fs.writeFileSync(`${journalPath}.tmp`, JSON.stringify(this.journal, null, 2), 'utf-8');
+    fs.renameSync(`${journalPath}.tmp`, journalPath);
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Folder holding the journal, backups and staged writes
+ */
+export function getTransactionDir(synapSyncDir: string): string {
+  return path.join(synapSyncDir, TRANSACTION_DIR_NAME);
+}
+
+/**
+ * Whether the process that wrote a journal is still running
+ */
+export function isJournalActive(journal: TransactionJournal): boolean {
+  return journal.pid !== process.pid && isProcessRunning(journal.pid);
+}
+
+/**
+ * One-line summary of a rollback
+ */
+export function describeRollback(result: RollbackResult): string {
+  if (result.errors.length > 0) {
+    return `Rollback incomplete: ${result.errors.length} path(s) could not be restored`;
+  }
+
+  const changes = result.restored.length + result.removed.length;
+  return changes === 0 ? 'Nothing was changed' : `Rolled back ${changes} change(s)`;
+}
+
+function undo(dir: string, journal: TransactionJournal): RollbackResult {
+  const result: RollbackResult = { command: journal.command, restored: [], removed: [], errors: [] };
+
+  for (const entry of [...journal.entries].reverse()) {
+    try {
+      fs.rmSync(entry.path, { recursive: true, force: true });
+
+      if (entry.backup !== undefined) {
+        fs.mkdirSync(path.dirname(entry.path), { recursive: true });
+        fs.cpSync(path.join(dir, entry.backup), entry.path, { recursive: true, verbatimSymlinks: true });
+        result.restored.push(entry.path);
+      } else if (entry.link !== undefined) {
+        fs.mkdirSync(path.dirname(entry.path), { recursive: true });
+        fs.symlinkSync(entry.link, entry.path);
+        result.restored.push(entry.path);
+      } else {
+        result.removed.push(entry.path);
+      }
+    } catch (error) {
+      result.errors.push({
+        path: entry.path,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (result.errors.length === 0) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  return result;
+}
+
+function lstatOrNull(target: string): fs.Stats | null {
+  try {
+    return fs.lstatSync(target);
+  } catch {
+    return null;
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+// ============================================
+// Custom Errors
+// ============================================
+
+export class TransactionPendingError extends Error {
+  constructor(public journal: TransactionJournal) {
+    super(`A previous '${journal.command}' (started ${journal.startedAt}) did not finish`);
+    this.name = 'TransactionPendingError';
+  }
+}
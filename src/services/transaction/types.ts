@@ -0,0 +1,36 @@
+/**
+ * Transaction Types
+ *
+ * Type definitions for the journal of a mutating command
+ */
+
+/**
+ * A path changed by a transaction and how to put it back
+ * With neither backup nor link, the path did not exist before
+ */
+export interface JournalEntry {
+  path: string; // absolute path
+  backup?: string; // copy of the previous file or folder, relative to the transaction folder
+  link?: string; // previous symlink target
+}
+
+/**
+ * The journal written before every change, so an interrupted run can be undone
+ */
+export interface TransactionJournal {
+  id: string;
+  command: string; // command that started the transaction (add, update, uninstall, sync)
+  pid: number;
+  startedAt: string;
+  entries: JournalEntry[];
+}
+
+/**
+ * Result of rolling back a transaction
+ */
+export interface RollbackResult {
+  command: string;
+  restored: string[]; // paths put back to their previous content
+  removed: string[]; // paths the transaction had created
+  errors: Array<{ path: string; message: string }>;
+}
@@ -0,0 +1,145 @@
+/**
+ * Provider Formats
+ *
+ * Built-in transformers for providers that do not read cognitives as they are:
+ * Cursor rules, Copilot instructions, Windsurf rules and Gemini context files
+ */
+
+import type { CognitiveType } from '../../core/constants.js';
+import type { ProviderTransformer, SourceDocument } from './types.js';
+
+// Workflows are YAML and stay linked as they are
+const MARKDOWN_TYPES: CognitiveType[] = ['skill', 'agent', 'prompt', 'tool'];
+
+/**
+ * Cursor: .cursor/rules/<name>.mdc with description, globs and alwaysApply
+ */
+export const cursorTransformer: ProviderTransformer = {
+  provider: 'cursor',
+  folder: 'rules',
+  types: MARKDOWN_TYPES,
+  render: (_cognitive, source, linkName) => ({
+    fileName: `${linkName}.mdc`,
+    frontmatter: {
+      description: toYamlValue(getText(source, 'description') ?? ''),
+      globs: getList(source, 'globs') ?? '',
+      alwaysApply: getFlag(source, 'alwaysApply'),
+    },
+    body: source.body,
+  }),
+};
+
+/**
+ * GitHub Copilot: .github/instructions/<name>.instructions.md with applyTo
+ */
+export const copilotTransformer: ProviderTransformer = {
+  provider: 'copilot',
+  folder: 'instructions',
+  types: MARKDOWN_TYPES,
+  render: (_cognitive, source, linkName) => {
+    const description = getText(source, 'description');
+    return {
+      fileName: `${linkName}.instructions.md`,
+      frontmatter: {
+        applyTo: JSON.stringify(
+          getList(source, 'applyTo', ',') ?? getList(source, 'globs', ',') ?? '**'
+        ),
+        ...(description !== undefined && { description: toYamlValue(description) }),
+      },
+      body: source.body,
+    };
+  },
+};
+
+/**
+ * Windsurf: .windsurf/rules/<name>.md with a trigger
+ * Globs make a glob rule, alwaysApply an always-on one; otherwise the model decides
+ */
+export const windsurfTransformer: ProviderTransformer = {
+  provider: 'windsurf',
+  folder: 'rules',
+  types: MARKDOWN_TYPES,
+  render: (_cognitive, source, linkName) => {
+    const description = getText(source, 'description');
+    const globs = getList(source, 'globs');
+    const trigger =
+      getText(source, 'trigger') ??
+      (globs !== undefined
+        ? 'glob'
+        : getFlag(source, 'alwaysApply')
+          ? 'always_on'
+          : 'model_decision');
+    return {
+      fileName: `${linkName}.md`,
+      frontmatter: {
+        trigger,
+        ...(description !== undefined && { description: toYamlValue(description) }),
+        ...(globs !== undefined && { globs }),
+      },
+      body: source.body,
+    };
+  },
+};
+
+/**
+ * Gemini: .gemini/context/<name>.md, plain Markdown like GEMINI.md
+ * Frontmatter is dropped; the name and description become the heading when the body has none
+ */
+export const geminiTransformer: ProviderTransformer = {
+  provider: 'gemini',
+  folder: 'context',
+  types: MARKDOWN_TYPES,
+  render: (cognitive, source, linkName) => {
+    const body = source.body.replace(/^\s+/, '');
+    if (body.startsWith('# ')) {
+      return { fileName: `${linkName}.md`, body };
+    }
+    const description = getText(source, 'description');
+    const heading = [
+      `# ${cognitive.name}`,
+      ...(description !== undefined ? ['', description] : []),
+    ];
+    return { fileName: `${linkName}.md`, body: `${heading.join('\n')}\n\n${body}` };
+  },
+};
+
+export const BUILTIN_TRANSFORMERS: ProviderTransformer[] = [
+  cursorTransformer,
+  copilotTransformer,
+  windsurfTransformer,
+  geminiTransformer,
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+function getText(source: SourceDocument, key: string): string | undefined {
+  const value = source.frontmatter[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * A list in the frontmatter (globs: [a, b] or globs: a, b) as one separated string
+ */
+function getList(source: SourceDocument, key: string, separator = ', '): string | undefined {
+  const value = source.frontmatter[key];
+  const items = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map((item) => String(item).trim())
+    .filter((item) => item !== '');
+  return items.length > 0 ? items.join(separator) : undefined;
+}
+
+function getFlag(source: SourceDocument, key: string): boolean {
+  const value = source.frontmatter[key];
+  return value === true || value === 'true';
+}
+
+/**
+ * A string as a YAML scalar, quoted only when it would not parse as plain text
+ */
+function toYamlValue(value: string): string {
+  return /^[^\s#'"{}[\],&*!|>%@`-][^#:'"{}[\]]*$/.test(value) || value === ''
+    ? value
+    : JSON.stringify(value);
+}
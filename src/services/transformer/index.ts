@@ -0,0 +1,7 @@
+/**
+ * Transformer service exports
+ */
+
+export * from './transformer.js';
+export * from './formats.js';
+export * from './types.js';
@@ -0,0 +1,134 @@
+/**
+ * Provider Transformers
+ *
+ * Renders cognitives in the native format of providers that need one. Rendered files
+ * are written as copies into the provider's output folder and carry a marker, so sync
+ * only ever replaces or removes the files it generated
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CognitiveType, SupportedProvider } from '../../core/constants.js';
+import { COGNITIVE_TYPES } from '../../core/constants.js';
+import type { ScannedCognitive } from '../scanner/types.js';
+import { parseFrontmatter } from '../scanner/parser.js';
+import { toLinkName } from '../../utils/names.js';
+import { BUILTIN_TRANSFORMERS } from './formats.js';
+import type { GeneratedFrom, ProviderTransformer, SourceDocument } from './types.js';
+
+const GENERATED_MARKER = /<!-- synapsync:generated (\S+) (\S+) -->/;
+
+const transformers = new Map<SupportedProvider, ProviderTransformer>(
+  BUILTIN_TRANSFORMERS.map((transformer) => [transformer.provider, transformer])
+);
+
+// ============================================
+// Registry
+// ============================================
+
+/**
+ * Add or replace the transformer of a provider
+ */
+export function registerTransformer(transformer: ProviderTransformer): void {
+  transformers.set(transformer.provider, transformer);
+}
+
+/**
+ * The transformer of a provider, or null when the provider reads cognitives as they are
+ */
+export function getTransformer(provider: SupportedProvider): ProviderTransformer | null {
+  return transformers.get(provider) ?? null;
+}
+
+/**
+ * Folder a provider's rendered cognitives go to, next to its configured type folders
+ * e.g. .cursor/skills → .cursor/rules
+ */
+export function getTransformedDir(
+  transformer: ProviderTransformer,
+  providerPaths: Record<CognitiveType, string>
+): string {
+  return path.posix.join(path.posix.dirname(providerPaths.skill), transformer.folder);
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Render a cognitive's main file for a provider
+ */
+export function transformCognitive(
+  transformer: ProviderTransformer,
+  cognitive: ScannedCognitive
+): { fileName: string; content: string } {
+  const source = readSource(fs.readFileSync(cognitive.filePath, 'utf-8'));
+  const output = transformer.render(cognitive, source, toLinkName(cognitive.name));
+
+  const lines: string[] = [];
+  if (output.frontmatter !== undefined) {
+    lines.push('---');
+    for (const [key, value] of Object.entries(output.frontmatter)) {
+      lines.push(`${key}: ${String(value)}`);
+    }
+    lines.push('---');
+  }
+  lines.push(`<!-- synapsync:generated ${cognitive.type} ${cognitive.name} -->`, '');
+
+  const body = output.body.replace(/^\n+/, '');
+  return {
+    fileName: output.fileName,
+    content: `${lines.join('\n')}${body}${body.endsWith('\n') ? '' : '\n'}`,
+  };
+}
+
+/**
+ * Split a main file into its frontmatter and body
+ */
+export function readSource(content: string): SourceDocument {
+  return {
+    frontmatter: parseFrontmatter(content) as Record<string, unknown>,
+    body: content.replace(/^---\n[\s\S]*?\n---\n?/, ''),
+  };
+}
+
+/**
+ * The cognitive a file was rendered from, or null for files sync did not generate
+ */
+export function readGeneratedMarker(content: string): GeneratedFrom | null {
+  const match = content.match(GENERATED_MARKER);
+  const type = match?.[1] as CognitiveType | undefined;
+  const name = match?.[2];
+  if (type === undefined || name === undefined || !COGNITIVE_TYPES.includes(type)) {
+    return null;
+  }
+  return { type, name };
+}
+
+/**
+ * Files sync generated in a folder, with the cognitive each was rendered from
+ */
+export function listGeneratedFiles(dir: string): Array<{ path: string; from: GeneratedFrom }> {
+  const files: Array<{ path: string; from: GeneratedFrom }> = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.startsWith('.')) continue;
+    const filePath = path.join(dir, entry.name);
+    try {
+      const from = readGeneratedMarker(fs.readFileSync(filePath, 'utf-8'));
+      if (from !== null) {
+        files.push({ path: filePath, from });
+      }
+    } catch {
+      // Unreadable, not ours
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,47 @@
+/**
+ * Transformer Types
+ *
+ * Type definitions for rendering cognitives in a provider's native format
+ */
+
+import type { CognitiveType, SupportedProvider } from '../../core/constants.js';
+import type { ScannedCognitive } from '../scanner/types.js';
+
+/**
+ * A cognitive's main file, split into frontmatter and body
+ */
+export interface SourceDocument {
+  frontmatter: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * A cognitive rendered for a provider
+ */
+export interface TransformedCognitive {
+  fileName: string; // file name in the provider's output folder, e.g. code-review.mdc
+  frontmatter?: Record<string, string | boolean>; // written in order; values are not quoted
+  body: string;
+}
+
+/**
+ * Renders cognitives in the format a provider reads
+ */
+export interface ProviderTransformer {
+  provider: SupportedProvider;
+  folder: string; // output folder, relative to the provider's base folder (.cursor → .cursor/rules)
+  types: CognitiveType[]; // types it renders; the others are linked as they are
+  render(
+    cognitive: ScannedCognitive,
+    source: SourceDocument,
+    linkName: string
+  ): TransformedCognitive;
+}
+
+/**
+ * The cognitive a generated file was rendered from, read back from its marker
+ */
+export interface GeneratedFrom {
+  type: CognitiveType;
+  name: string;
+}
@@ -2,7 +2,7 @@
  * Core types for SynapSync CLI
  */
 
-import type { CognitiveType, Category, SupportedProvider } from '../core/constants.js';
+import type { CognitiveType, CognitiveSource, Category, SupportedProvider } from '../core/constants.js';
 
 // ============================================
 // Base Cognitive Types
@@ -40,8 +40,15 @@ export interface InstalledCognitive {
   category: Category;
   version: string;
   installedAt: Date;
-  source: 'registry' | 'local' | 'git';
+  source: CognitiveSource;
   sourceUrl?: string;
+  registry?: string;
+  ref?: string; // github: branch/tag requested
+  commit?: string; // github: commit the ref resolved to
+  hash?: string; // content hash of the main file
+  dependency?: boolean; // installed only to satisfy another cognitive's dependencies
+  collection?: string; // registry collection it was installed with
+  conflicted?: boolean; // update left conflict markers in the main file
 }
 
 // ============================================
@@ -198,6 +205,37 @@ export interface RegistryIndex {
   lastUpdated: string;
   totalCognitives: number;
   cognitives: RegistryCognitiveEntry[];
+  collections?: RegistryCollectionEntry[];
+}
+
+/**
+ * A named bundle of cognitives in the registry index, installed together
+ */
+export interface RegistryCollectionEntry {
+  name: string;
+  description: string;
+  version?: string;
+  author?: string;
+  tags?: string[];
+  cognitives: Array<string | CognitiveDependency>; // name@range or { name, version }
+  /** Name of the registry this entry came from (set by the client) */
+  registry?: string;
+}
+
+/**
+ * Per-cognitive versions listing (<cognitive path>/versions.json)
+ * The version in the index entry is served from the cognitive path itself;
+ * older versions live under their own path, relative to the registry root.
+ */
+export interface RegistryVersionsListing {
+  name: string;
+  versions: RegistryVersionEntry[];
+}
+
+export interface RegistryVersionEntry {
+  version: string;
+  path: string;
+  publishedAt?: string;
 }
 
 /**
@@ -214,6 +252,8 @@ export interface RegistryCognitiveEntry {
   providers: SupportedProvider[];
   downloads: number;
   path: string;
+  /** Name of the registry this entry came from (set by the client) */
+  registry?: string;
 }
 
 /**
@@ -233,10 +273,38 @@ export interface CognitiveManifest {
   file: string;
   repository?: { type: string; url: string };
   homepage?: string;
+  dependencies?: CognitiveDependency[];
+  files?: CognitiveFile[]; // every file besides the main one, downloaded as raw bytes
+  changelog?: ChangelogEntry[]; // release notes, when the cognitive ships no CHANGELOG.md
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * A file shipped with a cognitive, relative to its folder (e.g. assets/logo.png)
+ */
+export interface CognitiveFile {
+  path: string;
+  executable?: boolean; // installed with the executable bit (helper scripts)
+}
+
+/**
+ * Release notes of one version of a cognitive
+ */
+export interface ChangelogEntry {
+  version: string;
+  date?: string;
+  changes: string[];
+}
+
+/**
+ * Another cognitive a cognitive needs, resolved from the registry
+ */
+export interface CognitiveDependency {
+  name: string;
+  version: string; // semver range, '*' for any
+}
+
 /**
  * Search result from the registry
  */
@@ -258,9 +326,11 @@ export interface DownloadedCognitive {
   manifest: CognitiveManifest;
   content: string;
   path: string;
+  version: string; // resolved version
+  registry?: string;
 }
 
 // ============================================
 // Re-exports
 // ============================================
-export type { CognitiveType, Category, SupportedProvider };
+export type { CognitiveType, CognitiveSource, Category, SupportedProvider };
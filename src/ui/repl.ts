@@ -15,13 +15,17 @@ import { executeStatusCommand } from '../commands/status.js';
 import { executeProvidersCommand } from '../commands/providers.js';
 import { executeSearchCommand } from '../commands/search.js';
 import { executeAddCommand } from '../commands/add.js';
+import { executeInstallCommand } from '../commands/install.js';
 import { executeListCommand } from '../commands/list.js';
 import { executeUninstallCommand } from '../commands/uninstall.js';
 import { executeSyncCommand, executeSyncStatusCommand } from '../commands/sync.js';
 import { executeUpdateCommand } from '../commands/update.js';
+import { executeRollbackCommand } from '../commands/rollback.js';
+import { executeAdoptCommand } from '../commands/adopt.js';
 import { executeDoctorCommand } from '../commands/doctor.js';
 import { executeCleanCommand } from '../commands/clean.js';
 import { executePurgeCommand } from '../commands/purge.js';
+import { executeLoginCommand, executeLogoutCommand } from '../commands/login.js';
 
 // Command definition with usage info
 interface CommandDef {
@@ -120,9 +124,10 @@ registerInteractiveCommand(
       'Information': ['info', 'version'],
       'Project': ['init', 'config', 'status'],
       'Providers': ['providers'],
-      'Cognitives': ['search', 'add', 'list', 'uninstall'],
-      'Sync': ['sync'],
-      'Maintenance': ['update', 'doctor', 'clean', 'purge'],
+      'Cognitives': ['search', 'add', 'install', 'list', 'uninstall'],
+      'Sync': ['sync', 'adopt'],
+      'Maintenance': ['update', 'rollback', 'doctor', 'clean', 'purge'],
+      'Registry': ['login', 'logout'],
     };
 
     for (const [category, cmds] of Object.entries(categories)) {
@@ -241,18 +246,20 @@ registerInteractiveCommand(
     executeProvidersCommand(args);
   },
   {
-    usage: '/providers [list|enable|disable|path] [args]',
+    usage: '/providers [list|enable|disable|path|info] [args]',
     options: [
       { flag: 'list', description: 'List all providers and status (default)' },
       { flag: 'enable <provider>', description: 'Enable a provider' },
       { flag: 'disable <provider>', description: 'Disable a provider' },
       { flag: 'path <provider> <path>', description: 'Set custom sync path' },
+      { flag: 'info [provider]', description: 'Show supported types, paths and format' },
     ],
     examples: [
       '/providers',
       '/providers enable openai',
       '/providers disable cursor',
       '/providers path claude .claude-code/',
+      '/providers info copilot',
     ],
   }
 );
@@ -322,6 +329,14 @@ registerInteractiveCommand(
         options['category'] = parts[++i] ?? '';
       } else if (part === '--force' || part === '-f') {
         options['force'] = true;
+      } else if (part === '--frozen-lockfile') {
+        options['frozenLockfile'] = true;
+      } else if (part === '--integrity') {
+        options['integrity'] = parts[++i] ?? '';
+      } else if (part === '--skip-deps') {
+        options['skipDeps'] = true;
+      } else if (part === '--global' || part === '-g') {
+        options['global'] = true;
       } else if (!part.startsWith('-')) {
         source = part;
       }
@@ -341,16 +356,50 @@ registerInteractiveCommand(
       { flag: '-t, --type <type>', description: 'Cognitive type (skill, agent, etc.)' },
       { flag: '-c, --category <cat>', description: 'Category (overrides default)' },
       { flag: '-f, --force', description: 'Overwrite if already installed' },
+      { flag: '--frozen-lockfile', description: 'Fail instead of updating the lockfile' },
+      { flag: '--integrity <sri>', description: 'Expected sha256-<base64> of an archive URL' },
+      { flag: '--skip-deps', description: 'Install without dependencies' },
+      { flag: '-g, --global', description: 'Install into the user-level store' },
     ],
     examples: [
       '/add skill-creator',
+      '/add react-frontend-pack',
       '/add ./my-skill',
       '/add github:user/repo',
+      '/add git+https://host/repo.git#v1.0.0',
+      '/add https://ci.example.com/my-skill.tgz',
       '/add skill-creator --force',
     ],
   }
 );
 
+registerInteractiveCommand(
+  'install',
+  'Install all cognitives recorded in the manifest and lockfile',
+  async (args) => {
+    const parts = args.split(/\s+/);
+    const options: Record<string, boolean> = {};
+
+    for (const part of parts) {
+      if (part === '--force' || part === '-f') {
+        options['force'] = true;
+      } else if (part === '--frozen-lockfile') {
+        options['frozenLockfile'] = true;
+      }
+    }
+
+    await executeInstallCommand(options);
+  },
+  {
+    usage: '/install [options]',
+    options: [
+      { flag: '-f, --force', description: 'Re-download cognitives already present' },
+      { flag: '--frozen-lockfile', description: 'Fail if the lockfile is out of sync' },
+    ],
+    examples: ['/install', '/install --frozen-lockfile'],
+  }
+);
+
 registerInteractiveCommand(
   'list',
   'List installed cognitives or browse registry',
@@ -368,6 +417,8 @@ registerInteractiveCommand(
         options['category'] = parts[++i] ?? '';
       } else if (part === '--remote' || part === '-r') {
         options['remote'] = true;
+      } else if (part === '--global' || part === '-g') {
+        options['global'] = true;
       } else if (part === '--json') {
         options['json'] = true;
       }
@@ -381,15 +432,16 @@ registerInteractiveCommand(
       { flag: '-t, --type <type>', description: 'Filter by type (skill, agent, prompt, etc.)' },
       { flag: '-c, --category <cat>', description: 'Filter by category' },
       { flag: '-r, --remote', description: 'Browse all cognitives in registry' },
+      { flag: '-g, --global', description: 'List the user-level store' },
       { flag: '--json', description: 'Output as JSON' },
     ],
-    examples: ['/list', '/list --remote', '/list --type skill', '/list --category backend'],
+    examples: ['/list', '/list --remote', '/list --global', '/list --type skill', '/list --category backend'],
   }
 );
 
 registerInteractiveCommand(
   'uninstall',
-  'Uninstall a cognitive',
+  'Uninstall a cognitive or a collection',
   (args) => {
     const parts = args.split(/\s+/);
     let name: string | undefined;
@@ -403,6 +455,10 @@ registerInteractiveCommand(
         options['force'] = true;
       } else if (part === '--keep-files') {
         options['keepFiles'] = true;
+      } else if (part === '--frozen-lockfile') {
+        options['frozenLockfile'] = true;
+      } else if (part === '--global' || part === '-g') {
+        options['global'] = true;
       } else if (!part.startsWith('-')) {
         name = part;
       }
@@ -421,8 +477,10 @@ registerInteractiveCommand(
     options: [
       { flag: '-f, --force', description: 'Skip confirmation' },
       { flag: '--keep-files', description: 'Remove from manifest but keep files' },
+      { flag: '--frozen-lockfile', description: 'Fail instead of updating the lockfile' },
+      { flag: '-g, --global', description: 'Uninstall from the user-level store' },
     ],
-    examples: ['/uninstall skill-creator', '/uninstall my-agent --force'],
+    examples: ['/uninstall skill-creator', '/uninstall my-agent --force', '/uninstall react-frontend-pack --force'],
   }
 );
 
@@ -456,6 +514,10 @@ registerInteractiveCommand(
         options['copy'] = true;
       } else if (part === '--force' || part === '-f') {
         options['force'] = true;
+      } else if (part === '--backup') {
+        options['backup'] = true;
+      } else if (part === '--pull') {
+        options['pull'] = true;
       } else if (part === '--verbose' || part === '-v') {
         options['verbose'] = true;
       } else if (part === '--json') {
@@ -480,6 +542,8 @@ registerInteractiveCommand(
       { flag: '-p, --provider <name>', description: 'Sync only to a specific provider' },
       { flag: '--copy', description: 'Use file copy instead of symlinks' },
       { flag: '-f, --force', description: 'Force sync even if already synced' },
+      { flag: '--backup', description: 'Move files SynapSync did not create to .synapsync/.backups/' },
+      { flag: '--pull', description: 'Bring edits made to provider copies back first' },
       { flag: '-v, --verbose', description: 'Show detailed output' },
       { flag: '--json', description: 'Output as JSON' },
     ],
@@ -487,6 +551,45 @@ registerInteractiveCommand(
   }
 );
 
+registerInteractiveCommand(
+  'adopt',
+  'Import a file from a provider folder as a local cognitive',
+  (args) => {
+    const parts = args.split(/\s+/);
+    let target: string | undefined;
+    const options: Record<string, string> = {};
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (part === undefined || part === '') continue;
+
+      if (part === '--type' || part === '-t') {
+        options['type'] = parts[++i] ?? '';
+      } else if (part === '--category' || part === '-c') {
+        options['category'] = parts[++i] ?? '';
+      } else if (!part.startsWith('-')) {
+        target = part;
+      }
+    }
+
+    if (target === undefined || target === '') {
+      logger.error('Please specify a file to adopt.');
+      logger.hint('Usage: /adopt <path> [--type <type>]');
+      return;
+    }
+
+    executeAdoptCommand(target, options);
+  },
+  {
+    usage: '/adopt <path> [options]',
+    options: [
+      { flag: '-t, --type <type>', description: 'Cognitive type (defaults to its provider folder)' },
+      { flag: '-c, --category <category>', description: 'Category to store it in (default: general)' },
+    ],
+    examples: ['/adopt .claude/agents/reviewer.md', '/adopt notes/style.md --type prompt'],
+  }
+);
+
 // ============================================
 // Maintenance Commands
 // ============================================
@@ -511,6 +614,16 @@ registerInteractiveCommand(
         options['dryRun'] = true;
       } else if (part === '--json') {
         options['json'] = true;
+      } else if (part === '--frozen-lockfile') {
+        options['frozenLockfile'] = true;
+      } else if (part === '--global' || part === '-g') {
+        options['global'] = true;
+      } else if (part === '--theirs') {
+        options['theirs'] = true;
+      } else if (part === '--ours') {
+        options['ours'] = true;
+      } else if (part === '--major') {
+        options['major'] = true;
       } else if (!part.startsWith('-')) {
         name = part;
       }
@@ -522,11 +635,65 @@ registerInteractiveCommand(
     usage: '/update [name] [options]',
     options: [
       { flag: '-a, --all', description: 'Update all cognitives' },
-      { flag: '-f, --force', description: 'Force update even if current' },
+      { flag: '-f, --force', description: 'Deprecated: has no effect' },
       { flag: '-n, --dry-run', description: 'Preview updates without applying' },
       { flag: '--json', description: 'Output as JSON' },
+      { flag: '--frozen-lockfile', description: 'Fail instead of updating the lockfile' },
+      { flag: '-g, --global', description: 'Update the user-level store' },
+      { flag: '--theirs', description: 'Replace local edits with the new version' },
+      { flag: '--ours', description: 'Keep locally edited files as they are' },
+      { flag: '--major', description: 'Allow updates across major versions' },
+    ],
+    examples: [
+      '/update skill-creator',
+      '/update --all',
+      '/update --dry-run',
+      '/update --all --global',
+      '/update skill-creator --theirs',
+      '/update --all --major',
     ],
-    examples: ['/update skill-creator', '/update --all', '/update --dry-run'],
+  }
+);
+
+registerInteractiveCommand(
+  'rollback',
+  'Restore a previous version of an updated cognitive',
+  (args) => {
+    const parts = args.split(/\s+/);
+    let name: string | undefined;
+    const options: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (part === undefined || part === '') continue;
+
+      if (part === '--to') {
+        options['to'] = parts[++i] ?? '';
+      } else if (part === '--list' || part === '-l') {
+        options['list'] = true;
+      } else if (part === '--global' || part === '-g') {
+        options['global'] = true;
+      } else if (!part.startsWith('-')) {
+        name = part;
+      }
+    }
+
+    if (name === undefined || name === '') {
+      logger.error('Please specify a cognitive to roll back.');
+      logger.hint('Usage: /rollback <name> [--to <version>]');
+      return;
+    }
+
+    executeRollbackCommand(name, options);
+  },
+  {
+    usage: '/rollback <name> [options]',
+    options: [
+      { flag: '--to <version>', description: 'Version to restore' },
+      { flag: '-l, --list', description: 'List the previous versions kept' },
+      { flag: '-g, --global', description: 'Roll back in the user-level store' },
+    ],
+    examples: ['/rollback skill-creator', '/rollback skill-creator --to 1.0.0', '/rollback skill-creator --list'],
   }
 );
 
@@ -580,6 +747,8 @@ registerInteractiveCommand(
         options['force'] = true;
       } else if (part === '--verbose' || part === '-v') {
         options['verbose'] = true;
+      } else if (part === '--history') {
+        options['history'] = true;
       } else if (part === '--json') {
         options['json'] = true;
       }
@@ -593,9 +762,10 @@ registerInteractiveCommand(
       { flag: '-n, --dry-run', description: 'Preview what would be cleaned' },
       { flag: '-f, --force', description: 'Skip confirmation' },
       { flag: '-v, --verbose', description: 'Show detailed output' },
+      { flag: '--history', description: 'Clean previous versions kept for rollback' },
       { flag: '--json', description: 'Output as JSON' },
     ],
-    examples: ['/clean', '/clean --dry-run', '/clean --force'],
+    examples: ['/clean', '/clean --dry-run', '/clean --force', '/clean --history'],
   }
 );
 
@@ -623,6 +793,82 @@ registerInteractiveCommand(
   }
 );
 
+// ============================================
+// Registry Commands
+// ============================================
+
+registerInteractiveCommand(
+  'login',
+  'Store credentials for an authenticated registry',
+  async (args) => {
+    const parts = args.split(/\s+/);
+    let registry: string | undefined;
+    const options: Record<string, string> = {};
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (part === undefined || part === '') continue;
+
+      if (part === '--token') {
+        options['token'] = parts[++i] ?? '';
+      } else if (part === '--token-env') {
+        options['tokenEnv'] = parts[++i] ?? '';
+      } else if (part === '--username' || part === '-u') {
+        options['username'] = parts[++i] ?? '';
+      } else if (part === '--password' || part === '-p') {
+        options['password'] = parts[++i] ?? '';
+      } else if (!part.startsWith('-')) {
+        registry = part;
+      }
+    }
+
+    if (registry === undefined || registry === '') {
+      logger.error('Please specify a registry.');
+      logger.hint('Usage: /login <registry> --token <token>');
+      return;
+    }
+
+    // Secrets cannot be prompted for while the REPL owns stdin
+    if (options['token'] === undefined && options['tokenEnv'] === undefined && options['password'] === undefined) {
+      logger.error('Please provide credentials as options in interactive mode.');
+      logger.hint('Use --token, --token-env, or --username with --password.');
+      return;
+    }
+
+    await executeLoginCommand(registry, options);
+  },
+  {
+    usage: '/login <registry> [options]',
+    options: [
+      { flag: '--token <token>', description: 'Bearer token' },
+      { flag: '--token-env <var>', description: 'Read a bearer token from an env var' },
+      { flag: '-u, --username', description: 'Username for basic auth' },
+      { flag: '-p, --password', description: 'Password for basic auth' },
+    ],
+    examples: ['/login internal --token-env INTERNAL_TOKEN', '/login acme -u ci -p secret'],
+  }
+);
+
+registerInteractiveCommand(
+  'logout',
+  'Remove stored credentials for a registry',
+  (args) => {
+    const registry = args.trim().split(/\s+/)[0];
+
+    if (registry === undefined || registry === '') {
+      logger.error('Please specify a registry.');
+      logger.hint('Usage: /logout <registry>');
+      return;
+    }
+
+    executeLogoutCommand(registry);
+  },
+  {
+    usage: '/logout <registry>',
+    examples: ['/logout internal'],
+  }
+);
+
 // ============================================
 // Utility Commands
 // ============================================
@@ -0,0 +1,56 @@
+/**
+ * Changelog utilities for cognitive release notes
+ *
+ * Reads Keep a Changelog style files: one "## [1.2.0] - 2026-01-28" heading
+ * per version (brackets, "v" and date optional), followed by its changes.
+ */
+
+import type { ChangelogEntry } from '../types/index.js';
+import { compareVersions } from './semver.js';
+
+const VERSION_HEADING = /^##\s+\[?v?([0-9][^\]\s]*)\]?(?:\s+[-–]\s+(\S+))?/;
+
+/**
+ * Parse the version sections of a CHANGELOG.md
+ * Bullets become one change each; sub-headings (### Added) become "Added:" lines
+ */
+export function parseChangelog(markdown: string): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  let current: ChangelogEntry | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const heading = VERSION_HEADING.exec(line);
+    if (heading !== null) {
+      current = { version: heading[1] ?? '', changes: [] };
+      if (heading[2] !== undefined) {
+        current.date = heading[2];
+      }
+      entries.push(current);
+    } else if (/^##\s/.test(line)) {
+      // [Unreleased] and other sections
+      current = null;
+    } else if (current !== null && line.trim() !== '') {
+      current.changes.push(
+        line
+          .trim()
+          .replace(/^[-*]\s+/, '')
+          .replace(/^#+\s*(.*)$/, '$1:')
+      );
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Entries of the versions after one version, up to and including another, newest first
+ */
+export function selectChangelog(
+  entries: ChangelogEntry[],
+  from: string,
+  to: string
+): ChangelogEntry[] {
+  return entries
+    .filter((e) => compareVersions(e.version, from) > 0 && compareVersions(e.version, to) <= 0)
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
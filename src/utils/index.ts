@@ -4,3 +4,18 @@
 
 export { logger } from './logger.js';
 export type { Logger } from './logger.js';
+
+export {
+  parseVersion,
+  compareVersions,
+  isExactVersion,
+  isValidRange,
+  satisfies,
+  maxSatisfying,
+} from './semver.js';
+export type { SemVer } from './semver.js';
+
+export { parseCognitiveName, isValidCognitiveName, toLinkName, fromLinkName, findLinkConflict } from './names.js';
+export type { CognitiveName } from './names.js';
+
+export { parseChangelog, selectChangelog } from './changelog.js';
@@ -5,6 +5,7 @@
 
 import pc from 'picocolors';
 import ora, { type Ora } from 'ora';
+import { VERBOSE_ENV_VAR } from '../core/constants.js';
 
 export interface Logger {
   // Basic output
@@ -87,10 +88,10 @@ export const logger: Logger = {
   },
 
   /**
-   * Debug message (only if DEBUG env is set)
+   * Debug message (only if DEBUG env is set or --verbose is passed)
    */
   debug(message: string): void {
-    if (process.env['DEBUG']) {
+    if (process.env['DEBUG'] || process.env[VERBOSE_ENV_VAR] === '1') {
       console.log(`${pc.dim('⋯')} ${pc.dim(message)}`);
     }
   },
@@ -0,0 +1,103 @@
+/**
+ * Cognitive name utilities
+ *
+ * Names are bare (code-review) or scoped by publisher (@acme/code-review).
+ * Scoped cognitives live in a scope folder (.synapsync/skills/general/@acme/code-review)
+ * and are linked into providers with the scope as a prefix (acme__code-review).
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface CognitiveName {
+  scope: string | null; // @acme
+  name: string; // name without the scope
+}
+
+const SCOPE_PATTERN = /^@[a-z0-9][a-z0-9-._]*$/;
+const LINK_SCOPE_SEPARATOR = '__';
+
+// ============================================
+// Parsing & Validation
+// ============================================
+
+/**
+ * Split a cognitive name into scope and name (@acme/deploy → @acme, deploy)
+ */
+export function parseCognitiveName(name: string): CognitiveName {
+  const slashIndex = name.indexOf('/');
+  if (!name.startsWith('@') || slashIndex < 0) {
+    return { scope: null, name };
+  }
+  return { scope: name.slice(0, slashIndex), name: name.slice(slashIndex + 1) };
+}
+
+/**
+ * Whether a name is safe to use as a folder: one segment, or @scope/name
+ */
+export function isValidCognitiveName(name: string): boolean {
+  const { scope, name: bare } = parseCognitiveName(name);
+  if (scope !== null && !SCOPE_PATTERN.test(scope)) {
+    return false;
+  }
+  return isSafeSegment(bare);
+}
+
+/**
+ * Whether a category is safe to use as a folder: a single segment
+ */
+export function isValidCategory(category: string): boolean {
+  return isSafeSegment(category);
+}
+
+function isSafeSegment(segment: string): boolean {
+  return (
+    segment !== '' &&
+    segment !== '.' &&
+    segment !== '..' &&
+    !/[/\\]/.test(segment) &&
+    !segment.startsWith('@')
+  );
+}
+
+// ============================================
+// Provider Links
+// ============================================
+
+/**
+ * Name of a cognitive's link in a provider folder, which is always flat
+ * The base name defaults to the name without scope; file links pass their file name
+ */
+export function toLinkName(name: string, baseName?: string): string {
+  const { scope, name: bare } = parseCognitiveName(name);
+  const base = baseName ?? bare;
+  return scope === null ? base : `${scope.slice(1)}${LINK_SCOPE_SEPARATOR}${base}`;
+}
+
+/**
+ * Cognitive name shown for a provider link (acme__deploy → @acme/deploy)
+ */
+export function fromLinkName(linkName: string): string {
+  const separatorIndex = linkName.indexOf(LINK_SCOPE_SEPARATOR);
+  if (separatorIndex <= 0) {
+    return linkName;
+  }
+  const scope = `@${linkName.slice(0, separatorIndex)}`;
+  const name = linkName.slice(separatorIndex + LINK_SCOPE_SEPARATOR.length);
+  return SCOPE_PATTERN.test(scope) && name !== '' ? `${scope}/${name}` : linkName;
+}
+
+/**
+ * Another name whose provider link the name would share (acme__deploy and @acme/deploy)
+ * Only new cognitives are checked, so names installed before scopes keep working
+ */
+export function findLinkConflict(name: string, names: Iterable<string>): string | undefined {
+  const linkName = toLinkName(name);
+  for (const other of names) {
+    if (other !== name && toLinkName(other) === linkName) {
+      return other;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,296 @@
+/**
+ * Minimal semver utilities for cognitive versions
+ *
+ * Supports exact versions, x-ranges (1.2, 1.x, *), caret (^1.2.0),
+ * tilde (~1.2.0), comparators (>=1.0.0 <2.0.0) and unions (||).
+ * Prereleases only satisfy ranges that name them exactly.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '>' | '>=' | '<' | '<=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+// ============================================
+// Parsing & Comparison
+// ============================================
+
+/**
+ * Parse a full version (1.2.3, v1.2.3, 1.2.3-beta.1)
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (match === null) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] !== undefined ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Check if a string is a full version rather than a range
+ */
+export function isExactVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions
+ * Returns -1 if a < b, 0 if equal, 1 if a > b
+ * Unparseable versions fall back to a numeric dot-wise comparison
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+
+  if (va === null || vb === null) {
+    return compareLoose(a, b);
+  }
+
+  return compareSemVer(va, vb);
+}
+
+function compareSemVer(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) return a[key] < b[key] ? -1 : 1;
+  }
+
+  // A version without prerelease is greater than one with
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return Math.sign(b.prerelease.length - a.prerelease.length);
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const pa = a.prerelease[i];
+    const pb = b.prerelease[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+
+    const na = /^\d+$/.test(pa) ? Number(pa) : NaN;
+    const nb = /^\d+$/.test(pb) ? Number(pb) : NaN;
+    if (!isNaN(na) && !isNaN(nb)) return na < nb ? -1 : 1;
+    if (!isNaN(na)) return -1;
+    if (!isNaN(nb)) return 1;
+    return pa < pb ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function compareLoose(a: string, b: string): number {
+  const toParts = (v: string): number[] =>
+    v.replace(/^v/, '').split('.').map((n) => {
+      const parsed = parseInt(n, 10);
+      return isNaN(parsed) ? 0 : parsed;
+    });
+  const pa = toParts(a);
+  const pb = toParts(b);
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const na = pa[i] ?? 0;
+    const nb = pb[i] ?? 0;
+    if (na !== nb) return na < nb ? -1 : 1;
+  }
+
+  return 0;
+}
+
+// ============================================
+// Ranges
+// ============================================
+
+/**
+ * Check if a range expression is valid
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check if a version satisfies a range
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const sets = parseRange(range);
+  if (parsed === null || sets === null) return false;
+
+  return sets.some((set) => {
+    // Prereleases must be asked for explicitly
+    if (
+      parsed.prerelease.length > 0 &&
+      !set.some((c) => c.version.prerelease.length > 0 && sameCore(c.version, parsed))
+    ) {
+      return false;
+    }
+    return set.every((c) => test(parsed, c));
+  });
+}
+
+/**
+ * Get the highest version satisfying a range
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  let best: string | null = null;
+  for (const version of versions) {
+    if (satisfies(version, range) && (best === null || compareVersions(version, best) > 0)) {
+      best = version;
+    }
+  }
+  return best;
+}
+
+function sameCore(a: SemVer, b: SemVer): boolean {
+  return a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+}
+
+function test(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareSemVer(version, comparator.version);
+  switch (comparator.operator) {
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '=':
+      return cmp === 0;
+  }
+}
+
+/**
+ * Parse a range into a union of comparator sets
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const tokens = part.trim().split(/\s+/).filter((t) => t !== '');
+    if (tokens.length === 0) {
+      tokens.push('*');
+    }
+
+    const set: Comparator[] = [];
+    for (const token of tokens) {
+      const comparators = parseComparator(token);
+      if (comparators === null) return null;
+      set.push(...comparators);
+    }
+    sets.push(set);
+  }
+
+  return sets;
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const match = /^(\^|~|>=|<=|>|<|=)?(.*)$/.exec(token);
+  const prefix = match?.[1] ?? '';
+  const partial = parsePartial(match?.[2] ?? '');
+  if (partial === null) return null;
+
+  const { major, minor, patch, prerelease } = partial;
+  const version = (ma: number, mi: number, pa: number, pre: string[] = []): SemVer => ({
+    major: ma,
+    minor: mi,
+    patch: pa,
+    prerelease: pre,
+  });
+  const floor = version(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+
+  // Wildcard: any version
+  if (major === null) {
+    return prefix === '<' || prefix === '>' ? null : [];
+  }
+
+  switch (prefix) {
+    case '^': {
+      const upper =
+        major > 0 || minor === null
+          ? version(major + 1, 0, 0)
+          : minor > 0 || patch === null
+            ? version(0, minor + 1, 0)
+            : version(0, 0, (patch ?? 0) + 1);
+      return [
+        { operator: '>=', version: floor },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~': {
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [
+        { operator: '>=', version: floor },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '>':
+      if (minor === null) return [{ operator: '>=', version: version(major + 1, 0, 0) }];
+      if (patch === null) return [{ operator: '>=', version: version(major, minor + 1, 0) }];
+      return [{ operator: '>', version: floor }];
+    case '<=':
+      if (minor === null) return [{ operator: '<', version: version(major + 1, 0, 0) }];
+      if (patch === null) return [{ operator: '<', version: version(major, minor + 1, 0) }];
+      return [{ operator: '<=', version: floor }];
+    case '>=':
+    case '<':
+      return [{ operator: prefix, version: floor }];
+    default: {
+      // Exact or x-range (1, 1.2, 1.x)
+      if (minor === null) {
+        return [
+          { operator: '>=', version: floor },
+          { operator: '<', version: version(major + 1, 0, 0) },
+        ];
+      }
+      if (patch === null) {
+        return [
+          { operator: '>=', version: floor },
+          { operator: '<', version: version(major, minor + 1, 0) },
+        ];
+      }
+      return [{ operator: '=', version: floor }];
+    }
+  }
+}
+
+function parsePartial(
+  text: string
+): { major: number | null; minor: number | null; patch: number | null; prerelease: string[] } | null {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (match === null) return null;
+
+  const toNumber = (part: string | undefined): number | null =>
+    part === undefined || /^[xX*]$/.test(part) ? null : Number(part);
+
+  const major = toNumber(match[1]);
+  const minor = major === null ? null : toNumber(match[2]);
+  const patch = minor === null ? null : toNumber(match[3]);
+
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: patch !== null && match[4] !== undefined ? match[4].split('.') : [],
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Add Command Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../../src/services/config/manager.js';
+import { ManifestManager } from '../../../src/services/manifest/manager.js';
+import { LockfileManager } from '../../../src/services/lockfile/manager.js';
+import { fetchFromGitHub } from '../../../src/services/installer/index.js';
+import type { GitHubSource } from '../../../src/services/github/index.js';
+import { executeAddCommand } from '../../../src/commands/add.js';
+
+vi.mock('../../../src/services/installer/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/installer/index.js')>()),
+  fetchFromGitHub: vi.fn(),
+}));
+
+const LOCKED_COMMIT = 'a'.repeat(40);
+const LATEST_COMMIT = 'b'.repeat(40);
+
+describe('executeAddCommand', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-add-'));
+    const synapSyncDir = path.join(projectRoot, '.synapsync');
+    fs.mkdirSync(synapSyncDir);
+    const config = new ConfigManager(projectRoot);
+    config.create('test');
+    config.save();
+    vi.spyOn(ConfigManager, 'findConfig').mockReturnValue(ConfigManager.findConfig(projectRoot));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // The repo folder is 'review-skill', but the cognitive is named 'reviewer'
+    vi.mocked(fetchFromGitHub).mockImplementation((_client, source: GitHubSource) =>
+      Promise.resolve({
+        manifest: { name: 'reviewer', type: 'skill', category: 'general', version: '1.0.0' },
+        content: '# Reviewer\n',
+        assets: new Map(),
+        source,
+        commit: source.ref ?? LATEST_COMMIT,
+      })
+    );
+
+    const manifest = new ManifestManager(synapSyncDir);
+    manifest.addCognitive({
+      name: 'reviewer',
+      type: 'skill',
+      category: 'general',
+      version: '1.0.0',
+      installedAt: new Date().toISOString(),
+      source: 'github',
+    });
+    manifest.save();
+
+    const lockfile = new LockfileManager(projectRoot);
+    lockfile.setCognitive({
+      name: 'reviewer',
+      type: 'skill',
+      category: 'general',
+      version: '1.0.0',
+      source: 'github',
+      resolved: `github:acme/skills/review-skill#${LOCKED_COMMIT}`,
+      commit: LOCKED_COMMIT,
+      integrity: 'sha256-',
+    });
+    lockfile.save();
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should pin a frozen GitHub install to the commit locked for its manifest name', async () => {
+    await executeAddCommand('github:acme/skills/review-skill', { frozenLockfile: true });
+
+    expect(fetchFromGitHub).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ ref: LOCKED_COMMIT }),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Install Command Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../../src/services/config/manager.js';
+import { ManifestManager } from '../../../src/services/manifest/manager.js';
+import { LockfileManager } from '../../../src/services/lockfile/manager.js';
+import { createRegistryClient } from '../../../src/services/registry/client.js';
+import type { RegistryClient } from '../../../src/services/registry/client.js';
+import { executeInstallCommand } from '../../../src/commands/install.js';
+
+vi.mock('../../../src/services/registry/client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/registry/client.js')>()),
+  createRegistryClient: vi.fn(),
+}));
+
+describe('executeInstallCommand', () => {
+  let projectRoot: string;
+  let synapSyncDir: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-install-'));
+    synapSyncDir = path.join(projectRoot, '.synapsync');
+    fs.mkdirSync(synapSyncDir);
+    const config = new ConfigManager(projectRoot);
+    config.create('test');
+    config.save();
+    vi.spyOn(ConfigManager, 'findConfig').mockReturnValue(ConfigManager.findConfig(projectRoot));
+    vi.mocked(createRegistryClient).mockReturnValue({
+      download: vi.fn().mockRejectedValue(new Error('registry unreachable')),
+    } as unknown as RegistryClient);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const manifest = new ManifestManager(synapSyncDir);
+    manifest.addCognitive({
+      name: 'reviewer',
+      type: 'skill',
+      category: 'general',
+      version: '1.0.0',
+      installedAt: new Date().toISOString(),
+      source: 'registry',
+    });
+    manifest.save();
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should exit non-zero when a cognitive cannot be restored', async () => {
+    await executeInstallCommand();
+
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should exit non-zero when the lockfile is out of sync and frozen', async () => {
+    new LockfileManager(projectRoot).save();
+
+    await executeInstallCommand({ frozenLockfile: true });
+
+    expect(process.exitCode).toBe(1);
+    expect(createRegistryClient).not.toHaveBeenCalled();
+  });
+});
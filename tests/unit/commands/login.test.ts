@@ -0,0 +1,38 @@
+/**
+ * Login Command Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CredentialStore } from '../../../src/services/registry/credentials.js';
+import { executeLoginCommand } from '../../../src/commands/login.js';
+
+describe('executeLoginCommand', () => {
+  let set: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    set = vi.spyOn(CredentialStore.prototype, 'set').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.defineProperty(process.stdin, 'isTTY', { value: false, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should take username and password flags without a terminal', async () => {
+    await executeLoginCommand('https://registry.test', { username: 'ci', password: 'secret' });
+
+    expect(set).toHaveBeenCalledWith('https://registry.test', {
+      type: 'basic',
+      username: 'ci',
+      password: 'secret',
+    });
+  });
+
+  it('should not prompt for a missing password without a terminal', async () => {
+    await executeLoginCommand('https://registry.test', { username: 'ci' });
+
+    expect(set).not.toHaveBeenCalled();
+  });
+});
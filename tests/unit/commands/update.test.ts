@@ -0,0 +1,151 @@
+/**
+ * Update Command Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../../../src/services/config/manager.js';
+import { ManifestManager } from '../../../src/services/manifest/manager.js';
+import { createRegistryClient } from '../../../src/services/registry/client.js';
+import type { RegistryClient } from '../../../src/services/registry/client.js';
+import { executeUpdateCommand } from '../../../src/commands/update.js';
+
+vi.mock('../../../src/services/registry/client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/registry/client.js')>()),
+  createRegistryClient: vi.fn(),
+}));
+
+// Two versions of a skill whose main file is review.md, not SKILL.md
+const RELEASES: Record<string, { content: string; files: Record<string, string> }> = {
+  '1.0.0': {
+    content: '---\nname: reviewer\n---\n# Reviewer\n',
+    files: { 'assets/old.md': 'old\n', 'assets/notes.md': 'notes\n' },
+  },
+  '1.1.0': {
+    content: '---\nname: reviewer\n---\n# Reviewer\n\nNew section.\n',
+    files: { 'assets/new.md': 'new\n', 'assets/notes.md': 'notes\n' },
+  },
+};
+
+function createFakeRegistry(): RegistryClient {
+  const entry = {
+    name: 'reviewer',
+    type: 'skill',
+    category: 'general',
+    version: '1.1.0',
+    path: 'skills/general/reviewer',
+  };
+  return {
+    findByName: vi.fn().mockResolvedValue(entry),
+    getVersions: vi.fn().mockResolvedValue([]),
+    download: vi.fn((_name: string, options: { version?: string } = {}) => {
+      const version = options.version ?? '1.1.0';
+      const release = RELEASES[version]!;
+      return Promise.resolve({
+        manifest: {
+          name: 'reviewer',
+          type: 'skill',
+          category: 'general',
+          version,
+          file: 'review.md',
+          files: Object.keys(release.files),
+        },
+        content: release.content,
+        path: entry.path,
+        version,
+      });
+    }),
+    downloadAsset: vi.fn((asset: { version: string }, assetPath: string) =>
+      Promise.resolve(Buffer.from(RELEASES[asset.version]!.files[assetPath]!))
+    ),
+    getRegistryUrl: vi.fn().mockReturnValue('https://registry.test'),
+    getBaseUrl: vi.fn(),
+  } as unknown as RegistryClient;
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [relativePath, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(dir, relativePath), content);
+  }
+}
+
+describe('executeUpdateCommand', () => {
+  let projectRoot: string;
+  let cognitiveDir: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-update-'));
+    const config = new ConfigManager(projectRoot);
+    config.create('test');
+    config.save();
+    vi.spyOn(ConfigManager, 'findConfig').mockReturnValue(ConfigManager.findConfig(projectRoot));
+    vi.mocked(createRegistryClient).mockReturnValue(createFakeRegistry());
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Version 1.0.0 installed, with its pristine base
+    const synapSyncDir = path.join(projectRoot, '.synapsync');
+    const installed = { 'review.md': RELEASES['1.0.0']!.content, ...RELEASES['1.0.0']!.files };
+    cognitiveDir = path.join(synapSyncDir, 'skills', 'general', 'reviewer');
+    writeFiles(cognitiveDir, installed);
+    writeFiles(path.join(synapSyncDir, '.base', 'skills', 'general', 'reviewer'), installed);
+
+    const manifest = new ManifestManager(synapSyncDir);
+    manifest.addCognitive({
+      name: 'reviewer',
+      type: 'skill',
+      category: 'general',
+      version: '1.0.0',
+      installedAt: new Date().toISOString(),
+      source: 'registry',
+    });
+    manifest.save();
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should keep the main file name of the cognitive', async () => {
+    await executeUpdateCommand('reviewer');
+
+    expect(fs.readFileSync(path.join(cognitiveDir, 'review.md'), 'utf-8')).toBe(
+      RELEASES['1.1.0']!.content
+    );
+    expect(fs.existsSync(path.join(cognitiveDir, 'SKILL.md'))).toBe(false);
+  });
+
+  it('should remove assets the new version no longer ships', async () => {
+    await executeUpdateCommand('reviewer');
+
+    expect(fs.existsSync(path.join(cognitiveDir, 'assets', 'old.md'))).toBe(false);
+    expect(fs.readFileSync(path.join(cognitiveDir, 'assets', 'new.md'), 'utf-8')).toBe('new\n');
+  });
+
+  it('should keep local edits to assets', async () => {
+    fs.writeFileSync(path.join(cognitiveDir, 'assets', 'notes.md'), 'my notes\n');
+
+    await executeUpdateCommand('reviewer');
+
+    expect(fs.readFileSync(path.join(cognitiveDir, 'assets', 'notes.md'), 'utf-8')).toBe(
+      'my notes\n'
+    );
+    expect(
+      new ManifestManager(path.join(projectRoot, '.synapsync')).getCognitive('reviewer')?.version
+    ).toBe('1.1.0');
+  });
+
+  it('should exit non-zero when the lockfile is out of sync and frozen', async () => {
+    await executeUpdateCommand('reviewer', { frozenLockfile: true });
+
+    expect(process.exitCode).toBe(1);
+    expect(fs.readFileSync(path.join(cognitiveDir, 'review.md'), 'utf-8')).toBe(
+      RELEASES['1.0.0']!.content
+    );
+  });
+});
@@ -91,6 +91,62 @@ sync:
       expect(() => manager.load()).toThrow('Configuration file not found');
     });
 
+    it('should load registries', () => {
+      const yaml = `${validConfigYaml}registries:
+  - name: acme
+    url: https://registry.acme.dev
+    priority: 10
+    scopes: ["@acme"]
+`;
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(yaml);
+
+      const config = new ConfigManager(testProjectRoot).load();
+
+      expect(config.registries?.[0]?.name).toBe('acme');
+      expect(config.registries?.[0]?.scopes).toEqual(['@acme']);
+    });
+
+    it('should reject invalid registries', () => {
+      const yaml = `${validConfigYaml}registries:
+  - name: acme
+    url: registry.acme.dev
+  - name: acme
+    url: https://other.dev
+    scopes: ["acme"]
+`;
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(yaml);
+
+      const manager = new ConfigManager(testProjectRoot);
+      expect(() => manager.load()).toThrow(ConfigValidationError);
+    });
+
+    it('should load update policies and reject unknown ones', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(`${validConfigYaml}updates:
+  code-reviewer: pinned
+  react-patterns: patch
+`);
+      expect(new ConfigManager(testProjectRoot).load().updates).toEqual({
+        'code-reviewer': 'pinned',
+        'react-patterns': 'patch',
+      });
+
+      vi.mocked(fs.readFileSync).mockReturnValue(`${validConfigYaml}updates:
+  code-reviewer: frozen
+`);
+      expect(() => new ConfigManager(testProjectRoot).load()).toThrow(ConfigValidationError);
+    });
+
+    it('should reject provider paths that are not folder names', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(`${validConfigYaml}      paths:
+        skill: ""
+`);
+      expect(() => new ConfigManager(testProjectRoot).load()).toThrow(ConfigValidationError);
+    });
+
     it('should throw ConfigValidationError for invalid config', () => {
       const invalidYaml = `
 version: "1.0.0"
@@ -281,6 +337,52 @@ sync:
       });
     });
 
+    describe('findGlobalConfig', () => {
+      const home = '/home/user';
+      const globalConfigPath = path.join(home, '.synapsync', 'synapsync.config.yaml');
+
+      it('should root the store in ~/.synapsync and sync into the home directory', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(validConfigYaml);
+
+        const manager = ConfigManager.findGlobalConfig(home);
+
+        expect(manager.isGlobal()).toBe(true);
+        expect(manager.getProjectRoot()).toBe(home);
+        expect(manager.getSynapSyncDir()).toBe(path.join(home, '.synapsync'));
+        expect(manager.getLockfileDir()).toBe(path.join(home, '.synapsync'));
+        expect(fs.readFileSync).toHaveBeenCalledWith(globalConfigPath, 'utf-8');
+      });
+
+      it('should create a default config in memory when missing', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(false);
+
+        const manager = ConfigManager.findGlobalConfig(home);
+
+        expect(manager.exists()).toBe(false);
+        expect(manager.getConfig().name).toBe('global');
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should create ~/.synapsync on save', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(false);
+        vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+        vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+        ConfigManager.findGlobalConfig(home).save();
+
+        expect(fs.mkdirSync).toHaveBeenCalledWith(path.join(home, '.synapsync'), { recursive: true });
+        expect(fs.writeFileSync).toHaveBeenCalledWith(globalConfigPath, expect.any(String), 'utf-8');
+      });
+
+      it('should keep project lockfiles in the project root', () => {
+        const manager = new ConfigManager(testProjectRoot);
+
+        expect(manager.isGlobal()).toBe(false);
+        expect(manager.getLockfileDir()).toBe(testProjectRoot);
+      });
+    });
+
     describe('isProjectInitialized', () => {
       it('should return true when both config and .synapsync exist', () => {
         vi.mocked(fs.existsSync).mockReturnValue(true);
@@ -0,0 +1,158 @@
+/**
+ * Dependency Resolver Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  resolveDependencies,
+  parseDependencies,
+  DependencyCycleError,
+  DependencyConflictError,
+} from '../../../src/services/dependencies/index.js';
+import type { CognitiveDependency, CognitiveManifest } from '../../../src/types/index.js';
+
+function createManifest(
+  name: string,
+  version: string,
+  dependencies: CognitiveDependency[] = []
+): CognitiveManifest {
+  return {
+    name,
+    type: 'skill',
+    version,
+    description: '',
+    author: 'synapsync',
+    license: 'MIT',
+    category: 'general',
+    tags: [],
+    providers: [],
+    file: 'SKILL.md',
+    ...(dependencies.length > 0 && { dependencies }),
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+/**
+ * Fake registry returning the manifests it knows by name
+ */
+function createFetch(manifests: CognitiveManifest[]) {
+  return vi.fn((dependency: CognitiveDependency) => {
+    const manifest = manifests.find((m) => m.name === dependency.name);
+    if (manifest === undefined) {
+      return Promise.reject(new Error(`not found: ${dependency.name}`));
+    }
+    return Promise.resolve({ manifest });
+  });
+}
+
+describe('Dependencies', () => {
+  describe('resolveDependencies', () => {
+    it('should resolve dependencies recursively, dependencies first', async () => {
+      const root = createManifest('release-workflow', '1.0.0', [
+        { name: 'code-reviewer', version: '^1.0.0' },
+        { name: 'changelog-prompt', version: '*' },
+      ]);
+      const fetch = createFetch([
+        createManifest('code-reviewer', '1.2.0', [{ name: 'git-tool', version: '~2.0.0' }]),
+        createManifest('git-tool', '2.0.3'),
+        createManifest('changelog-prompt', '0.1.0'),
+      ]);
+
+      const resolved = await resolveDependencies(root, { fetch, installed: new Map() });
+
+      expect(resolved.map((d) => [d.name, d.requiredBy])).toEqual([
+        ['git-tool', 'code-reviewer'],
+        ['code-reviewer', 'release-workflow'],
+        ['changelog-prompt', 'release-workflow'],
+      ]);
+    });
+
+    it('should skip dependencies already installed at a matching version', async () => {
+      const root = createManifest('release-workflow', '1.0.0', [{ name: 'code-reviewer', version: '^1.0.0' }]);
+      const fetch = createFetch([]);
+
+      const resolved = await resolveDependencies(root, {
+        fetch,
+        installed: new Map([['code-reviewer', '1.4.0']]),
+      });
+
+      expect(resolved).toEqual([]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch a shared dependency once', async () => {
+      const root = createManifest('a', '1.0.0', [
+        { name: 'b', version: '*' },
+        { name: 'c', version: '*' },
+      ]);
+      const fetch = createFetch([
+        createManifest('b', '1.0.0', [{ name: 'shared', version: '^1.0.0' }]),
+        createManifest('c', '1.0.0', [{ name: 'shared', version: '>=1.1.0' }]),
+        createManifest('shared', '1.2.0'),
+      ]);
+
+      const resolved = await resolveDependencies(root, { fetch, installed: new Map() });
+
+      expect(resolved.map((d) => d.name)).toEqual(['shared', 'b', 'c']);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should detect cycles', async () => {
+      const root = createManifest('a', '1.0.0', [{ name: 'b', version: '*' }]);
+      const fetch = createFetch([createManifest('b', '1.0.0', [{ name: 'a', version: '*' }])]);
+
+      const error = await resolveDependencies(root, { fetch, installed: new Map() }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(DependencyCycleError);
+      expect((error as DependencyCycleError).cycle).toEqual(['a', 'b', 'a']);
+    });
+
+    it('should reject an installed version outside the range', async () => {
+      const root = createManifest('a', '1.0.0', [{ name: 'b', version: '^2.0.0' }]);
+
+      await expect(
+        resolveDependencies(root, { fetch: createFetch([]), installed: new Map([['b', '1.3.0']]) })
+      ).rejects.toThrow(DependencyConflictError);
+    });
+
+    it('should reject dependents asking for incompatible versions', async () => {
+      const root = createManifest('a', '1.0.0', [
+        { name: 'b', version: '*' },
+        { name: 'c', version: '*' },
+      ]);
+      const fetch = createFetch([
+        createManifest('b', '1.0.0', [{ name: 'shared', version: '^1.0.0' }]),
+        createManifest('c', '1.0.0', [{ name: 'shared', version: '^2.0.0' }]),
+        createManifest('shared', '1.2.0'),
+      ]);
+
+      await expect(resolveDependencies(root, { fetch, installed: new Map() })).rejects.toThrow(
+        'c requires shared@^2.0.0, but shared@1.2.0 was resolved for b'
+      );
+    });
+  });
+
+  describe('parseDependencies', () => {
+    it('should parse name@range strings from frontmatter', () => {
+      expect(parseDependencies(['code-reviewer@^1.2.0', '@acme/git-tool@~2.0', 'plain'])).toEqual([
+        { name: 'code-reviewer', version: '^1.2.0' },
+        { name: '@acme/git-tool', version: '~2.0' },
+        { name: 'plain', version: '*' },
+      ]);
+    });
+
+    it('should parse objects and name maps from registry manifests', () => {
+      expect(parseDependencies([{ name: 'a', version: '1.x' }])).toEqual([{ name: 'a', version: '1.x' }]);
+      expect(parseDependencies({ a: '^1.0.0', b: 'latest' })).toEqual([
+        { name: 'a', version: '^1.0.0' },
+        { name: 'b', version: '*' },
+      ]);
+      expect(parseDependencies(undefined)).toEqual([]);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => parseDependencies(['a@not-a-range'])).toThrow('Invalid dependency: a@not-a-range');
+    });
+  });
+});
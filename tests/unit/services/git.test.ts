@@ -0,0 +1,130 @@
+/**
+ * GitClient Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { execFile } from 'child_process';
+import {
+  GitClient,
+  GitError,
+  formatGitSource,
+  getGitSourceName,
+  parseGitSource,
+} from '../../../src/services/git/index.js';
+
+// Mock child_process so no real git runs
+vi.mock('child_process');
+
+const SHA = 'c'.repeat(40);
+
+type ExecCallback = (error: Error | null, stdout: string, stderr: string) => void;
+
+function mockGit(handler: (args: string[]) => string | (Error & { stderr?: string })): void {
+  vi.mocked(execFile).mockImplementation(((_file: string, args: string[], _options: unknown, callback: ExecCallback) => {
+    const result = handler(args);
+    if (result instanceof Error) {
+      callback(result, '', result.stderr ?? '');
+    } else {
+      callback(null, result, '');
+    }
+  }) as unknown as typeof execFile);
+}
+
+function gitCommands(): string[] {
+  return vi.mocked(execFile).mock.calls.map((call) => (call[1] as string[]).slice(0, 2).join(' '));
+}
+
+describe('GitClient', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('checkout', () => {
+    it('should shallow-fetch the ref and return the commit', async () => {
+      mockGit((args) => (args[0] === 'rev-parse' ? `${SHA}\n` : ''));
+
+      const commit = await new GitClient().checkout({ remote: 'https://git.test/repo.git', ref: 'v1.0.0' }, '/tmp/x');
+
+      expect(commit).toBe(SHA);
+      expect(gitCommands()).toEqual(['init --quiet', 'fetch --quiet', 'checkout --quiet', 'rev-parse HEAD']);
+      expect(vi.mocked(execFile).mock.calls[1]?.[1]).toEqual([
+        'fetch', '--quiet', '--depth', '1', '--', 'https://git.test/repo.git', 'v1.0.0',
+      ]);
+    });
+
+    it('should fall back to the ref history when a commit cannot be fetched directly', async () => {
+      let fetches = 0;
+      mockGit((args) => {
+        if (args[0] === 'fetch' && fetches++ === 0) {
+          return Object.assign(new Error('fail'), { stderr: 'not our ref' });
+        }
+        return args[0] === 'rev-parse' ? SHA : '';
+      });
+
+      await new GitClient().checkout({ remote: 'ssh://git@git.test/repo.git', ref: 'main' }, '/tmp/x', SHA);
+
+      const calls = vi.mocked(execFile).mock.calls.map((call) => call[1] as string[]);
+      expect(calls[2]).toEqual(['fetch', '--quiet', '--', 'ssh://git@git.test/repo.git', 'main']);
+      expect(calls[3]).toEqual(['checkout', '--quiet', SHA, '--']);
+    });
+
+    it('should refuse a locked commit that is not a full SHA', async () => {
+      await expect(
+        new GitClient().checkout({ remote: 'file:///repo' }, '/tmp/x', '--orphan=x')
+      ).rejects.toThrow('Invalid commit');
+      await expect(new GitClient().checkout({ remote: 'file:///repo' }, '/tmp/x', 'main')).rejects.toThrow(
+        GitError
+      );
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing git binary', async () => {
+      mockGit(() => Object.assign(new Error('spawn git ENOENT'), { code: 'ENOENT' }));
+
+      await expect(new GitClient().checkout({ remote: 'file:///repo' }, '/tmp/x')).rejects.toThrow(
+        'git is not installed'
+      );
+    });
+
+    it('should only allow file remotes when offline', async () => {
+      await expect(
+        new GitClient({ offline: true }).checkout({ remote: 'https://git.test/repo.git' }, '/tmp/x')
+      ).rejects.toThrow(GitError);
+      expect(execFile).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('git sources', () => {
+  it('should parse remotes with ref and subdir', () => {
+    expect(parseGitSource('git+file:///srv/repo#develop:skills/lint')).toEqual({
+      remote: 'file:///srv/repo',
+      ref: 'develop',
+      subdir: 'skills/lint',
+    });
+    expect(parseGitSource('git+https://git.test/repo.git#v1.0.0')).toEqual({
+      remote: 'https://git.test/repo.git',
+      ref: 'v1.0.0',
+    });
+    expect(parseGitSource('git+ssh://git@git.test/repo.git')).toEqual({
+      remote: 'ssh://git@git.test/repo.git',
+    });
+  });
+
+  it('should reject non-git sources', () => {
+    expect(parseGitSource('github:acme/repo')).toBeNull();
+    expect(parseGitSource('git+nope')).toBeNull();
+  });
+
+  it('should round-trip formatted sources', () => {
+    const source = { remote: 'file:///srv/repo', subdir: 'skills/lint' };
+
+    expect(parseGitSource(formatGitSource(source, SHA))).toEqual({ ...source, ref: SHA });
+    expect(formatGitSource({ remote: 'file:///srv/repo' })).toBe('git+file:///srv/repo');
+  });
+
+  it('should name cognitives after the folder or repository', () => {
+    expect(getGitSourceName({ remote: 'https://git.test/team/skills.git' })).toBe('skills');
+    expect(getGitSourceName({ remote: 'file:///srv/repo', subdir: 'skills/lint' })).toBe('lint');
+  });
+});
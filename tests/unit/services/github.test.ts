@@ -0,0 +1,116 @@
+/**
+ * GitHubClient Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  GitHubClient,
+  GitHubError,
+  formatGitHubSource,
+  getGitHubWebUrl,
+  parseGitHubSource,
+} from '../../../src/services/github/index.js';
+
+const SHA = 'a'.repeat(40);
+
+describe('GitHubClient', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('resolveCommit', () => {
+    it('should resolve a ref against the configured API URL', async () => {
+      fetchMock.mockImplementation(async () => new Response(`${SHA}\n`));
+      const client = new GitHubClient({ apiUrl: 'http://localhost:4000/' });
+
+      const sha = await client.resolveCommit({ owner: 'acme', repo: 'skills', ref: 'v1.0.0' });
+
+      expect(sha).toBe(SHA);
+      expect(fetchMock.mock.calls[0]?.[0]).toBe('http://localhost:4000/repos/acme/skills/commits/v1.0.0');
+    });
+
+    it('should resolve the default branch when no ref is given', async () => {
+      fetchMock.mockImplementation(async () => new Response(SHA));
+
+      await new GitHubClient({ apiUrl: 'http://gh.test' }).resolveCommit({ owner: 'acme', repo: 'skills' });
+
+      expect(fetchMock.mock.calls[0]?.[0]).toBe('http://gh.test/repos/acme/skills/commits/HEAD');
+    });
+
+    it('should report unknown refs', async () => {
+      fetchMock.mockImplementation(async () => new Response('', { status: 404 }));
+
+      await expect(
+        new GitHubClient().resolveCommit({ owner: 'acme', repo: 'skills', ref: 'nope' })
+      ).rejects.toThrow("Ref 'nope' not found in acme/skills");
+    });
+
+    it('should send the token when configured', async () => {
+      fetchMock.mockImplementation(async () => new Response(SHA));
+
+      await new GitHubClient({ token: 'secret' }).resolveCommit({ owner: 'acme', repo: 'skills' });
+
+      const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+      expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer secret');
+    });
+
+    it('should refuse network access when offline', async () => {
+      await expect(
+        new GitHubClient({ offline: true }).resolveCommit({ owner: 'acme', repo: 'skills' })
+      ).rejects.toThrow(GitHubError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadArchive', () => {
+    it('should download the tarball for a commit', async () => {
+      fetchMock.mockImplementation(async () => new Response(Buffer.from('archive')));
+
+      const archive = await new GitHubClient({ apiUrl: 'http://gh.test' }).downloadArchive(
+        { owner: 'acme', repo: 'skills' },
+        SHA
+      );
+
+      expect(archive.toString()).toBe('archive');
+      expect(fetchMock.mock.calls[0]?.[0]).toBe(`http://gh.test/repos/acme/skills/tarball/${SHA}`);
+    });
+  });
+});
+
+describe('GitHub sources', () => {
+  it('should parse shorthand with path and ref', () => {
+    expect(parseGitHubSource('github:acme/skills/review/code#v2')).toEqual({
+      owner: 'acme',
+      repo: 'skills',
+      path: 'review/code',
+      ref: 'v2',
+    });
+  });
+
+  it('should parse tree URLs', () => {
+    expect(parseGitHubSource('https://github.com/acme/skills/tree/main/review')).toEqual({
+      owner: 'acme',
+      repo: 'skills',
+      path: 'review',
+      ref: 'main',
+    });
+  });
+
+  it('should reject non-GitHub sources', () => {
+    expect(parseGitHubSource('code-reviewer')).toBeNull();
+  });
+
+  it('should round-trip formatted sources', () => {
+    const source = { owner: 'acme', repo: 'skills', path: 'review' };
+
+    expect(parseGitHubSource(formatGitHubSource(source, SHA))).toEqual({ ...source, ref: SHA });
+    expect(parseGitHubSource(getGitHubWebUrl(source, SHA))).toEqual({ ...source, ref: SHA });
+  });
+});
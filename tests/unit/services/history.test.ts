@@ -0,0 +1,89 @@
+/**
+ * HistoryManager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryManager } from '../../../src/services/history/index.js';
+import { Transaction } from '../../../src/services/transaction/index.js';
+import type { ManifestCognitive } from '../../../src/services/manifest/types.js';
+
+describe('HistoryManager', () => {
+  let synapSyncDir: string;
+  let skillDir: string;
+  let baseDir: string;
+
+  const cognitive = (version: string): ManifestCognitive => ({
+    name: 'rev',
+    type: 'skill',
+    category: 'general',
+    version,
+    installedAt: '2026-01-01T00:00:00.000Z',
+    source: 'registry',
+  });
+
+  const install = (version: string): void => {
+    fs.mkdirSync(skillDir, { recursive: true });
+    fs.mkdirSync(baseDir, { recursive: true });
+    fs.writeFileSync(path.join(skillDir, 'SKILL.md'), `# Rev ${version}`);
+    fs.writeFileSync(path.join(baseDir, 'SKILL.md'), `# Rev ${version} base`);
+  };
+
+  beforeEach(() => {
+    synapSyncDir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-history-'));
+    skillDir = path.join(synapSyncDir, 'skills', 'general', 'rev');
+    baseDir = path.join(synapSyncDir, '.base', 'skills', 'general', 'rev');
+  });
+
+  afterEach(() => {
+    fs.rmSync(synapSyncDir, { recursive: true, force: true });
+  });
+
+  it('should keep replaced versions newest first, up to the limit', async () => {
+    const history = new HistoryManager(synapSyncDir);
+
+    for (const version of ['1.0.0', '1.1.0', '1.2.0']) {
+      install(version);
+      history.save(cognitive(version), undefined, 2);
+      // savedAt orders the versions
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const versions = history.list(cognitive('1.3.0')).map((s) => s.version);
+    expect(versions).toEqual(['1.2.0', '1.1.0']);
+    expect(history.find(cognitive('1.3.0'))?.version).toBe('1.2.0');
+    expect(history.find(cognitive('1.3.0'), '1.1.0')?.cognitive.version).toBe('1.1.0');
+    expect(history.listAll()).toHaveLength(2);
+  });
+
+  it('should keep nothing with a limit of 0', () => {
+    const history = new HistoryManager(synapSyncDir);
+    install('1.0.0');
+
+    history.save(cognitive('1.0.0'), undefined, 0);
+
+    expect(history.list(cognitive('1.0.0'))).toEqual([]);
+  });
+
+  it('should restore files and merge base, and undo it with the transaction', () => {
+    install('1.0.0');
+    new HistoryManager(synapSyncDir).save(cognitive('1.0.0'), undefined, 3);
+    install('1.1.0');
+
+    const transaction = Transaction.begin(synapSyncDir, 'rollback');
+    const history = new HistoryManager(synapSyncDir, transaction);
+    const snapshot = history.find(cognitive('1.1.0'));
+    history.restore(snapshot!);
+
+    expect(fs.readFileSync(path.join(skillDir, 'SKILL.md'), 'utf-8')).toBe('# Rev 1.0.0');
+    expect(fs.readFileSync(path.join(baseDir, 'SKILL.md'), 'utf-8')).toBe('# Rev 1.0.0 base');
+    expect(history.list(cognitive('1.1.0'))).toEqual([]);
+
+    transaction.rollback();
+
+    expect(fs.readFileSync(path.join(skillDir, 'SKILL.md'), 'utf-8')).toBe('# Rev 1.1.0');
+    expect(history.list(cognitive('1.1.0')).map((s) => s.version)).toEqual(['1.0.0']);
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Installer Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import {
+  fetchFromRegistry,
+  getCognitiveDir,
+  verifyPayload,
+  writeCognitive,
+  parseFileList,
+  readTar,
+  readArchive,
+  extractEntries,
+  fetchFromUrl,
+  getArchiveName,
+  isArchiveUrl,
+  IntegrityError,
+  ArchiveError,
+  MAX_EXTRACTED_SIZE,
+  MAX_REPOSITORY_SIZE,
+} from '../../../src/services/installer/index.js';
+import type { CognitivePayload } from '../../../src/services/installer/index.js';
+import { computeContentHash, computeIntegrity } from '../../../src/services/lockfile/index.js';
+import type { RegistryClient } from '../../../src/services/registry/client.js';
+import type { CognitiveManifest } from '../../../src/types/index.js';
+
+// Mock fs module
+vi.mock('fs');
+
+const manifest: CognitiveManifest = {
+  name: 'code-reviewer',
+  type: 'skill',
+  version: '1.0.0',
+  description: 'Reviews code',
+  author: 'synapsync',
+  license: 'MIT',
+  category: 'general',
+  tags: [],
+  providers: [],
+  file: 'SKILL.md',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+/**
+ * Build a ustar archive from path/content pairs
+ */
+function createTar(entries: Array<[string, string, number?]>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content, mode = 0o644] of entries) {
+    const header = Buffer.alloc(512);
+    const isDir = name.endsWith('/');
+    header.write(name, 0, 100);
+    header.write(`${mode.toString(8).padStart(7, '0')}\0`, 100);
+    header.write(`${Buffer.byteLength(content).toString(8).padStart(11, '0')}\0`, 124);
+    header.write(isDir ? '5' : '0', 156);
+    header.write('ustar\0', 257);
+    blocks.push(header);
+
+    const data = Buffer.from(content);
+    blocks.push(Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Build a zip archive from path/content/mode entries (deflated, no CRCs)
+ */
+function createZip(entries: Array<[string, string, number?]>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content, mode = 0o100644] of entries) {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const nameBuffer = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(3 << 8, 4);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE((mode << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += 30 + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const payload: CognitivePayload = {
+  manifest,
+  content: '# Code Reviewer',
+  assets: new Map([['assets/TEMPLATE.md', { content: Buffer.from('# Template') }]]),
+};
+
+describe('Installer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getCognitiveDir', () => {
+    it('should place cognitives by type and category', () => {
+      expect(getCognitiveDir('/p/.synapsync', 'skill', 'general', 'code-reviewer')).toBe(
+        path.join('/p/.synapsync', 'skills', 'general', 'code-reviewer')
+      );
+    });
+
+    it('should refuse categories that leave .synapsync', () => {
+      for (const category of ['../../..', 'a/b', '..', '', '@x']) {
+        expect(() => getCognitiveDir('/p/.synapsync', 'skill', category, 'rev')).toThrow(
+          `Invalid category: ${category}`
+        );
+      }
+    });
+  });
+
+  describe('writeCognitive', () => {
+    it('should write the main file and assets', () => {
+      vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+      writeCognitive('/target', payload);
+
+      const written = vi.mocked(fs.writeFileSync).mock.calls.map((call) => call[0]);
+      expect(written).toEqual([
+        path.join('/target', 'SKILL.md'),
+        path.join('/target', 'assets/TEMPLATE.md'),
+      ]);
+    });
+
+    it('should write binary assets byte for byte and keep executable bits', () => {
+      vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+      vi.mocked(fs.chmodSync).mockImplementation(() => {});
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+
+      writeCognitive('/target', {
+        manifest,
+        content: '# Code Reviewer',
+        assets: new Map([
+          ['assets/images/logo.png', { content: png }],
+          ['scripts/check.sh', { content: Buffer.from('#!/bin/sh\n'), executable: true }],
+        ]),
+      });
+
+      const logo = vi.mocked(fs.writeFileSync).mock.calls.find((call) => String(call[0]).endsWith('logo.png'));
+      expect(logo?.[1]).toBe(png);
+      expect(logo?.[2]).toBeUndefined();
+      expect(fs.chmodSync).toHaveBeenCalledTimes(1);
+      expect(fs.chmodSync).toHaveBeenCalledWith(path.join('/target', 'scripts/check.sh'), 0o755);
+    });
+
+    it('should refuse a main file outside the cognitive folder', () => {
+      expect(() => writeCognitive('/target', { ...payload, manifest: { ...manifest, file: '../../../.bashrc' } })).toThrow(
+        'Invalid main file in manifest'
+      );
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyPayload', () => {
+    it('should accept matching hash and integrity', () => {
+      const files = new Map([
+        ['SKILL.md', payload.content],
+        ['assets/TEMPLATE.md', '# Template'],
+      ]);
+
+      expect(() =>
+        verifyPayload('code-reviewer', payload, {
+          hash: computeContentHash(payload.content),
+          integrity: computeIntegrity(files),
+        })
+      ).not.toThrow();
+    });
+
+    it('should pass when nothing was recorded', () => {
+      expect(() => verifyPayload('code-reviewer', payload, {})).not.toThrow();
+    });
+
+    it('should reject a different hash', () => {
+      expect(() => verifyPayload('code-reviewer', payload, { hash: '0000000000000000' })).toThrow(
+        IntegrityError
+      );
+    });
+
+    it('should reject a different integrity', () => {
+      expect(() => verifyPayload('code-reviewer', payload, { integrity: 'sha256-other' })).toThrow(
+        /integrity mismatch/
+      );
+    });
+  });
+
+  describe('fetchFromRegistry', () => {
+    it('should use the resolved version and record the registry', async () => {
+      const client = {
+        download: vi.fn().mockResolvedValue({
+          manifest,
+          content: '# Code Reviewer',
+          path: 'cognitives/skills/general/code-reviewer/versions/1.2.0',
+          version: '1.2.0',
+          registry: 'internal',
+        }),
+        findByName: vi.fn().mockResolvedValue(null),
+        getRegistryUrl: vi.fn().mockReturnValue('https://registry.test'),
+        getBaseUrl: vi.fn(),
+      } as unknown as RegistryClient;
+
+      const result = await fetchFromRegistry(client, 'code-reviewer', { version: '^1.0.0' });
+
+      expect(result.manifest.version).toBe('1.2.0');
+      expect(result.registry).toBe('internal');
+      expect(result.resolved).toBe(
+        'https://registry.test/cognitives/skills/general/code-reviewer/versions/1.2.0'
+      );
+    });
+
+    it('should reject a main file that leaves the cognitive folder', async () => {
+      const client = {
+        download: vi.fn().mockResolvedValue({
+          manifest: { ...manifest, file: '../../../.bashrc' },
+          content: 'echo pwned',
+          path: 'cognitives/skills/general/code-reviewer',
+          version: '1.0.0',
+        }),
+      } as unknown as RegistryClient;
+
+      await expect(fetchFromRegistry(client, 'code-reviewer')).rejects.toThrow('Invalid main file in manifest');
+    });
+
+    it('should download every file the manifest lists as raw bytes', async () => {
+      const pdf = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xc3]);
+      const downloadAsset = vi.fn((_entry: unknown, assetPath: string) =>
+        Promise.resolve(assetPath.endsWith('.pdf') ? pdf : Buffer.from('#!/bin/sh'))
+      );
+      const client = {
+        download: vi.fn().mockResolvedValue({
+          manifest: { ...manifest, files: ['docs/guide.pdf', { path: 'scripts/run.sh', executable: true }] },
+          content: '# Code Reviewer',
+          path: 'cognitives/skills/general/code-reviewer',
+          version: '1.0.0',
+        }),
+        findByName: vi.fn().mockResolvedValue({ name: 'code-reviewer', path: 'x', version: '1.0.0' }),
+        downloadAsset,
+        getRegistryUrl: vi.fn().mockReturnValue('https://registry.test'),
+        getBaseUrl: vi.fn(),
+      } as unknown as RegistryClient;
+
+      const result = await fetchFromRegistry(client, 'code-reviewer');
+
+      expect(downloadAsset.mock.calls.map((call) => call[1])).toEqual(['docs/guide.pdf', 'scripts/run.sh']);
+      expect(result.assets.get('docs/guide.pdf')?.content).toBe(pdf);
+      expect(result.assets.get('scripts/run.sh')?.executable).toBe(true);
+      expect(result.manifest.files).toEqual([
+        { path: 'docs/guide.pdf' },
+        { path: 'scripts/run.sh', executable: true },
+      ]);
+    });
+  });
+
+  describe('parseFileList', () => {
+    it('should normalize paths and drop the main file', () => {
+      expect(parseFileList(['./assets/a.png', 'SKILL.md', { path: 'bin\\run.sh', executable: true }], 'SKILL.md')).toEqual([
+        { path: 'assets/a.png' },
+        { path: 'bin/run.sh', executable: true },
+      ]);
+      expect(parseFileList(undefined)).toBeNull();
+    });
+
+    it('should reject paths outside the cognitive folder', () => {
+      expect(() => parseFileList(['../secrets.txt'])).toThrow('Invalid file path in manifest: ../secrets.txt');
+      expect(() => parseFileList(['/etc/passwd'])).toThrow('Invalid file path');
+    });
+  });
+
+  describe('archives', () => {
+    it('should read gzipped tar entries', () => {
+      const archive = zlib.gzipSync(createTar([['repo-sha/', ''], ['repo-sha/SKILL.md', '# Skill']]));
+
+      const entries = readTar(archive);
+
+      expect(entries.map((e) => [e.path, e.type])).toEqual([
+        ['repo-sha/', 'directory'],
+        ['repo-sha/SKILL.md', 'file'],
+      ]);
+      expect(entries[1]?.content.toString()).toBe('# Skill');
+    });
+
+    it('should extract only the requested folder', () => {
+      vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+      const entries = readTar(
+        createTar([
+          ['repo-sha/README.md', 'readme'],
+          ['repo-sha/skills/review/SKILL.md', '# Review'],
+          ['repo-sha/skills/review/assets/a.md', 'A'],
+        ])
+      );
+
+      const written = extractEntries(entries, '/tmp/out', { strip: 1, subdir: 'skills/review' });
+
+      expect(written).toBe(2);
+      expect(vi.mocked(fs.writeFileSync).mock.calls.map((call) => call[0])).toEqual([
+        path.join(path.resolve('/tmp/out'), 'SKILL.md'),
+        path.join(path.resolve('/tmp/out'), 'assets', 'a.md'),
+      ]);
+    });
+
+    it('should keep the executable bit of extracted scripts', () => {
+      vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+      vi.mocked(fs.chmodSync).mockImplementation(() => {});
+      const entries = readTar(createTar([['SKILL.md', '# Skill'], ['scripts/run.sh', 'echo hi', 0o755]]));
+
+      extractEntries(entries, '/tmp/out');
+
+      expect(fs.chmodSync).toHaveBeenCalledTimes(1);
+      expect(fs.chmodSync).toHaveBeenCalledWith(path.join(path.resolve('/tmp/out'), 'scripts', 'run.sh'), 0o755);
+    });
+
+    it('should refuse paths escaping the destination', () => {
+      const entries = readTar(createTar([['repo-sha/../../evil.sh', 'boom']]));
+
+      expect(() => extractEntries(entries, '/tmp/out', { strip: 1 })).toThrow(ArchiveError);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should read zip entries with their unix modes', () => {
+      const entries = readArchive(
+        createZip([
+          ['my-skill/SKILL.md', '# Skill'],
+          ['my-skill/run.sh', 'echo hi', 0o100755],
+          ['my-skill/link', '../../etc/passwd', 0o120777],
+        ])
+      );
+
+      expect(entries.map((e) => [e.path, e.type, e.mode])).toEqual([
+        ['my-skill/SKILL.md', 'file', 0o644],
+        ['my-skill/run.sh', 'file', 0o755],
+        ['my-skill/link', 'symlink', 0o777],
+      ]);
+      expect(entries[0]?.content.toString()).toBe('# Skill');
+    });
+
+    it('should skip symlinks when extracting', () => {
+      vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+      const entries = readArchive(createZip([['SKILL.md', '# Skill'], ['link', '/etc/passwd', 0o120777]]));
+
+      expect(extractEntries(entries, '/tmp/out')).toBe(1);
+      expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should detect tar and gzipped tar archives', () => {
+      const tar = createTar([['SKILL.md', '# Skill']]);
+
+      expect(readArchive(tar)).toHaveLength(1);
+      expect(readArchive(zlib.gzipSync(tar))).toHaveLength(1);
+    });
+
+    it('should stop decompressing archives past the size limit', () => {
+      const bomb = zlib.gzipSync(Buffer.alloc(MAX_EXTRACTED_SIZE + 1));
+      const zip = createZip([['SKILL.md', '# Skill']]);
+      zip.writeUInt32LE(MAX_EXTRACTED_SIZE + 1, zip.length - 22 - 46 - 'SKILL.md'.length + 24);
+
+      expect(() => readArchive(bomb)).toThrow('once extracted');
+      expect(() => readArchive(zip)).toThrow('once extracted');
+    });
+
+    it('should only count the selected folder of a repository archive', () => {
+      const archive = zlib.gzipSync(
+        createTar([
+          ['repo-sha/big.bin', '\0'.repeat(MAX_EXTRACTED_SIZE + 1)],
+          ['repo-sha/skills/review/SKILL.md', '# Review'],
+        ])
+      );
+
+      const select = { strip: 1, subdir: 'skills/review' };
+      const entries = readTar(archive, { select, maxArchiveSize: MAX_REPOSITORY_SIZE });
+
+      expect(entries.map((e) => e.path)).toEqual(['repo-sha/skills/review/SKILL.md']);
+      expect(() => readTar(archive, { maxArchiveSize: MAX_REPOSITORY_SIZE })).toThrow('once extracted');
+    });
+
+    it('should reject unknown archive formats', () => {
+      expect(() => readArchive(Buffer.from('<html>Not Found</html>'.padEnd(600)))).toThrow(ArchiveError);
+    });
+  });
+
+  describe('archive URLs', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should recognize archive URLs and name them after the file', () => {
+      expect(isArchiveUrl('https://ci.example.com/artifacts/my-skill.tgz')).toBe(true);
+      expect(isArchiveUrl('https://ci.example.com/my-skill.tar.gz?token=1')).toBe(true);
+      expect(isArchiveUrl('https://ci.example.com/my-skill.zip')).toBe(true);
+      expect(isArchiveUrl('https://ci.example.com/my-skill')).toBe(false);
+      expect(isArchiveUrl('ftp://ci.example.com/my-skill.zip')).toBe(false);
+      expect(getArchiveName('https://ci.example.com/artifacts/my-skill.tar.gz')).toBe('my-skill');
+    });
+
+    it('should reject an archive not matching the expected integrity before extracting', async () => {
+      const archive = createZip([['SKILL.md', '# Skill']]);
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(archive)));
+
+      await expect(
+        fetchFromUrl('https://ci.example.com/my-skill.zip', { integrity: 'sha256-AAAA' })
+      ).rejects.toThrow(IntegrityError);
+      expect(fs.mkdtempSync).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed integrity values without downloading', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(
+        fetchFromUrl('https://ci.example.com/my-skill.zip', { integrity: 'md5:abc' })
+      ).rejects.toThrow('Invalid integrity');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * LockfileManager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  LockfileManager,
+  FrozenLockfileError,
+  computeIntegrity,
+} from '../../../src/services/lockfile/index.js';
+import type { LockedCognitive } from '../../../src/services/lockfile/index.js';
+import type { ManifestCognitive } from '../../../src/services/manifest/types.js';
+
+// Mock fs module
+vi.mock('fs');
+
+describe('LockfileManager', () => {
+  const projectRoot = '/test/project';
+  const lockPath = path.join(projectRoot, 'synapsync.lock');
+
+  const locked: LockedCognitive = {
+    name: 'code-reviewer',
+    type: 'skill',
+    category: 'general',
+    version: '1.2.0',
+    source: 'registry',
+    resolved: 'https://registry.test/cognitives/skills/general/code-reviewer',
+    registry: 'synapsync',
+    integrity: 'sha256-abc',
+  };
+
+  const installed: ManifestCognitive = {
+    name: 'code-reviewer',
+    type: 'skill',
+    category: 'general',
+    version: '1.2.0',
+    installedAt: '2026-01-28T00:00:00.000Z',
+    source: 'registry',
+  };
+
+  function mockLockfile(cognitives: Record<string, LockedCognitive>): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ lockfileVersion: 1, cognitives }));
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('should write entries sorted by name without timestamps', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+      const lockfile = new LockfileManager(projectRoot);
+      lockfile.setCognitive({ ...locked, name: 'zeta' });
+      lockfile.setCognitive({ ...locked, name: 'alpha' });
+      lockfile.save();
+
+      const [writtenPath, content] = vi.mocked(fs.writeFileSync).mock.calls[0] ?? [];
+      const parsed = JSON.parse(String(content)) as { cognitives: Record<string, unknown> };
+
+      expect(writtenPath).toBe(lockPath);
+      expect(Object.keys(parsed.cognitives)).toEqual(['alpha', 'zeta']);
+      expect(String(content)).not.toContain('lastUpdated');
+    });
+  });
+
+  describe('compare', () => {
+    it('should report no mismatches when in sync', () => {
+      mockLockfile({ [locked.name]: locked });
+
+      expect(new LockfileManager(projectRoot).compare([installed])).toEqual([]);
+    });
+
+    it('should detect missing and mismatched entries', () => {
+      mockLockfile({ [locked.name]: { ...locked, version: '1.1.0' }, orphan: { ...locked, name: 'orphan' } });
+
+      const mismatches = new LockfileManager(projectRoot).compare([
+        installed,
+        { ...installed, name: 'unlocked' },
+      ]);
+
+      expect(mismatches.map((m) => [m.name, m.reason])).toEqual([
+        ['code-reviewer', 'version-mismatch'],
+        ['unlocked', 'missing-in-lock'],
+        ['orphan', 'missing-in-manifest'],
+      ]);
+    });
+
+    it('should skip local cognitives, which install cannot fetch', () => {
+      mockLockfile({ added: { ...locked, name: 'added', source: 'local' } });
+
+      const mismatches = new LockfileManager(projectRoot).compare([
+        { ...installed, name: 'written-in-place', source: 'local' },
+      ]);
+
+      expect(mismatches).toEqual([]);
+    });
+
+    it('should throw FrozenLockfileError when out of sync', () => {
+      mockLockfile({});
+
+      expect(() => new LockfileManager(projectRoot).assertInSync([installed])).toThrow(FrozenLockfileError);
+    });
+  });
+
+  describe('assertUnchanged', () => {
+    it('should accept an identical entry', () => {
+      mockLockfile({ [locked.name]: locked });
+
+      expect(() => new LockfileManager(projectRoot).assertUnchanged({ ...locked })).not.toThrow();
+    });
+
+    it('should reject a different version or integrity', () => {
+      mockLockfile({ [locked.name]: locked });
+      const lockfile = new LockfileManager(projectRoot);
+
+      expect(() => lockfile.assertUnchanged({ ...locked, version: '1.3.0' })).toThrow('locked at v1.2.0');
+      expect(() => lockfile.assertUnchanged({ ...locked, integrity: 'sha256-other' })).toThrow('integrity');
+    });
+  });
+});
+
+describe('computeIntegrity', () => {
+  it('should not depend on file order', () => {
+    const a = computeIntegrity(new Map([['SKILL.md', '# Skill'], ['assets/a.md', 'A']]));
+    const b = computeIntegrity(new Map([['assets/a.md', 'A'], ['SKILL.md', '# Skill']]));
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^sha256-[A-Za-z0-9+/]+=*$/);
+  });
+
+  it('should change when content or paths change', () => {
+    const base = computeIntegrity(new Map([['SKILL.md', '# Skill']]));
+
+    expect(computeIntegrity(new Map([['SKILL.md', '# Skill!']]))).not.toBe(base);
+    expect(computeIntegrity(new Map([['OTHER.md', '# Skill']]))).not.toBe(base);
+  });
+
+  it('should treat strings and buffers alike', () => {
+    expect(computeIntegrity(new Map([['SKILL.md', '# Skill']]))).toBe(
+      computeIntegrity(new Map([['SKILL.md', Buffer.from('# Skill')]]))
+    );
+  });
+});
@@ -15,7 +15,8 @@ import type { ProjectConfig } from '../../../src/services/config/types.js';
 
 // Mock fs and RegistryClient
 vi.mock('fs');
-vi.mock('../../../src/services/registry/client.js', () => ({
+vi.mock('../../../src/services/registry/client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/services/registry/client.js')>()),
   RegistryClient: vi.fn().mockImplementation(() => ({
     findByName: vi.fn(),
     search: vi.fn(),
@@ -54,7 +55,7 @@ describe('UpdateChecker', () => {
         ping: vi.fn(),
       };
 
-      const checker = new UpdateChecker(mockRegistry as any);
+      const checker = new UpdateChecker(mockRegistry as any, { major: true });
       const result = await checker.checkAll([mockCognitive]);
 
       expect(result.checked).toBe(1);
@@ -123,7 +124,7 @@ describe('UpdateChecker', () => {
         ping: vi.fn(),
       };
 
-      const checker = new UpdateChecker(mockRegistry as any);
+      const checker = new UpdateChecker(mockRegistry as any, { major: true });
       const result = await checker.checkOne(mockCognitive);
 
       expect(result.hasUpdate).toBe(true);
@@ -145,6 +146,57 @@ describe('UpdateChecker', () => {
     });
   });
 
+  describe('update policies', () => {
+    const entry = { name: 'test-skill', version: '2.0.0' };
+    const versions = ['2.0.0', '1.2.0', '1.1.1', '1.0.1'].map((version) => ({ version }));
+
+    const createRegistry = () => ({
+      findByName: vi.fn().mockResolvedValue(entry),
+      getVersions: vi.fn().mockResolvedValue(versions),
+      ping: vi.fn(),
+    });
+
+    it('should stop at the newest minor version without --major', async () => {
+      const checker = new UpdateChecker(createRegistry() as any);
+      const result = await checker.checkOne(mockCognitive);
+
+      expect(result.hasUpdate).toBe(true);
+      expect(result.latestVersion).toBe('1.2.0');
+      expect(result.availableVersion).toBe('2.0.0');
+      expect(result.skipReason).toBe('major update, use --major');
+    });
+
+    it('should only allow patch updates with the patch policy', async () => {
+      const checker = new UpdateChecker(createRegistry() as any, {
+        policies: { 'test-skill': 'patch' },
+        major: true,
+      });
+      const result = await checker.checkOne(mockCognitive);
+
+      expect(result.latestVersion).toBe('1.0.1');
+      expect(result.skipReason).toBe('policy allows patch updates only');
+    });
+
+    it('should skip pinned cognitives and held ones in checkAll', async () => {
+      const registry = createRegistry();
+      const held = { ...mockCognitive, name: 'held-skill' };
+      const checker = new UpdateChecker(registry as any, {
+        policies: { 'test-skill': 'pinned', 'held-skill': 'hold' },
+        major: true,
+      });
+
+      const result = await checker.checkAll([mockCognitive, held]);
+
+      expect(result.updatesAvailable).toHaveLength(0);
+      expect(result.skipped.map((u) => [u.name, u.skipReason])).toEqual([
+        ['test-skill', 'pinned in config'],
+        ['held-skill', 'on hold, update it by name'],
+      ]);
+      // Held cognitives still update when named
+      expect((await checker.checkOne(held)).hasUpdate).toBe(true);
+    });
+  });
+
   describe('version comparison', () => {
     it('should compare versions correctly', async () => {
       const mockRegistry = {
@@ -152,7 +204,7 @@ describe('UpdateChecker', () => {
         ping: vi.fn(),
       };
 
-      const checker = new UpdateChecker(mockRegistry as any);
+      const checker = new UpdateChecker(mockRegistry as any, { major: true });
 
       // Test using checkOne with different versions
       mockRegistry.findByName.mockResolvedValue({
@@ -256,6 +308,31 @@ describe('DoctorService', () => {
       expect(check?.status).toBe('pass');
     });
 
+    it('should report registry credentials without exposing secrets', async () => {
+      vi.stubEnv('SYNAPSYNC_CREDENTIALS_FILE', '/home/test/.synapsync/credentials.json');
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockImplementation(((p: string) =>
+        String(p).endsWith('credentials.json')
+          ? JSON.stringify({
+              registries: {
+                'https://internal.test': { type: 'bearer', token: 'super-secret-token' },
+              },
+            })
+          : JSON.stringify({ version: '1.0.0', cognitives: {} })) as typeof fs.readFileSync);
+
+      const config = {
+        ...mockConfig,
+        registries: [{ name: 'internal', url: 'https://internal.test' }],
+      } as ProjectConfig;
+      const doctor = new DoctorService(projectRoot, synapSyncDir, config);
+      const result = await doctor.diagnose({ checks: ['registry-auth'] });
+
+      const check = result.checks.find((c) => c.id === 'registry-auth');
+      expect(check?.details).toContain('internal: bearer token ********');
+      expect(JSON.stringify(result)).not.toContain('super-secret-token');
+      vi.unstubAllEnvs();
+    });
+
     it('should compute healthy status correctly', async () => {
       vi.mocked(fs.existsSync).mockReturnValue(true);
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ version: '1.0.0', cognitives: {} }));
@@ -0,0 +1,121 @@
+/**
+ * Three-Way Merge and Diff Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createUnifiedDiff,
+  mergeThreeWay,
+  hasConflictMarkers,
+} from '../../../src/services/merge/index.js';
+
+const base = [
+  '# Code Review',
+  '',
+  'Check naming.',
+  'Check tests.',
+  '',
+  '## Output',
+  'A list.',
+  '',
+].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('should keep local edits and take upstream changes to other lines', () => {
+    const ours = base.replace('Check naming.', 'Check naming and comments.');
+    const theirs = base.replace('A list.', 'A numbered list.') + 'Be brief.\n';
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(
+      [
+        '# Code Review',
+        '',
+        'Check naming and comments.',
+        'Check tests.',
+        '',
+        '## Output',
+        'A numbered list.',
+        'Be brief.',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should take a change made identically on both sides once', () => {
+    const changed = base.replace('Check tests.', 'Check tests and coverage.');
+
+    expect(mergeThreeWay(base, changed, changed)).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('should write conflict markers when both sides change the same lines', () => {
+    const ours = base.replace('Check tests.', 'Check unit tests.');
+    const theirs = base.replace('Check tests.', 'Check e2e tests.');
+
+    const result = mergeThreeWay(base, ours, theirs, { ours: 'local', theirs: 'registry v1.1.0' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain(
+      [
+        '<<<<<<< local',
+        'Check unit tests.',
+        '=======',
+        'Check e2e tests.',
+        '>>>>>>> registry v1.1.0',
+      ].join('\n')
+    );
+    expect(hasConflictMarkers(result.content)).toBe(true);
+    expect(hasConflictMarkers(base)).toBe(false);
+  });
+
+  it('should conflict on the whole file without a common base', () => {
+    const result = mergeThreeWay('', 'local\n', 'upstream\n');
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      ['<<<<<<< local', 'local', '=======', 'upstream', '>>>>>>> upstream', ''].join('\n')
+    );
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should write changes with three lines of context in one hunk per region', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'line 2, edited';
+    changed.splice(15, 1);
+
+    const diff = createUnifiedDiff(lines.join('\n') + '\n', changed.join('\n') + '\n', {
+      from: 'installed',
+      to: 'v1.1.0',
+    });
+
+    expect(diff.split('\n')).toEqual([
+      '--- installed',
+      '+++ v1.1.0',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line 2, edited',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -13,7 +13,6 @@',
+      ' line 13',
+      ' line 14',
+      ' line 15',
+      '-line 16',
+      ' line 17',
+      ' line 18',
+      ' line 19',
+    ]);
+  });
+
+  it('should be empty for equal texts', () => {
+    expect(createUnifiedDiff(base, base)).toBe('');
+    expect(createUnifiedDiff('', 'new\n')).toBe(
+      ['--- a', '+++ b', '@@ -0,0 +1 @@', '+new'].join('\n')
+    );
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * RegistryClient Tests
+ *
+ * Tests for the on-disk registry cache, revalidation, offline mode
+ * multiple/scoped registries, authentication and versions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import {
+  RegistryClient,
+  RegistryOfflineError,
+  RegistryAuthError,
+  VersionNotFoundError,
+  parseRegistrySpecifier,
+} from '../../../src/services/registry/client.js';
+import { CredentialStore, redactHeaders } from '../../../src/services/registry/credentials.js';
+import type { RegistryIndex, RegistryCognitiveEntry } from '../../../src/types/index.js';
+
+// Mock fs module with an in-memory file store
+vi.mock('fs');
+
+const files = new Map<string, Buffer>();
+
+function mockFileSystem(): void {
+  vi.mocked(fs.existsSync).mockImplementation((p) => files.has(String(p)));
+  vi.mocked(fs.readFileSync).mockImplementation(((p: string, encoding?: string) => {
+    const content = files.get(String(p));
+    if (content === undefined) throw new Error(`ENOENT: ${String(p)}`);
+    return encoding !== undefined ? content.toString('utf-8') : content;
+  }) as typeof fs.readFileSync);
+  vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+    files.set(String(p), Buffer.isBuffer(data) ? data : Buffer.from(String(data)));
+  });
+  vi.mocked(fs.mkdirSync).mockReturnValue(undefined);
+}
+
+const mockIndex: RegistryIndex = {
+  version: '1.0.0',
+  lastUpdated: '2026-01-28T00:00:00.000Z',
+  totalCognitives: 1,
+  cognitives: [
+    {
+      name: 'code-reviewer',
+      type: 'skill',
+      version: '1.0.0',
+      description: 'Review code',
+      author: 'synapsync',
+      category: 'general',
+      tags: ['review'],
+      providers: ['claude'],
+      downloads: 0,
+      path: 'cognitives/skills/general/code-reviewer',
+    },
+  ],
+};
+
+function indexOf(...entries: Array<Partial<RegistryCognitiveEntry> & { name: string }>): RegistryIndex {
+  const base = mockIndex.cognitives[0] as RegistryCognitiveEntry;
+  return {
+    ...mockIndex,
+    totalCognitives: entries.length,
+    cognitives: entries.map((e) => ({ ...base, path: `cognitives/skills/general/${e.name}`, ...e })),
+  };
+}
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers });
+}
+
+describe('RegistryClient', () => {
+  const baseUrl = 'https://registry.test';
+  const cacheDir = '/test/.synapsync/cache/registry';
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    mockFileSystem();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('disk cache', () => {
+    it('should persist the index and revalidate it with ETag', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(mockIndex, { etag: '"v1"' }));
+
+      const first = new RegistryClient({ baseUrl, cacheDir, offline: false });
+      await first.getIndex();
+
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const second = new RegistryClient({ baseUrl, cacheDir, offline: false });
+      const index = await second.getIndex();
+
+      const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<string, string>;
+      expect(headers['If-None-Match']).toBe('"v1"');
+      expect(index.cognitives[0]?.name).toBe('code-reviewer');
+    });
+
+    it('should send If-Modified-Since when only Last-Modified is known', async () => {
+      const lastModified = 'Wed, 28 Jan 2026 00:00:00 GMT';
+      fetchMock.mockResolvedValueOnce(jsonResponse(mockIndex, { 'last-modified': lastModified }));
+      await new RegistryClient({ baseUrl, cacheDir, offline: false }).getIndex();
+
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+      await new RegistryClient({ baseUrl, cacheDir, offline: false }).getIndex();
+
+      const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<string, string>;
+      expect(headers['If-Modified-Since']).toBe(lastModified);
+    });
+
+    it('should fall back to the cached copy on network errors', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(mockIndex));
+      await new RegistryClient({ baseUrl, cacheDir, offline: false }).getIndex();
+
+      fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+      const index = await new RegistryClient({ baseUrl, cacheDir, offline: false }).getIndex();
+
+      expect(index.totalCognitives).toBe(1);
+    });
+  });
+
+  describe('offline mode', () => {
+    it('should serve cached data without touching the network', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(mockIndex));
+      await new RegistryClient({ baseUrl, cacheDir, offline: false }).getIndex();
+      fetchMock.mockClear();
+
+      const client = new RegistryClient({ baseUrl, cacheDir, offline: true });
+      const result = await client.search('review');
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(result.total).toBe(1);
+      expect(client.hasCachedIndex()).toBe(true);
+    });
+
+    it('should throw RegistryOfflineError when nothing is cached', async () => {
+      const client = new RegistryClient({ baseUrl, cacheDir, offline: true });
+
+      await expect(client.getIndex()).rejects.toBeInstanceOf(RegistryOfflineError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should report the registry as unreachable', async () => {
+      const client = new RegistryClient({ baseUrl, cacheDir, offline: true });
+
+      expect(await client.ping()).toBe(false);
+    });
+  });
+
+  describe('file registries', () => {
+    it('should read a file: registry from disk, offline too', async () => {
+      vi.mocked(fs.statSync).mockImplementation(((p: string) => ({
+        isFile: () => files.has(String(p)),
+      })) as unknown as typeof fs.statSync);
+      files.set('/srv/registry/registry.json', Buffer.from(JSON.stringify(mockIndex)));
+      files.set('/srv/registry/cognitives/skills/general/code-reviewer/assets/run.md', Buffer.from('# Run'));
+
+      const registries = [{ name: 'local', url: 'file:///srv/registry' }];
+      const client = new RegistryClient({ registries, offline: true });
+      const entry = await client.findByName('code-reviewer');
+      const asset = await client.downloadAsset(entry as RegistryCognitiveEntry, 'assets/run.md');
+
+      expect(entry?.registry).toBe('local');
+      expect(asset.toString('utf-8')).toBe('# Run');
+      await expect(client.downloadAsset(entry as RegistryCognitiveEntry, 'assets/missing.md')).rejects.toThrow(
+        '404'
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple registries', () => {
+    const registries = [
+      { name: 'public', url: 'https://public.test' },
+      { name: 'internal', url: 'https://internal.test', priority: 10 },
+      { name: 'acme', url: 'https://acme.test', scopes: ['@acme'] },
+    ];
+
+    function serveIndexes(indexes: Record<string, RegistryIndex>): void {
+      fetchMock.mockImplementation(async (input) => {
+        const url = String(input);
+        const base = Object.keys(indexes).find((b) => url.startsWith(b));
+        if (base === undefined) return new Response('not found', { status: 404 });
+        return jsonResponse(indexes[base]);
+      });
+    }
+
+    it('should merge indexes and let the highest priority registry win', async () => {
+      serveIndexes({
+        'https://public.test': indexOf({ name: 'code-reviewer', version: '1.0.0' }, { name: 'linter' }),
+        'https://internal.test': indexOf({ name: 'code-reviewer', version: '2.0.0' }),
+        'https://acme.test': indexOf({ name: '@acme/deploy' }),
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+      const index = await client.getIndex();
+
+      const reviewer = index.cognitives.find((c) => c.name === 'code-reviewer');
+      expect(reviewer?.version).toBe('2.0.0');
+      expect(reviewer?.registry).toBe('internal');
+      expect(index.cognitives.find((c) => c.name === 'linter')?.registry).toBe('public');
+      expect(index.totalCognitives).toBe(3);
+    });
+
+    it('should route scoped names to the registry serving that scope', async () => {
+      serveIndexes({
+        'https://public.test': indexOf({ name: '@acme/deploy', version: '9.9.9' }),
+        'https://internal.test': indexOf(),
+        'https://acme.test': indexOf({ name: '@acme/deploy', version: '1.0.0' }),
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+      const entry = await client.findByName('@acme/deploy');
+
+      expect(entry?.registry).toBe('acme');
+      expect(entry?.version).toBe('1.0.0');
+      expect(fetchMock.mock.calls.every(([url]) => String(url).startsWith('https://acme.test'))).toBe(true);
+    });
+
+    it('should not let scoped registries serve unscoped names', async () => {
+      serveIndexes({
+        'https://public.test': indexOf(),
+        'https://internal.test': indexOf(),
+        'https://acme.test': indexOf({ name: 'linter' }),
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+
+      expect(await client.findByName('linter')).toBeNull();
+      expect((await client.getIndex()).cognitives).toHaveLength(0);
+    });
+
+    it('should download content from the registry an entry came from', async () => {
+      serveIndexes({
+        'https://public.test': indexOf(),
+        'https://internal.test': indexOf(),
+        'https://acme.test': indexOf({ name: '@acme/deploy' }),
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+      const entry = await client.findByName('@acme/deploy');
+      fetchMock.mockResolvedValueOnce(new Response('# Deploy'));
+      await client.downloadAsset(entry as RegistryCognitiveEntry, 'assets/run.md');
+
+      expect(String(fetchMock.mock.calls.at(-1)?.[0])).toBe(
+        'https://acme.test/cognitives/skills/general/@acme/deploy/assets/run.md'
+      );
+    });
+
+    it('should merge collections and find them in the registry they came from', async () => {
+      const pack = { name: 'react-pack', description: 'React', cognitives: ['react-hooks@^1.0.0'] };
+      serveIndexes({
+        'https://public.test': { ...indexOf(), collections: [{ ...pack, cognitives: ['old'] }] },
+        'https://internal.test': { ...indexOf(), collections: [pack] },
+        'https://acme.test': { ...indexOf(), collections: [{ ...pack, name: 'unscoped' }] },
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+      const collection = await client.findCollection('react-pack');
+
+      expect(collection?.registry).toBe('internal');
+      expect(collection?.cognitives).toEqual(['react-hooks@^1.0.0']);
+      expect(await client.findCollection('unscoped')).toBeNull();
+      expect(await client.findCollection('missing')).toBeNull();
+    });
+
+    it('should skip unreachable registries while others respond', async () => {
+      fetchMock.mockImplementation(async (input) => {
+        if (String(input).startsWith('https://public.test')) {
+          return jsonResponse(indexOf({ name: 'linter' }));
+        }
+        throw new Error('ECONNREFUSED');
+      });
+
+      const client = new RegistryClient({ registries, offline: false });
+      const index = await client.getIndex();
+
+      expect(index.cognitives.map((c) => c.name)).toEqual(['linter']);
+    });
+  });
+
+  describe('authentication', () => {
+    const credentialsPath = '/home/test/.synapsync/credentials.json';
+    const registries = [
+      { name: 'internal', url: 'https://internal.test' },
+      { name: 'public', url: 'https://public.test' },
+    ];
+
+    function sentHeaders(urlPrefix: string): Record<string, string> | undefined {
+      const call = fetchMock.mock.calls.find(([url]) => String(url).startsWith(urlPrefix));
+      return call?.[1]?.headers as Record<string, string> | undefined;
+    }
+
+    it('should send credentials only to the registry they belong to', async () => {
+      const credentials = new CredentialStore(credentialsPath);
+      credentials.set('https://internal.test', { type: 'bearer', token: 'secret' });
+      fetchMock.mockImplementation(async () => jsonResponse(indexOf()));
+
+      await new RegistryClient({ registries, credentials, offline: false }).getIndex();
+
+      expect(sentHeaders('https://internal.test')?.['Authorization']).toBe('Bearer secret');
+      expect(sentHeaders('https://public.test')?.['Authorization']).toBeUndefined();
+    });
+
+    it('should support basic auth and tokens read from env vars', async () => {
+      vi.stubEnv('INTERNAL_TOKEN', 'from-env');
+      const credentials = new CredentialStore(credentialsPath);
+      credentials.set('https://internal.test', { type: 'env', env: 'INTERNAL_TOKEN' });
+      credentials.set('https://public.test/', { type: 'basic', username: 'ci', password: 'pw' });
+      fetchMock.mockImplementation(async () => jsonResponse(indexOf()));
+
+      await new RegistryClient({ registries, credentials, offline: false }).getIndex();
+
+      expect(sentHeaders('https://internal.test')?.['Authorization']).toBe('Bearer from-env');
+      expect(sentHeaders('https://public.test')?.['Authorization']).toBe(
+        `Basic ${Buffer.from('ci:pw').toString('base64')}`
+      );
+      vi.unstubAllEnvs();
+    });
+
+    it('should throw RegistryAuthError on 401', async () => {
+      fetchMock.mockResolvedValue(new Response(null, { status: 401 }));
+
+      const client = new RegistryClient({ registries: [registries[0]!], offline: false });
+
+      await expect(client.getIndex()).rejects.toBeInstanceOf(RegistryAuthError);
+    });
+
+    it('should store credentials outside the project with owner-only permissions', () => {
+      new CredentialStore(credentialsPath).set('https://internal.test', { type: 'bearer', token: 't' });
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        credentialsPath,
+        expect.any(String),
+        expect.objectContaining({ mode: 0o600 })
+      );
+      expect(new CredentialStore(credentialsPath).remove('https://internal.test')).toBe(true);
+      expect(new CredentialStore(credentialsPath).get('https://internal.test')).toBeNull();
+    });
+
+    it('should redact authorization headers for logging', () => {
+      expect(redactHeaders({ Authorization: 'Bearer secret', 'User-Agent': 'x' })).toEqual({
+        Authorization: 'Bearer ********',
+        'User-Agent': 'x',
+      });
+    });
+  });
+
+  describe('versions', () => {
+    const entry = indexOf({ name: 'code-reviewer', version: '1.3.0' }).cognitives[0] as RegistryCognitiveEntry;
+    const versionsListing = {
+      name: 'code-reviewer',
+      versions: [
+        { version: '1.2.0', path: 'cognitives/skills/general/code-reviewer/versions/1.2.0' },
+        { version: '1.2.4', path: 'cognitives/skills/general/code-reviewer/versions/1.2.4' },
+        { version: '0.9.0', path: 'cognitives/skills/general/code-reviewer/versions/0.9.0' },
+      ],
+    };
+
+    it('should parse name@version specifiers, including scoped names', () => {
+      expect(parseRegistrySpecifier('code-reviewer')).toEqual({ name: 'code-reviewer' });
+      expect(parseRegistrySpecifier('code-reviewer@^1.2')).toEqual({ name: 'code-reviewer', version: '^1.2' });
+      expect(parseRegistrySpecifier('@acme/deploy')).toEqual({ name: '@acme/deploy' });
+      expect(parseRegistrySpecifier('@acme/deploy@1.0.0')).toEqual({ name: '@acme/deploy', version: '1.0.0' });
+    });
+
+    it('should resolve ranges against the versions listing', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(versionsListing));
+      const client = new RegistryClient({ baseUrl, offline: false });
+
+      const resolved = await client.resolveVersion(entry, '~1.2.0');
+
+      expect(String(fetchMock.mock.calls[0]?.[0])).toBe(
+        `${baseUrl}/cognitives/skills/general/code-reviewer/versions.json`
+      );
+      expect(resolved.version).toBe('1.2.4');
+      expect(resolved.path).toBe('cognitives/skills/general/code-reviewer/versions/1.2.4');
+    });
+
+    it('should include the indexed version and sort newest first', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(versionsListing));
+      const client = new RegistryClient({ baseUrl, offline: false });
+
+      const versions = await client.getVersions(entry);
+
+      expect(versions.map((v) => v.version)).toEqual(['1.3.0', '1.2.4', '1.2.0', '0.9.0']);
+      expect((await client.resolveVersion(entry, '^1')).path).toBe(entry.path);
+    });
+
+    it('should only serve the indexed version without a versions listing', async () => {
+      fetchMock.mockImplementation(async () => new Response('not found', { status: 404 }));
+      const client = new RegistryClient({ baseUrl, offline: false });
+
+      expect(await client.getVersions(entry)).toEqual([{ version: '1.3.0', path: entry.path }]);
+      await expect(client.resolveVersion(entry, '1.2.0')).rejects.toBeInstanceOf(VersionNotFoundError);
+    });
+
+    it('should download the resolved version', async () => {
+      fetchMock.mockImplementation(async (input) => {
+        const url = String(input);
+        if (url.endsWith('registry.json')) return jsonResponse(indexOf({ name: 'code-reviewer', version: '1.3.0' }));
+        if (url.endsWith('versions.json')) return jsonResponse(versionsListing);
+        if (url.endsWith('versions/1.2.0/manifest.json')) {
+          return jsonResponse({ name: 'code-reviewer', version: '1.2.0', file: 'SKILL.md' });
+        }
+        if (url.endsWith('versions/1.2.0/SKILL.md')) return new Response('# v1.2.0');
+        return new Response('not found', { status: 404 });
+      });
+      const client = new RegistryClient({ baseUrl, offline: false });
+
+      const downloaded = await client.download('code-reviewer', { version: '1.2.0' });
+
+      expect(downloaded.version).toBe('1.2.0');
+      expect(downloaded.content).toBe('# v1.2.0');
+    });
+  });
+});
@@ -96,6 +96,31 @@ describe('CognitiveScanner', () => {
       // This tests listDirectories internally filters .hidden
     });
 
+    it('should name cognitives in scope folders after their scope', () => {
+      const categoryDir = path.join(testDir, 'skills', 'general');
+      const scopedDir = path.join(categoryDir, '@acme', 'deploy');
+      vi.mocked(fs.existsSync).mockImplementation((p: fs.PathLike) =>
+        p.toString().startsWith(path.join(testDir, 'skills'))
+      );
+      vi.mocked(fs.readdirSync).mockImplementation(((p: fs.PathLike) => {
+        const children: Record<string, string[]> = {
+          [path.join(testDir, 'skills')]: ['general'],
+          [categoryDir]: ['@acme', 'deploy'],
+          [path.join(categoryDir, '@acme')]: ['deploy'],
+        };
+        return (children[p.toString()] ?? []).map((name) => ({ name, isDirectory: () => true }));
+      }) as unknown as typeof fs.readdirSync);
+      vi.mocked(fs.readFileSync).mockReturnValue('---\nname: deploy\n---\n# Deploy');
+
+      const scanner = new CognitiveScanner(testDir);
+      const result = scanner.scan();
+
+      expect(result.map((c) => [c.name, c.path])).toEqual([
+        ['@acme/deploy', scopedDir],
+        ['deploy', path.join(categoryDir, 'deploy')],
+      ]);
+    });
+
     it('should produce consistent hashes for same content', () => {
       // Hash is tested indirectly through toManifestCognitive
       const scanned: ScannedCognitive = {
@@ -198,6 +223,34 @@ describe('CognitiveScanner', () => {
       expect(result.removed[0]).toBe('old-skill');
       expect(result.unchanged).toBe(1);
     });
+
+    it('should keep the manifest cognitive when another one takes its name', () => {
+      const agent: ScannedCognitive = {
+        ...scannedCognitive,
+        type: 'agent',
+        path: '/test/.synapsync/agents/general/test-skill',
+        hash: 'other',
+      };
+
+      const result = scanner.compare([scannedCognitive, agent], [manifestCognitive]);
+
+      expect(result.collisions).toEqual([
+        { name: 'test-skill', cognitives: [scannedCognitive, agent], kept: scannedCognitive },
+      ]);
+      expect(result.unchanged).toBe(1);
+      expect(result.modified).toHaveLength(0);
+      expect(scanner.excludeCollided([scannedCognitive, agent], result.collisions)).toEqual([scannedCognitive]);
+    });
+
+    it('should not add either cognitive of a new collision', () => {
+      const other: ScannedCognitive = { ...scannedCognitive, category: 'frontend' };
+
+      const result = scanner.compare([scannedCognitive, other], []);
+
+      expect(result.collisions[0]?.kept).toBeUndefined();
+      expect(result.new).toHaveLength(0);
+      expect(result.removed).toHaveLength(0);
+    });
   });
 
   describe('toManifestCognitive', () => {
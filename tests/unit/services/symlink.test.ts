@@ -0,0 +1,262 @@
+/**
+ * Provider Paths Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SyncEngine } from '../../../src/services/sync/engine.js';
+import { SymlinkManager } from '../../../src/services/symlink/manager.js';
+import { createDefaultConfig, getProviderPaths } from '../../../src/services/config/schema.js';
+import type { ProjectConfig } from '../../../src/services/config/schema.js';
+
+describe('provider paths', () => {
+  let projectRoot: string;
+  let synapSyncDir: string;
+
+  const configWith = (skillPath?: string): ProjectConfig => {
+    const config = createDefaultConfig('test');
+    if (skillPath !== undefined) {
+      config.sync.providers.claude = { enabled: true, paths: { skill: skillPath } };
+    }
+    return config;
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-paths-'));
+    synapSyncDir = path.join(projectRoot, '.synapsync');
+    const skillDir = path.join(synapSyncDir, 'skills', 'general', 'rev');
+    fs.mkdirSync(skillDir, { recursive: true });
+    fs.writeFileSync(path.join(skillDir, 'SKILL.md'), '---\nname: rev\n---\n# Rev\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should put custom paths from the config over the defaults', () => {
+    const paths = getProviderPaths('claude', configWith('.claude-code/skills'));
+
+    expect(paths.skill).toBe('.claude-code/skills');
+    expect(paths.agent).toBe('.claude/agents');
+    expect(getProviderPaths('gemini', null).skill).toBe('.gemini/skills');
+  });
+
+  it('should sync into the configured folder', () => {
+    const result = new SyncEngine(
+      synapSyncDir,
+      projectRoot,
+      configWith('.claude-code/skills')
+    ).sync();
+
+    expect(result.success).toBe(true);
+    expect(
+      fs.lstatSync(path.join(projectRoot, '.claude-code', 'skills', 'rev')).isSymbolicLink()
+    ).toBe(true);
+    expect(fs.existsSync(path.join(projectRoot, '.claude', 'skills', 'rev'))).toBe(false);
+  });
+
+  it('should move existing links when the path changes', () => {
+    new SyncEngine(synapSyncDir, projectRoot, configWith()).sync();
+    const unmanaged = path.join(projectRoot, '.claude', 'skills', 'notes.md');
+    fs.writeFileSync(unmanaged, 'mine');
+
+    const result = new SyncEngine(
+      synapSyncDir,
+      projectRoot,
+      configWith('.claude-code/skills')
+    ).sync();
+
+    expect(result.providerResults?.[0]?.migrated).toEqual(['rev']);
+    expect(fs.existsSync(path.join(projectRoot, '.claude', 'skills', 'rev'))).toBe(false);
+    expect(fs.existsSync(unmanaged)).toBe(true);
+    expect(
+      fs.lstatSync(path.join(projectRoot, '.claude-code', 'skills', 'rev')).isSymbolicLink()
+    ).toBe(true);
+  });
+
+  it('should render cognitives for providers with a native format', () => {
+    const config = configWith();
+    config.sync.providers.cursor = { enabled: true };
+    const rulesDir = path.join(projectRoot, '.cursor', 'rules');
+    fs.mkdirSync(rulesDir, { recursive: true });
+    fs.writeFileSync(path.join(rulesDir, 'mine.mdc'), '# My rule');
+
+    new SyncEngine(synapSyncDir, projectRoot, config).sync();
+    const rule = path.join(rulesDir, 'rev.mdc');
+    expect(fs.lstatSync(rule).isSymbolicLink()).toBe(false);
+    expect(fs.readFileSync(rule, 'utf-8')).toContain('# Rev');
+
+    // Edits to the source are rendered again; removed cognitives lose their rule
+    const skillFile = path.join(synapSyncDir, 'skills', 'general', 'rev', 'SKILL.md');
+    fs.writeFileSync(skillFile, '---\nname: rev\n---\n# Rev 2\n');
+    new SyncEngine(synapSyncDir, projectRoot, config).sync();
+    expect(fs.readFileSync(rule, 'utf-8')).toContain('# Rev 2');
+
+    fs.rmSync(path.dirname(skillFile), { recursive: true });
+    new SyncEngine(synapSyncDir, projectRoot, config).sync();
+    expect(fs.existsSync(rule)).toBe(false);
+    expect(fs.readFileSync(path.join(rulesDir, 'mine.mdc'), 'utf-8')).toBe('# My rule');
+  });
+
+  it('should skip unsupported types and leave unmanaged files in shared folders alone', () => {
+    const config = configWith();
+    config.sync.providers.copilot = { enabled: true };
+    const workflowDir = path.join(synapSyncDir, 'workflows', 'general', 'ci');
+    fs.mkdirSync(workflowDir, { recursive: true });
+    fs.writeFileSync(path.join(workflowDir, 'ci.yaml'), 'name: ci\n');
+
+    // GitHub Actions, and a workflow linked by an older sync
+    const actionsDir = path.join(projectRoot, '.github', 'workflows');
+    fs.mkdirSync(actionsDir, { recursive: true });
+    fs.writeFileSync(path.join(actionsDir, 'build.yml'), 'on: push\n');
+    fs.symlinkSync(path.join(workflowDir, 'ci.yaml'), path.join(actionsDir, 'ci.yaml'));
+
+    const result = new SyncEngine(synapSyncDir, projectRoot, config).sync();
+    const copilot = result.providerResults?.find((r) => r.provider === 'copilot');
+
+    expect(copilot?.unsupported).toEqual([{ name: 'ci', type: 'workflow' }]);
+    expect(copilot?.removed).toEqual(['ci']);
+    expect(fs.readdirSync(actionsDir)).toEqual(['build.yml']);
+    expect(fs.existsSync(path.join(projectRoot, '.claude', 'workflows'))).toBe(false);
+    expect(
+      fs.existsSync(path.join(projectRoot, '.github', 'instructions', 'rev.instructions.md'))
+    ).toBe(true);
+  });
+
+  it('should never replace files it did not create, unless backing them up', () => {
+    const agentDir = path.join(synapSyncDir, 'agents', 'general', 'reviewer');
+    fs.mkdirSync(agentDir, { recursive: true });
+    fs.writeFileSync(path.join(agentDir, 'reviewer.md'), '---\nname: reviewer\n---\n# Reviewer\n');
+    const agentsDir = path.join(projectRoot, '.claude', 'agents');
+    fs.mkdirSync(agentsDir, { recursive: true });
+    const handWritten = path.join(agentsDir, 'reviewer.md');
+    fs.writeFileSync(handWritten, 'mine');
+    fs.writeFileSync(path.join(agentsDir, 'notes.md'), 'notes');
+
+    const refused = new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ force: true });
+
+    expect(refused.success).toBe(true);
+    expect(refused.providerResults?.[0]?.unmanaged).toEqual([handWritten]);
+    expect(fs.readFileSync(handWritten, 'utf-8')).toBe('mine');
+    expect(fs.readFileSync(path.join(agentsDir, 'notes.md'), 'utf-8')).toBe('notes');
+
+    const backedUp = new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({
+      backup: true,
+    });
+
+    expect(backedUp.providerResults?.[0]?.backedUp).toEqual([handWritten]);
+    expect(fs.lstatSync(handWritten).isSymbolicLink()).toBe(true);
+    const [stamp] = fs.readdirSync(path.join(synapSyncDir, '.backups'));
+    const backup = path.join(synapSyncDir, '.backups', stamp!, '.claude', 'agents', 'reviewer.md');
+    expect(fs.readFileSync(backup, 'utf-8')).toBe('mine');
+  });
+
+  it('should keep managing the copies of a copy sync', () => {
+    new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ copy: true });
+    const copy = path.join(projectRoot, '.claude', 'skills', 'rev');
+    expect(fs.lstatSync(copy).isDirectory()).toBe(true);
+
+    fs.rmSync(path.join(synapSyncDir, 'skills', 'general', 'rev'), { recursive: true });
+    const result = new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ copy: true });
+
+    expect(result.providerResults?.[0]?.removed).toEqual(['rev']);
+    expect(fs.existsSync(copy)).toBe(false);
+  });
+
+  it('should copy when the config sets sync.method to copy', () => {
+    const config = configWith();
+    config.sync.method = 'copy';
+
+    new SyncEngine(synapSyncDir, projectRoot, config).sync();
+
+    const copy = path.join(projectRoot, '.claude', 'skills', 'rev');
+    expect(fs.lstatSync(copy).isDirectory()).toBe(true);
+    expect(
+      new SymlinkManager(projectRoot, synapSyncDir, config).verifyProvider('claude').valid
+    ).toHaveLength(1);
+  });
+
+  it('should keep copies edited in place and pull the edits back', () => {
+    new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ copy: true });
+    const ledger = JSON.parse(
+      fs.readFileSync(path.join(synapSyncDir, 'managed-files.json'), 'utf-8')
+    ) as { files: Record<string, { source: string }> };
+    expect(ledger.files['.claude/skills/rev']?.source).toBe('.synapsync/skills/general/rev');
+
+    const copied = path.join(projectRoot, '.claude', 'skills', 'rev', 'SKILL.md');
+    fs.writeFileSync(copied, '---\nname: rev\n---\n# Rev, edited\n');
+    const kept = new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ copy: true });
+
+    expect(kept.providerResults?.[0]?.drifted).toEqual([path.dirname(copied)]);
+    expect(fs.readFileSync(copied, 'utf-8')).toContain('edited');
+    const symlink = new SymlinkManager(projectRoot, synapSyncDir, configWith());
+    expect(symlink.verifyProvider('claude').drifted.map((l) => l.cognitiveName)).toEqual(['rev']);
+
+    const pulled = new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({
+      copy: true,
+      pull: true,
+    });
+
+    expect(pulled.pulled).toEqual(['rev']);
+    expect(pulled.updated).toBe(1);
+    expect(
+      fs.readFileSync(path.join(synapSyncDir, 'skills', 'general', 'rev', 'SKILL.md'), 'utf-8')
+    ).toContain('edited');
+    expect(pulled.providerResults?.[0]?.drifted).toEqual([]);
+  });
+
+  it('should not pull copies edited differently in two providers', () => {
+    const config = configWith();
+    config.sync.providers.openai = { enabled: true };
+    new SyncEngine(synapSyncDir, projectRoot, config).sync({ copy: true });
+    const claudeCopy = path.join(projectRoot, '.claude', 'skills', 'rev');
+    const openaiCopy = path.join(projectRoot, '.openai', 'skills', 'rev');
+    fs.writeFileSync(path.join(claudeCopy, 'SKILL.md'), '# Claude edit\n');
+    fs.writeFileSync(path.join(openaiCopy, 'SKILL.md'), '# OpenAI edit\n');
+
+    const result = new SyncEngine(synapSyncDir, projectRoot, config).sync({
+      copy: true,
+      pull: true,
+    });
+
+    expect(result.pulled).toEqual([]);
+    expect(result.pullConflicts).toEqual([{ cognitive: 'rev', targets: [claudeCopy, openaiCopy] }]);
+    expect(
+      fs.readFileSync(path.join(synapSyncDir, 'skills', 'general', 'rev', 'SKILL.md'), 'utf-8')
+    ).toBe('---\nname: rev\n---\n# Rev\n');
+  });
+
+  it('should clean orphaned copies by the ledger, leaving other files alone', () => {
+    new SyncEngine(synapSyncDir, projectRoot, configWith()).sync({ copy: true });
+    const mine = path.join(projectRoot, '.claude', 'skills', 'mine');
+    fs.mkdirSync(mine);
+    fs.writeFileSync(path.join(mine, 'SKILL.md'), '# Mine');
+
+    fs.rmSync(path.join(synapSyncDir, 'skills', 'general', 'rev'), { recursive: true });
+    const removed = new SymlinkManager(projectRoot, synapSyncDir, configWith()).cleanProvider(
+      'claude'
+    );
+
+    expect(removed).toEqual(['rev']);
+    expect(fs.existsSync(path.join(projectRoot, '.claude', 'skills', 'rev'))).toBe(false);
+    expect(fs.existsSync(mine)).toBe(true);
+  });
+
+  it('should clean only the symlinks it created', () => {
+    new SyncEngine(synapSyncDir, projectRoot, configWith()).sync();
+    const skillsDir = path.join(projectRoot, '.claude', 'skills');
+    const shared = path.join(projectRoot, 'shared');
+    fs.mkdirSync(shared);
+    fs.symlinkSync(shared, path.join(skillsDir, 'shared'));
+    fs.symlinkSync(path.join(projectRoot, 'gone'), path.join(skillsDir, 'gone'));
+
+    fs.rmSync(path.join(synapSyncDir, 'skills', 'general', 'rev'), { recursive: true });
+    const symlink = new SymlinkManager(projectRoot, synapSyncDir, configWith());
+
+    expect(symlink.verifyProvider('claude').broken.map((l) => l.cognitiveName)).toEqual(['rev']);
+    expect(symlink.cleanProvider('claude')).toEqual(['rev']);
+    expect(fs.readdirSync(skillsDir).sort()).toEqual(['gone', 'shared']);
+  });
+});
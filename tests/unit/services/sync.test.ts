@@ -5,9 +5,40 @@
  * These tests focus on the type definitions and basic contract.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SyncEngine } from '../../../src/services/sync/engine.js';
+import { ManifestManager } from '../../../src/services/manifest/manager.js';
+import { LockfileManager } from '../../../src/services/lockfile/manager.js';
 import type { SyncResult, SyncOptions, SyncAction } from '../../../src/services/sync/types.js';
 
+describe('SyncEngine', () => {
+  let projectRoot: string;
+  let synapSyncDir: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-sync-'));
+    synapSyncDir = path.join(projectRoot, '.synapsync');
+    const skillDir = path.join(synapSyncDir, 'skills', 'general', 'rev');
+    fs.mkdirSync(skillDir, { recursive: true });
+    fs.writeFileSync(path.join(skillDir, 'SKILL.md'), '---\nname: rev\n---\n# Rev\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should leave a frozen lockfile in sync after adding local cognitives', () => {
+    const result = new SyncEngine(synapSyncDir, projectRoot).sync();
+    expect(result.added).toBe(1);
+
+    const cognitives = new ManifestManager(synapSyncDir).getCognitives();
+    expect(() => new LockfileManager(projectRoot).assertInSync(cognitives)).not.toThrow();
+  });
+});
+
 describe('Sync Types', () => {
   describe('SyncResult', () => {
     it('should have correct shape', () => {
@@ -45,6 +76,11 @@ describe('Sync Types', () => {
             created: [],
             skipped: [],
             removed: [],
+            migrated: [],
+            unsupported: [],
+            unmanaged: [],
+            backedUp: [],
+            drifted: [],
             errors: [],
             method: 'symlink',
           },
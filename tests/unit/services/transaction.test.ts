@@ -0,0 +1,115 @@
+/**
+ * Transaction Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Transaction,
+  TransactionPendingError,
+  describeRollback,
+  getTransactionDir,
+} from '../../../src/services/transaction/index.js';
+
+describe('Transaction', () => {
+  let root: string;
+  let synapSyncDir: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-tx-'));
+    synapSyncDir = path.join(root, '.synapsync');
+    fs.mkdirSync(synapSyncDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should restore changed, created and removed paths on rollback', () => {
+    const manifestPath = path.join(synapSyncDir, 'manifest.json');
+    const removedDir = path.join(synapSyncDir, 'skills', 'general', 'old-skill');
+    const linkPath = path.join(root, '.claude', 'skills', 'old-skill');
+    fs.writeFileSync(manifestPath, '{"v":1}');
+    fs.mkdirSync(removedDir, { recursive: true });
+    fs.writeFileSync(path.join(removedDir, 'SKILL.md'), '# Old');
+    fs.mkdirSync(path.dirname(linkPath), { recursive: true });
+    fs.symlinkSync('../../.synapsync/skills/general/old-skill', linkPath);
+
+    const transaction = Transaction.begin(synapSyncDir, 'add');
+    transaction.track(manifestPath);
+    fs.writeFileSync(manifestPath, '{"v":2}');
+    transaction.track(removedDir);
+    fs.rmSync(removedDir, { recursive: true });
+    transaction.track(linkPath);
+    fs.unlinkSync(linkPath);
+    transaction.stage(path.join(synapSyncDir, 'skills', 'general', 'new-skill'), (dir) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'SKILL.md'), '# New');
+    });
+
+    const result = transaction.rollback();
+
+    expect(fs.readFileSync(manifestPath, 'utf-8')).toBe('{"v":1}');
+    expect(fs.readFileSync(path.join(removedDir, 'SKILL.md'), 'utf-8')).toBe('# Old');
+    expect(fs.readlinkSync(linkPath)).toBe('../../.synapsync/skills/general/old-skill');
+    expect(fs.existsSync(path.join(synapSyncDir, 'skills', 'general', 'new-skill'))).toBe(false);
+    expect(result.restored).toHaveLength(3);
+    expect(result.removed).toHaveLength(1);
+    expect(describeRollback(result)).toBe('Rolled back 4 change(s)');
+    expect(fs.existsSync(getTransactionDir(synapSyncDir))).toBe(false);
+  });
+
+  it('should keep changes and drop the journal on commit', () => {
+    const target = path.join(synapSyncDir, 'skills', 'general', 'new-skill');
+
+    const transaction = Transaction.begin(synapSyncDir, 'add');
+    transaction.stage(target, (dir) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'SKILL.md'), '# New');
+    });
+    transaction.commit();
+
+    expect(fs.readFileSync(path.join(target, 'SKILL.md'), 'utf-8')).toBe('# New');
+    expect(Transaction.getPending(synapSyncDir)).toBeNull();
+    expect(() => transaction.rollback()).toThrow('already finished');
+  });
+
+  it('should back up a path only the first time it is tracked', () => {
+    const filePath = path.join(synapSyncDir, 'manifest.json');
+    fs.writeFileSync(filePath, 'original');
+
+    const transaction = Transaction.begin(synapSyncDir, 'update');
+    transaction.track(filePath);
+    fs.writeFileSync(filePath, 'first');
+    transaction.track(filePath);
+    transaction.track(synapSyncDir + '/skills');
+    transaction.track(synapSyncDir + '/skills/general/nested');
+    fs.writeFileSync(filePath, 'second');
+
+    expect(transaction.getEntries()).toHaveLength(2);
+    transaction.rollback();
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('original');
+  });
+
+  it('should leave a journal that recover rolls back after an interrupted run', () => {
+    const filePath = path.join(root, 'AGENTS.md');
+    fs.writeFileSync(filePath, 'before');
+
+    // Simulate a crash: changes made, neither commit nor rollback
+    const transaction = Transaction.begin(synapSyncDir, 'sync');
+    transaction.track(filePath);
+    fs.writeFileSync(filePath, 'half written');
+    process.removeAllListeners('SIGINT');
+
+    expect(Transaction.getPending(synapSyncDir)?.command).toBe('sync');
+    expect(() => Transaction.begin(synapSyncDir, 'add')).toThrow(TransactionPendingError);
+
+    const result = Transaction.recover(synapSyncDir);
+
+    expect(result?.restored).toEqual([filePath]);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('before');
+    expect(Transaction.recover(synapSyncDir)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Provider Transformer Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getTransformer,
+  readGeneratedMarker,
+  transformCognitive,
+} from '../../../src/services/transformer/index.js';
+import type { ScannedCognitive } from '../../../src/services/scanner/types.js';
+
+describe('transformCognitive', () => {
+  let dir: string;
+  let cognitive: ScannedCognitive;
+
+  const write = (content: string): void => {
+    fs.writeFileSync(cognitive.filePath, content);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'synapsync-transform-'));
+    cognitive = {
+      name: '@acme/review',
+      type: 'skill',
+      category: 'general',
+      path: dir,
+      filePath: path.join(dir, 'SKILL.md'),
+      hash: 'x',
+      metadata: {},
+    };
+    write(
+      '---\nname: review\ndescription: Review code\nglobs: ["src/**/*.ts", "*.md"]\n---\n\n# Review\n\nCheck it.\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should render Cursor rules with description, globs and alwaysApply', () => {
+    const output = transformCognitive(getTransformer('cursor')!, cognitive);
+
+    expect(output.fileName).toBe('acme__review.mdc');
+    expect(output.content).toBe(
+      '---\ndescription: Review code\nglobs: src/**/*.ts, *.md\nalwaysApply: false\n---\n' +
+        '<!-- synapsync:generated skill @acme/review -->\n# Review\n\nCheck it.\n'
+    );
+    expect(readGeneratedMarker(output.content)).toEqual({ type: 'skill', name: '@acme/review' });
+  });
+
+  it('should render Copilot instructions with applyTo', () => {
+    const output = transformCognitive(getTransformer('copilot')!, cognitive);
+
+    expect(output.fileName).toBe('acme__review.instructions.md');
+    expect(output.content).toContain('applyTo: "src/**/*.ts,*.md"\ndescription: Review code\n');
+  });
+
+  it('should render Windsurf rules with a trigger', () => {
+    write('---\nname: review\nalwaysApply: true\n---\nAlways.\n');
+
+    const output = transformCognitive(getTransformer('windsurf')!, cognitive);
+
+    expect(output.content).toBe(
+      '---\ntrigger: always_on\n---\n<!-- synapsync:generated skill @acme/review -->\nAlways.\n'
+    );
+  });
+
+  it('should render Gemini context without frontmatter, adding a heading when missing', () => {
+    write('---\nname: review\ndescription: Review code\n---\nCheck it.\n');
+
+    const output = transformCognitive(getTransformer('gemini')!, cognitive);
+
+    expect(output.content).toBe(
+      '<!-- synapsync:generated skill @acme/review -->\n# @acme/review\n\nReview code\n\nCheck it.\n'
+    );
+  });
+
+  it('should leave providers without a format alone', () => {
+    expect(getTransformer('claude')).toBeNull();
+    expect(readGeneratedMarker('# My own rule')).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Changelog Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseChangelog, selectChangelog } from '../../../src/utils/changelog.js';
+
+const markdown = [
+  '# Changelog',
+  '',
+  '## [Unreleased]',
+  '- Not released yet',
+  '',
+  '## [1.2.0] - 2026-03-01',
+  '### Changed',
+  '- Ask for a summary first',
+  '',
+  '## v1.1.0',
+  '* Review tests too',
+  '',
+  '## 1.0.0 - 2026-01-01',
+  '- First release',
+].join('\n');
+
+describe('parseChangelog', () => {
+  it('should read one entry per version heading and skip other sections', () => {
+    expect(parseChangelog(markdown)).toEqual([
+      { version: '1.2.0', date: '2026-03-01', changes: ['Changed:', 'Ask for a summary first'] },
+      { version: '1.1.0', changes: ['Review tests too'] },
+      { version: '1.0.0', date: '2026-01-01', changes: ['First release'] },
+    ]);
+  });
+});
+
+describe('selectChangelog', () => {
+  it('should keep the versions after the installed one up to the target, newest first', () => {
+    const entries = parseChangelog(markdown).reverse();
+
+    expect(selectChangelog(entries, '1.0.0', '1.2.0').map((e) => e.version)).toEqual([
+      '1.2.0',
+      '1.1.0',
+    ]);
+    expect(selectChangelog(entries, '1.0.0', '1.1.0').map((e) => e.version)).toEqual(['1.1.0']);
+  });
+});
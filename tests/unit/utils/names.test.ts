@@ -0,0 +1,68 @@
+/**
+ * Cognitive Name Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findLinkConflict,
+  fromLinkName,
+  isValidCognitiveName,
+  parseCognitiveName,
+  toLinkName,
+} from '../../../src/utils/names.js';
+
+describe('names', () => {
+  describe('parseCognitiveName', () => {
+    it('should split scoped names', () => {
+      expect(parseCognitiveName('@acme/deploy')).toEqual({ scope: '@acme', name: 'deploy' });
+      expect(parseCognitiveName('deploy')).toEqual({ scope: null, name: 'deploy' });
+    });
+  });
+
+  describe('isValidCognitiveName', () => {
+    it('should accept bare and scoped names', () => {
+      expect(isValidCognitiveName('code-review')).toBe(true);
+      expect(isValidCognitiveName('@acme/code-review')).toBe(true);
+    });
+
+    it('should reject names that leave their folder', () => {
+      expect(isValidCognitiveName('..')).toBe(false);
+      expect(isValidCognitiveName('a/b')).toBe(false);
+      expect(isValidCognitiveName('@acme/../x')).toBe(false);
+      expect(isValidCognitiveName('@acme/a/b')).toBe(false);
+      expect(isValidCognitiveName('@../x')).toBe(false);
+      expect(isValidCognitiveName('@acme/')).toBe(false);
+    });
+
+    it('should accept names that read like a provider link', () => {
+      expect(isValidCognitiveName('acme__deploy')).toBe(true);
+      expect(isValidCognitiveName('__private')).toBe(true);
+    });
+  });
+
+  describe('findLinkConflict', () => {
+    it('should find another name sharing the provider link', () => {
+      expect(findLinkConflict('acme__deploy', ['@acme/deploy', 'lint'])).toBe('@acme/deploy');
+      expect(findLinkConflict('@acme/_deploy', ['@acme_/deploy'])).toBe('@acme_/deploy');
+    });
+
+    it('should ignore the name itself and distinct links', () => {
+      expect(findLinkConflict('acme__deploy', ['acme__deploy', 'deploy'])).toBeUndefined();
+      expect(findLinkConflict('@acme/deploy', ['@other/deploy'])).toBeUndefined();
+    });
+  });
+
+  describe('toLinkName', () => {
+    it('should prefix scoped names with their scope', () => {
+      expect(toLinkName('@acme/deploy')).toBe('acme__deploy');
+      expect(toLinkName('@acme/deploy', 'deploy.md')).toBe('acme__deploy.md');
+      expect(toLinkName('deploy', 'deploy.md')).toBe('deploy.md');
+    });
+
+    it('should map link names back to cognitive names', () => {
+      expect(fromLinkName('acme__deploy')).toBe('@acme/deploy');
+      expect(fromLinkName('deploy')).toBe('deploy');
+      expect(fromLinkName('__private')).toBe('__private');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Semver Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersions,
+  isValidRange,
+  maxSatisfying,
+  satisfies,
+} from '../../../src/utils/semver.js';
+
+describe('semver', () => {
+  describe('compareVersions', () => {
+    it('should order versions numerically', () => {
+      expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+      expect(compareVersions('v1.0.0', '1.0.0')).toBe(0);
+      expect(compareVersions('1.0.0', '2.0.0')).toBe(-1);
+    });
+
+    it('should order prereleases before releases', () => {
+      expect(compareVersions('1.0.0-beta.2', '1.0.0')).toBe(-1);
+      expect(compareVersions('1.0.0-beta.10', '1.0.0-beta.2')).toBe(1);
+    });
+  });
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.2.0', '1.2.0', true],
+      ['1.2.1', '1.2.0', false],
+      ['1.9.9', '^1.2', true],
+      ['2.0.0', '^1.2', false],
+      ['0.2.5', '^0.2.1', true],
+      ['0.3.0', '^0.2.1', false],
+      ['1.2.9', '~1.2.0', true],
+      ['1.3.0', '~1.2.0', false],
+      ['1.4.2', '1.x', true],
+      ['1.4.2', '1.4', true],
+      ['3.0.0', '*', true],
+      ['1.5.0', '>=1.2.0 <2.0.0', true],
+      ['2.1.0', '^1.0.0 || ^2.0.0', true],
+      ['1.3.0', '>1.2', true],
+      ['1.2.5', '>1.2', false],
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('should only match prereleases that are asked for', () => {
+      expect(satisfies('2.0.0-beta.1', '^1.0.0 || >=1.0.0')).toBe(false);
+      expect(satisfies('2.0.0-beta.2', '>=2.0.0-beta.1')).toBe(true);
+    });
+  });
+
+  describe('maxSatisfying', () => {
+    it('should pick the highest matching version', () => {
+      const versions = ['1.0.0', '1.2.0', '1.2.3', '1.10.0', '2.0.0'];
+
+      expect(maxSatisfying(versions, '^1.2')).toBe('1.10.0');
+      expect(maxSatisfying(versions, '~1.2.0')).toBe('1.2.3');
+      expect(maxSatisfying(versions, '^3')).toBeNull();
+    });
+  });
+
+  describe('isValidRange', () => {
+    it('should reject malformed ranges', () => {
+      expect(isValidRange('^1.2')).toBe(true);
+      expect(isValidRange('latest-ish')).toBe(false);
+      expect(isValidRange('>=a.b')).toBe(false);
+    });
+  });
+});